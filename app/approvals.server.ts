@@ -0,0 +1,50 @@
+import type { Session } from "@shopify/shopify-app-react-router/server";
+import { getApprovers, type ReplyPolicy } from "./models/settings.server";
+
+/**
+ * Whether the staff member behind `session` may approve replies. Without an
+ * approval requirement everyone can; otherwise only the store owner and the
+ * listed approvers can. Offline sessions have no user and never qualify.
+ */
+export function canApprove(session: Session, policy: ReplyPolicy) {
+  if (!policy.requireApproval) {
+    return true;
+  }
+
+  const user = session.onlineAccessInfo?.associated_user;
+  if (!user) {
+    return false;
+  }
+
+  return (
+    user.account_owner ||
+    getApprovers(policy.approvers).includes(user.email.toLowerCase())
+  );
+}
+
+/** Settings that decide what needs approval, and who gives it. */
+const APPROVAL_SETTINGS = [
+  "requireApproval",
+  "approvers",
+  "autoPublishFiveStar",
+] as const;
+
+/**
+ * Returns `next` with the approval settings of `current` kept unless the
+ * staff member may approve, so the workflow can't be switched off or
+ * widened by the staff it applies to.
+ */
+export function guardApprovalSettings(
+  session: Session,
+  current: ReplyPolicy,
+  next: ReplyPolicy,
+): ReplyPolicy {
+  if (canApprove(session, current)) {
+    return next;
+  }
+
+  return {
+    ...next,
+    ...Object.fromEntries(APPROVAL_SETTINGS.map((key) => [key, current[key]])),
+  };
+}
@@ -0,0 +1,44 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { Review } from "@prisma/client";
+import { addReplyComment, transitionReply } from "./models/reply.server";
+import { publishReply } from "./publishing/index.server";
+import { checkReply } from "./reply-context.server";
+
+/** Recorded as the actor on replies the auto-publish rule moves. */
+export const AUTO_PUBLISH_ACTOR = "Auto-publish rule";
+
+/**
+ * Approves and publishes a generated reply without a person reviewing it.
+ * Only replies that pass every check are published; the others stay in draft
+ * with a comment saying which checks failed.
+ */
+export async function autoPublishReply(
+  admin: AdminApiContext,
+  review: Review,
+  draft: { id: string; body: string },
+) {
+  const failed = (
+    await checkReply(admin, review.shop, review, draft.body)
+  ).filter((check) => !check.passed);
+  if (failed.length) {
+    await addReplyComment(
+      review.shop,
+      draft.id,
+      `Not published automatically: ${failed
+        .map((check) => check.message ?? check.label)
+        .join("; ")}`,
+      AUTO_PUBLISH_ACTOR,
+    );
+
+    return false;
+  }
+
+  return (
+    (await transitionReply(
+      review.shop,
+      draft.id,
+      "approve",
+      AUTO_PUBLISH_ACTOR,
+    )) && publishReply(admin, review, draft, AUTO_PUBLISH_ACTOR)
+  );
+}
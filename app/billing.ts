@@ -0,0 +1,20 @@
+/** Plan names double as the `billing` config keys in `shopify.server.ts`. */
+export const PLANS = {
+  Free: { price: 0, replies: 25 },
+  Starter: { price: 19, replies: 500 },
+  Growth: { price: 49, replies: 3000 },
+} as const;
+
+export type Plan = keyof typeof PLANS;
+export type PaidPlan = Exclude<Plan, "Free">;
+
+export const FREE_PLAN: Plan = "Free";
+export const PAID_PLANS = ["Starter", "Growth"] as const satisfies PaidPlan[];
+
+export function isPaidPlan(value: unknown): value is PaidPlan {
+  return PAID_PLANS.includes(value as PaidPlan);
+}
+
+export function getPlan(value: string | null | undefined): Plan {
+  return isPaidPlan(value) ? value : FREE_PLAN;
+}
@@ -0,0 +1,68 @@
+import type {
+  Flag,
+  ReviewClassification,
+  Sentiment,
+  Topic,
+  Urgency,
+} from "./classification";
+import type { ReviewInput } from "./reply-generator.server";
+
+const TOPIC_PATTERNS: Record<Topic, RegExp> = {
+  shipping:
+    /\b(ship|shipping|shipped|deliver\w*|arriv\w*|courier|parcel|package|tracking|transit)\b/i,
+  sizing:
+    /\b(size|sizes|sizing|fit|fits|fitting|too (small|big|large|tight|loose)|runs (small|large|big))\b/i,
+  quality:
+    /\b(quality|broke|broken|defect\w*|cheap(ly)?|flimsy|fell apart|ripped|torn|tear|stitch\w*|durab\w*)\b/i,
+  price: /\b(price|pricey|expensive|overpriced|cost|costs|value|worth)\b/i,
+  customer_service:
+    /\b(customer service|support|refund\w*|return\w*|respon\w*|no reply|never replied|rude|helpful)\b/i,
+};
+
+const FLAG_PATTERNS: Record<Flag, RegExp> = {
+  refund_chargeback:
+    /\b(refund\w*|charge ?back|money back|dispute\w*|claim with (my bank|paypal))\b/i,
+  safety_issue:
+    /\b(burn\w*|fire|smok\w*|electric shock|shocked|injur\w*|hurt|rash|allerg\w*|chok\w*|sharp edge|explod\w*|unsafe|hazard\w*|sick)\b/i,
+};
+
+const NEGATIVE_WORDS =
+  /\b(disappoint\w*|terrible|awful|horrible|worst|poor|bad|never again|waste)\b/i;
+
+/**
+ * Keyword-based triage used by the offline stub provider and whenever a model
+ * returns something unusable. Deliberately conservative: it only raises
+ * urgency for safety concerns, refund threats and low ratings.
+ */
+export function classifyWithRules(review: ReviewInput): ReviewClassification {
+  const text = `${review.title}\n${review.body}`;
+
+  const topics = (Object.keys(TOPIC_PATTERNS) as Topic[]).filter((topic) =>
+    TOPIC_PATTERNS[topic].test(text),
+  );
+  const flags = (Object.keys(FLAG_PATTERNS) as Flag[]).filter((flag) =>
+    FLAG_PATTERNS[flag].test(text),
+  );
+
+  let sentiment: Sentiment =
+    review.rating >= 4
+      ? "positive"
+      : review.rating <= 2
+        ? "negative"
+        : "neutral";
+  if (sentiment === "neutral" && NEGATIVE_WORDS.test(text)) {
+    sentiment = "negative";
+  }
+
+  let urgency: Urgency = "low";
+  if (
+    flags.includes("safety_issue") ||
+    (flags.includes("refund_chargeback") && review.rating <= 2)
+  ) {
+    urgency = "high";
+  } else if (sentiment === "negative" || flags.length) {
+    urgency = "medium";
+  }
+
+  return { sentiment, topics, urgency, flags };
+}
@@ -0,0 +1,73 @@
+export const SENTIMENTS = ["positive", "neutral", "negative"] as const;
+
+export const TOPICS = {
+  shipping: "Shipping",
+  sizing: "Sizing",
+  quality: "Quality",
+  price: "Price",
+  customer_service: "Customer service",
+} as const;
+
+export const FLAGS = {
+  refund_chargeback: "Mentions refund or chargeback",
+  safety_issue: "Possible safety issue",
+} as const;
+
+/** Stored as 1–3 on the review so lists can sort by it. */
+export const URGENCY_LEVELS = ["low", "medium", "high"] as const;
+
+export type Sentiment = (typeof SENTIMENTS)[number];
+export type Topic = keyof typeof TOPICS;
+export type Flag = keyof typeof FLAGS;
+export type Urgency = (typeof URGENCY_LEVELS)[number];
+
+export interface ReviewClassification {
+  sentiment: Sentiment;
+  topics: Topic[];
+  urgency: Urgency;
+  flags: Flag[];
+}
+
+export function urgencyFromLevel(level: number | null): Urgency | null {
+  return level ? (URGENCY_LEVELS[level - 1] ?? null) : null;
+}
+
+export function urgencyToLevel(urgency: Urgency) {
+  return URGENCY_LEVELS.indexOf(urgency) + 1;
+}
+
+/** Splits a comma-separated `topics` or `flags` column. */
+export function splitList(value: string) {
+  return value.split(",").filter(Boolean);
+}
+
+/**
+ * Validates a classification returned by a model, dropping unknown topics and
+ * flags. Returns null when the required fields are missing or invalid.
+ */
+export function normalizeClassification(
+  raw: unknown,
+): ReviewClassification | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const value = raw as Record<string, unknown>;
+  const list = (field: unknown) =>
+    Array.isArray(field) ? field.map(String) : [];
+
+  if (
+    !SENTIMENTS.includes(value.sentiment as Sentiment) ||
+    !URGENCY_LEVELS.includes(value.urgency as Urgency)
+  ) {
+    return null;
+  }
+
+  return {
+    sentiment: value.sentiment as Sentiment,
+    urgency: value.urgency as Urgency,
+    topics: list(value.topics).filter(
+      (topic): topic is Topic => topic in TOPICS,
+    ),
+    flags: list(value.flags).filter((flag): flag is Flag => flag in FLAGS),
+  };
+}
@@ -0,0 +1,55 @@
+import {
+  FLAGS,
+  TOPICS,
+  splitList,
+  urgencyFromLevel,
+  type Flag,
+  type Sentiment,
+  type Topic,
+  type Urgency,
+} from "../classification";
+
+const SENTIMENT_TONES: Record<Sentiment, "success" | "neutral" | "critical"> = {
+  positive: "success",
+  neutral: "neutral",
+  negative: "critical",
+};
+
+const URGENCY_TONES: Record<Urgency, "neutral" | "warning" | "critical"> = {
+  low: "neutral",
+  medium: "warning",
+  high: "critical",
+};
+
+export function ClassificationBadges({
+  review,
+}: {
+  review: {
+    sentiment: string | null;
+    urgency: number | null;
+    topics: string;
+    flags: string;
+  };
+}) {
+  const urgency = urgencyFromLevel(review.urgency);
+  if (!review.sentiment || !urgency) {
+    return <s-badge tone="neutral">Not classified yet</s-badge>;
+  }
+
+  return (
+    <s-stack direction="inline" gap="small-300">
+      <s-badge tone={SENTIMENT_TONES[review.sentiment as Sentiment]}>
+        {review.sentiment}
+      </s-badge>
+      <s-badge tone={URGENCY_TONES[urgency]}>{`${urgency} urgency`}</s-badge>
+      {splitList(review.flags).map((flag) => (
+        <s-badge key={flag} tone="critical" icon="alert-triangle">
+          {FLAGS[flag as Flag] ?? flag}
+        </s-badge>
+      ))}
+      {splitList(review.topics).map((topic) => (
+        <s-badge key={topic}>{TOPICS[topic as Topic] ?? topic}</s-badge>
+      ))}
+    </s-stack>
+  );
+}
@@ -0,0 +1,11 @@
+import type { JobStatus } from "../models/generation-job.server";
+
+const TONES: Record<JobStatus, "info" | "success" | "warning"> = {
+  running: "info",
+  cancelled: "warning",
+  completed: "success",
+};
+
+export function JobStatusBadge({ status }: { status: string }) {
+  return <s-badge tone={TONES[status as JobStatus]}>{status}</s-badge>;
+}
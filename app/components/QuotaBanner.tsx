@@ -0,0 +1,18 @@
+/** Shown in place of a generation error once the month's replies are used up. */
+export function QuotaBanner({
+  quota,
+}: {
+  quota: { limit: number; remaining: number };
+}) {
+  if (quota.remaining > 0) {
+    return null;
+  }
+
+  return (
+    <s-banner tone="warning" heading="Monthly reply limit reached">
+      {`You've used all ${quota.limit} replies included in your plan this month. `}
+      <s-link href="/app/usage">Upgrade your plan</s-link> to keep generating
+      replies.
+    </s-banner>
+  );
+}
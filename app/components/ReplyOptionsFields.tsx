@@ -0,0 +1,50 @@
+import {
+  DEFAULT_REPLY_OPTIONS,
+  REPLY_LANGUAGES,
+  REPLY_LENGTHS,
+  REPLY_TONES,
+  type ReplyOptions,
+} from "../llm/options";
+import { formatLanguage, useMerchantLocale } from "../locale";
+
+export function ReplyOptionsFields({
+  defaults = DEFAULT_REPLY_OPTIONS,
+  matchReview = false,
+}: {
+  defaults?: ReplyOptions;
+  /** Offers (and preselects) replying in each review's own language. */
+  matchReview?: boolean;
+}) {
+  const locale = useMerchantLocale();
+
+  return (
+    <s-stack direction="inline" gap="base">
+      <s-select name="tone" label="Tone" value={defaults.tone}>
+        {REPLY_TONES.map((tone) => (
+          <s-option key={tone} value={tone}>
+            {tone}
+          </s-option>
+        ))}
+      </s-select>
+      <s-select name="length" label="Length" value={defaults.length}>
+        {REPLY_LENGTHS.map((length) => (
+          <s-option key={length} value={length}>
+            {length}
+          </s-option>
+        ))}
+      </s-select>
+      <s-select
+        name="language"
+        label="Language"
+        value={matchReview ? "" : defaults.language}
+      >
+        {matchReview && <s-option value="">Same as the review</s-option>}
+        {Object.keys(REPLY_LANGUAGES).map((code) => (
+          <s-option key={code} value={code}>
+            {formatLanguage(code, locale)}
+          </s-option>
+        ))}
+      </s-select>
+    </s-stack>
+  );
+}
@@ -0,0 +1,23 @@
+import type { ReplyStatus } from "../models/reply.server";
+
+const TONES: Record<ReplyStatus, "info" | "success" | "critical" | "neutral"> =
+  {
+    draft: "info",
+    pending_approval: "neutral",
+    approved: "success",
+    publishing: "info",
+    published: "success",
+    rejected: "critical",
+  };
+
+export function ReplyStatusBadge({ status }: { status: string | null }) {
+  if (!status) {
+    return <s-badge tone="neutral">No reply</s-badge>;
+  }
+
+  return (
+    <s-badge tone={TONES[status as ReplyStatus]}>
+      {status.replace("_", " ")}
+    </s-badge>
+  );
+}
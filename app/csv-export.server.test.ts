@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { csvValue } from "./csv-export.server";
+
+describe("csvValue", () => {
+  it("leaves plain values as they are", () => {
+    expect(csvValue("Blue shirt")).toBe("Blue shirt");
+    expect(csvValue(4)).toBe("4");
+    expect(csvValue(null)).toBe("");
+  });
+
+  it("quotes values with commas, quotes or line breaks", () => {
+    expect(csvValue("Shirt, blue")).toBe('"Shirt, blue"');
+    expect(csvValue('The "best" shirt')).toBe('"The ""best"" shirt"');
+    expect(csvValue("Two\nlines")).toBe('"Two\nlines"');
+    expect(csvValue("Two\rlines")).toBe('"Two\rlines"');
+  });
+
+  it("keeps values that look like formulas from running", () => {
+    expect(csvValue("=HYPERLINK(1)")).toBe("'=HYPERLINK(1)");
+    expect(csvValue("+1")).toBe("'+1");
+    expect(csvValue("-1")).toBe("'-1");
+    expect(csvValue("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(csvValue('=A1,"x"')).toBe('"\'=A1,""x"""');
+  });
+});
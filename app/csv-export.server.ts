@@ -0,0 +1,13 @@
+/**
+ * Formats one CSV field: quoted when it holds a comma, quote or line break,
+ * and prefixed with `'` when it starts like a formula, so spreadsheets don't
+ * run product titles or review text.
+ */
+export function csvValue(value: string | number | null) {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -5,6 +5,10 @@ declare global {
   var prismaGlobal: PrismaClient;
 }
 
+// Matches the default in scripts/prisma.mjs, so existing SQLite installs keep
+// working without DATABASE_URL set.
+process.env.DATABASE_URL ||= "file:dev.sqlite";
+
 if (process.env.NODE_ENV !== "production") {
   if (!global.prismaGlobal) {
     global.prismaGlobal = new PrismaClient();
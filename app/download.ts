@@ -0,0 +1,17 @@
+/**
+ * Downloads a file from one of the app's resource routes. A plain link would
+ * skip the session token that embedded requests carry, so it is fetched first.
+ */
+export async function downloadFile(url: string, filename: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed with ${response.status}`);
+  }
+
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
@@ -0,0 +1,45 @@
+export type SendEvent = (event: string, data: string) => void;
+
+/**
+ * Responds with server-sent events written by `run`. The stream closes once
+ * `run` settles; events sent after the client disconnects are dropped.
+ */
+export function createEventStream(run: (send: SendEvent) => Promise<void>) {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (!closed) {
+          controller.enqueue(
+            encoder.encode(
+              `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+            ),
+          );
+        }
+      };
+
+      run(send)
+        .catch((error) => console.error(error))
+        .finally(() => {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        });
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      // Keeps proxies such as nginx from holding tokens back.
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
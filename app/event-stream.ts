@@ -0,0 +1,38 @@
+/**
+ * Reads the server-sent events of a fetched response, calling `onEvent` with
+ * each event's name and data. Unlike `EventSource` this works with POST
+ * requests and the session token embedded requests carry.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void,
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+    for (const message of messages) {
+      let event = "message";
+      const data: string[] = [];
+      for (const line of message.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        }
+      }
+      if (data.length) {
+        onEvent(event, JSON.parse(data.join("\n")));
+      }
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import { unauthenticated } from "../shopify.server";
+import { autoPublishReply } from "../auto-publish.server";
+import { generateReply } from "../reply-generator.server";
+import { loadReplyContext } from "../reply-context.server";
+import { RateLimitError } from "../llm/errors";
+import { toReplyOptions } from "../llm/options";
+import {
+  claimDueJobItems,
+  completeJobItem,
+  refreshJobProgress,
+  requeueExpiredJobItems,
+  retryJobItem,
+} from "../models/generation-job.server";
+import {
+  claimDuePublications,
+  completePublication,
+  requeueExpiredPublications,
+  retryPublication,
+} from "../models/publication.server";
+import {
+  finishPublishingReply,
+  saveGeneratedReply,
+} from "../models/reply.server";
+import {
+  listUnclassifiedReviews,
+  saveReviewClassification,
+  toReviewInput,
+} from "../models/review.server";
+import { getDefaultReplyOptions } from "../models/settings.server";
+import { getPublishAdapter, PublishError } from "../publishing/index.server";
+import type { PublishPlatform } from "../publishing/platforms";
+import { classifyReview } from "../review-classifier.server";
+import { QuotaExceededError, withinQuota } from "../quota.server";
+
+declare global {
+  // eslint-disable-next-line no-var
+  var jobRunnerStarted: boolean | undefined;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_ATTEMPTS = 3;
+/**
+ * Rate limits say nothing about the item, so they get more attempts than
+ * other errors, but not unlimited ones.
+ */
+const MAX_RATE_LIMITED_ATTEMPTS = 10;
+const RETRY_BASE_DELAY_MS = 5000;
+const RATE_LIMIT_DELAY_MS = 30_000;
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 3;
+
+/** Shared by all items: once the provider rate limits us, everything waits. */
+let backoffUntil = 0;
+
+type UnclassifiedReview = Awaited<
+  ReturnType<typeof listUnclassifiedReviews>
+>[number];
+
+type ClaimedItem = Awaited<ReturnType<typeof claimDueJobItems>>[number];
+
+type ClaimedPublication = Awaited<
+  ReturnType<typeof claimDuePublications>
+>[number];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function nextRetryAt(attempts: number) {
+  return attempts < MAX_ATTEMPTS
+    ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1))
+    : null;
+}
+
+async function processItem(item: ClaimedItem) {
+  const { job, review } = item;
+
+  try {
+    const { admin, session } = await unauthenticated.admin(job.shop);
+    const draft = await withinQuota(job.shop, async () => {
+      const context = await loadReplyContext(admin, session, review);
+      const reply = await generateReply(toReviewInput(review), {
+        ...context,
+        options: toReplyOptions(
+          job,
+          getDefaultReplyOptions(context.policy, review.language),
+        ),
+      });
+
+      return saveGeneratedReply(job.shop, review.id, reply, job.createdBy);
+    });
+    await completeJobItem(item.id);
+    if (job.autoPublish && review.rating === 5) {
+      await autoPublishReply(admin, review, draft).catch((error) =>
+        console.error(
+          `Could not auto-publish the reply to ${review.id}`,
+          error,
+        ),
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof RateLimitError) {
+      backoffUntil = Date.now() + (error.retryAfterMs ?? RATE_LIMIT_DELAY_MS);
+      const attempts = item.attempts + 1;
+      await retryJobItem(
+        item.id,
+        message,
+        attempts,
+        attempts < MAX_RATE_LIMITED_ATTEMPTS ? new Date(backoffUntil) : null,
+      );
+    } else if (error instanceof QuotaExceededError) {
+      // Retrying won't help until the merchant upgrades or the month ends.
+      await retryJobItem(item.id, message, item.attempts + 1, null);
+    } else {
+      const attempts = item.attempts + 1;
+      await retryJobItem(item.id, message, attempts, nextRetryAt(attempts));
+    }
+  }
+
+  await refreshJobProgress(job.id);
+}
+
+async function publish(publication: ClaimedPublication) {
+  const { review } = publication.draft;
+
+  try {
+    const { admin } = await unauthenticated.admin(publication.shop);
+    const adapter = await getPublishAdapter(
+      publication.platform as PublishPlatform,
+      publication.shop,
+      admin,
+    );
+    const { remoteId } = await adapter.publish({
+      externalId: review.externalId,
+      productId: review.productId,
+      reviewId: review.id,
+      body: publication.body,
+    });
+    await completePublication(publication.id, remoteId);
+    await finishPublishingReply(publication.shop, publication.draftId, null);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = publication.attempts + 1;
+    const retryable = !(error instanceof PublishError) || error.retryable;
+    const retryAt = retryable ? nextRetryAt(attempts) : null;
+    await retryPublication(publication.id, message, attempts, retryAt);
+    if (!retryAt) {
+      await finishPublishingReply(
+        publication.shop,
+        publication.draftId,
+        message,
+      );
+    }
+  }
+}
+
+async function classify(review: UnclassifiedReview) {
+  try {
+    const { classification, classifiedBy } = await classifyReview(
+      review.shop,
+      toReviewInput(review),
+    );
+    await saveReviewClassification(review.id, classification, classifiedBy);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      backoffUntil = Date.now() + (error.retryAfterMs ?? RATE_LIMIT_DELAY_MS);
+    } else {
+      console.error(`Could not classify review ${review.id}`, error);
+    }
+  }
+}
+
+async function runOnce() {
+  const wait = backoffUntil - Date.now();
+  if (wait > 0) {
+    await sleep(wait);
+  }
+
+  await requeueExpiredJobItems();
+  const items = await claimDueJobItems(CONCURRENCY);
+  await Promise.all(items.map(processItem));
+
+  await requeueExpiredPublications();
+  const publications = await claimDuePublications(CONCURRENCY);
+  await Promise.all(publications.map(publish));
+
+  const reviews = await listUnclassifiedReviews(CONCURRENCY);
+  await Promise.all(reviews.map(classify));
+
+  return items.length > 0 || publications.length > 0 || reviews.length > 0;
+}
+
+async function loop() {
+  for (;;) {
+    try {
+      if (!(await runOnce())) {
+        await sleep(POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.error("Generation job runner failed", error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * Starts the in-process worker that drains generation jobs, publishes
+ * approved replies and classifies newly stored reviews. Progress lives in the database, so a restart picks up
+ * where the last process stopped.
+ */
+export function startJobRunner() {
+  if (global.jobRunnerStarted) {
+    return;
+  }
+  global.jobRunnerStarted = true;
+
+  loop();
+}
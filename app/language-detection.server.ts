@@ -0,0 +1,38 @@
+import { REPLY_LANGUAGES, type ReplyLanguage } from "./llm/options";
+
+const STOPWORDS: Record<ReplyLanguage, string> = {
+  en: "the and is it was to of this my very with but not for they",
+  de: "der die das und ist nicht ich sehr mit war ein eine auch aber für",
+  fr: "le la les et est pas je très une des mais pour avec du ce",
+  es: "el la los las es muy pero que una por con para del lo está",
+  nl: "de het een en is niet ik zeer heel met maar voor van dat erg",
+};
+
+/** Words needed before a guess is trusted; short reviews stay undetected. */
+const MIN_MATCHES = 2;
+
+/**
+ * Guesses which supported reply language a review is written in by counting
+ * common function words. Returns null when the text is too short or no
+ * language clearly wins, so callers fall back to the shop's default.
+ */
+export function detectLanguage(text: string): ReplyLanguage | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = (Object.keys(REPLY_LANGUAGES) as ReplyLanguage[])
+    .map((language) => {
+      const stopwords = new Set(STOPWORDS[language].split(" "));
+
+      return {
+        language,
+        score: words.filter((word) => stopwords.has(word)).length,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score < MIN_MATCHES || best.score === runnerUp.score) {
+    return null;
+  }
+
+  return best.language;
+}
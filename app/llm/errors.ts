@@ -0,0 +1,13 @@
+/**
+ * Thrown by providers when the upstream API rejects a request for exceeding
+ * its rate limit, so callers can back off without knowing which SDK is in use.
+ */
+export class RateLimitError extends Error {
+  constructor(
+    readonly retryAfterMs: number | null,
+    options?: ErrorOptions,
+  ) {
+    super("The model provider rate limited the request", options);
+    this.name = "RateLimitError";
+  }
+}
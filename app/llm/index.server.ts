@@ -0,0 +1,57 @@
+import { createOpenAIProvider } from "./openai.server";
+import { createStubProvider } from "./stub.server";
+import type { LLMProvider } from "./types";
+
+let provider: LLMProvider | undefined;
+
+function createProvider(): LLMProvider {
+  const name =
+    process.env.LLM_PROVIDER ||
+    (process.env.OPENAI_API_KEY ? "openai" : "stub");
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.OPENAI_API_KEY || "",
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+      });
+    case "openai-compatible":
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL is required for openai-compatible");
+      }
+
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        model: process.env.LLM_MODEL || "llama3.1",
+        baseURL: process.env.LLM_BASE_URL,
+      });
+    case "stub":
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+/**
+ * Returns the provider selected by `LLM_PROVIDER`. When it is unset, OpenAI is
+ * used if `OPENAI_API_KEY` is present and the offline stub otherwise.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider();
+  }
+
+  return provider;
+}
+
+export type {
+  ClassifyRequest,
+  ClassifyResult,
+  LLMProvider,
+  ReplyCompletion,
+  ReplyRequest,
+  TokenUsage,
+  TranslateRequest,
+} from "./types";
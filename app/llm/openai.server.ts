@@ -0,0 +1,150 @@
+import OpenAI, { RateLimitError as OpenAIRateLimitError } from "openai";
+import { normalizeClassification } from "../classification";
+import { RateLimitError } from "./errors";
+import type { ReplyLength } from "./options";
+import type {
+  ClassifyRequest,
+  LLMProvider,
+  ReplyCompletion,
+  ReplyRequest,
+  TranslateRequest,
+} from "./types";
+
+export interface OpenAIProviderConfig {
+  name: string;
+  apiKey: string;
+  model: string;
+  /** Set for OpenAI-compatible servers such as vLLM, Ollama or LM Studio. */
+  baseURL?: string;
+}
+
+const MAX_TOKENS: Record<ReplyLength, number> = {
+  short: 150,
+  medium: 300,
+  long: 600,
+};
+
+function retryAfterMs(headers: Headers | undefined) {
+  const seconds = Number(headers?.get("retry-after"));
+
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+}
+
+export function createOpenAIProvider(
+  config: OpenAIProviderConfig,
+): LLMProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+  });
+
+  function toProviderError(error: unknown) {
+    return error instanceof OpenAIRateLimitError
+      ? new RateLimitError(retryAfterMs(error.headers), { cause: error })
+      : error;
+  }
+
+  async function complete(
+    params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+    signal?: AbortSignal,
+  ) {
+    try {
+      const completion = await client.chat.completions.create(params, {
+        signal,
+      });
+
+      return {
+        text: completion.choices[0]?.message?.content?.trim() ?? "",
+        usage: completion.usage
+          ? {
+              inputTokens: completion.usage.prompt_tokens,
+              outputTokens: completion.usage.completion_tokens,
+            }
+          : null,
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async function stream(
+    params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+  ) {
+    try {
+      const chunks = await client.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        { signal },
+      );
+      let text = "";
+      let usage: ReplyCompletion["usage"] = null;
+      for await (const chunk of chunks) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+        if (chunk.usage) {
+          usage = {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          };
+        }
+      }
+
+      return { text: text.trim(), usage };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  return {
+    name: config.name,
+    async generateReply({
+      system,
+      prompt,
+      options,
+      onToken,
+      signal,
+    }: ReplyRequest) {
+      const params = {
+        model: config.model,
+        max_tokens: MAX_TOKENS[options.length],
+        messages: [
+          { role: "system" as const, content: system },
+          { role: "user" as const, content: prompt },
+        ],
+      };
+
+      return onToken
+        ? stream(params, onToken, signal)
+        : complete(params, signal);
+    },
+    async classifyReview({ system, prompt }: ClassifyRequest) {
+      const { text: content, usage } = await complete({
+        model: config.model,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+      });
+      const classification = normalizeClassification(JSON.parse(content));
+      if (!classification) {
+        throw new Error(`Unexpected classification: ${content}`);
+      }
+
+      return { classification, usage };
+    },
+    async translate({ system, text }: TranslateRequest) {
+      return complete({
+        model: config.model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: text },
+        ],
+      });
+    },
+  };
+}
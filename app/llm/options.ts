@@ -0,0 +1,82 @@
+export const REPLY_TONES = [
+  "friendly",
+  "professional",
+  "apologetic",
+  "enthusiastic",
+] as const;
+
+export const REPLY_LENGTHS = ["short", "medium", "long"] as const;
+
+export const REPLY_LANGUAGES = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  nl: "Dutch",
+} as const;
+
+export type ReplyTone = (typeof REPLY_TONES)[number];
+export type ReplyLength = (typeof REPLY_LENGTHS)[number];
+export type ReplyLanguage = keyof typeof REPLY_LANGUAGES;
+
+export interface ReplyOptions {
+  tone: ReplyTone;
+  length: ReplyLength;
+  language: ReplyLanguage;
+}
+
+export const DEFAULT_REPLY_OPTIONS: ReplyOptions = {
+  tone: "friendly",
+  length: "medium",
+  language: "en",
+};
+
+function oneOf<T extends string>(
+  allowed: readonly T[],
+  value: unknown,
+  fallback: T,
+): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/** Coerces stored or submitted values to options, falling back per field. */
+export function toReplyOptions(
+  values: { tone?: unknown; length?: unknown; language?: unknown },
+  defaults: ReplyOptions = DEFAULT_REPLY_OPTIONS,
+): ReplyOptions {
+  return {
+    tone: oneOf(REPLY_TONES, values.tone, defaults.tone),
+    length: oneOf(REPLY_LENGTHS, values.length, defaults.length),
+    language: oneOf(
+      Object.keys(REPLY_LANGUAGES) as ReplyLanguage[],
+      values.language,
+      defaults.language,
+    ),
+  };
+}
+
+export function parseReplyOptions(
+  formData: FormData,
+  defaults: ReplyOptions = DEFAULT_REPLY_OPTIONS,
+): ReplyOptions {
+  return toReplyOptions(
+    {
+      tone: formData.get("tone"),
+      length: formData.get("length"),
+      language: formData.get("language"),
+    },
+    defaults,
+  );
+}
+
+/** The variations offered side by side when a merchant asks for options. */
+export const CANDIDATE_STYLES = {
+  warm: { label: "Warm", options: { tone: "friendly" } },
+  concise: { label: "Concise", options: { length: "short" } },
+  formal: { label: "Formal", options: { tone: "professional" } },
+} as const satisfies Record<
+  string,
+  { label: string; options: Partial<ReplyOptions> }
+>;
+
+export type CandidateStyle = keyof typeof CANDIDATE_STYLES;
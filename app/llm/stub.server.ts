@@ -0,0 +1,117 @@
+import { classifyWithRules } from "../classification-rules.server";
+import type { ReplyLanguage } from "./options";
+import type {
+  ClassifyRequest,
+  LLMProvider,
+  ReplyRequest,
+  TranslateRequest,
+} from "./types";
+
+interface StubPhrases {
+  greeting: (name: string) => string;
+  thanks: (product: string) => string;
+  positive: string;
+  neutral: string;
+  negative: string;
+  closing: string;
+}
+
+const PHRASES: Record<ReplyLanguage, StubPhrases> = {
+  en: {
+    greeting: (name) => `Hi ${name},`,
+    thanks: (product) => `thank you for taking the time to review ${product}.`,
+    positive: "We're so glad it worked out for you.",
+    neutral: "We appreciate the honest feedback and will use it to improve.",
+    negative:
+      "We're sorry it didn't meet your expectations. Please contact our support team so we can make it right.",
+    closing: "Best regards",
+  },
+  de: {
+    greeting: (name) => `Hallo ${name},`,
+    thanks: (product) => `vielen Dank für Ihre Bewertung zu ${product}.`,
+    positive: "Es freut uns sehr, dass Sie zufrieden sind.",
+    neutral:
+      "Wir schätzen Ihr ehrliches Feedback und werden es zur Verbesserung nutzen.",
+    negative:
+      "Es tut uns leid, dass das Produkt Ihre Erwartungen nicht erfüllt hat. Bitte kontaktieren Sie unseren Kundenservice, damit wir eine Lösung finden können.",
+    closing: "Viele Grüße",
+  },
+  fr: {
+    greeting: (name) => `Bonjour ${name},`,
+    thanks: (product) => `merci d'avoir pris le temps d'évaluer ${product}.`,
+    positive: "Nous sommes ravis que vous soyez satisfait.",
+    neutral:
+      "Nous apprécions votre retour honnête et nous nous en servirons pour nous améliorer.",
+    negative:
+      "Nous sommes désolés que le produit n'ait pas répondu à vos attentes. Contactez notre service client afin que nous puissions trouver une solution.",
+    closing: "Bien cordialement",
+  },
+  es: {
+    greeting: (name) => `Hola ${name},`,
+    thanks: (product) => `gracias por tomarse el tiempo de valorar ${product}.`,
+    positive: "Nos alegra mucho que le haya gustado.",
+    neutral: "Agradecemos su opinión sincera y la usaremos para mejorar.",
+    negative:
+      "Lamentamos que no haya cumplido sus expectativas. Póngase en contacto con nuestro equipo de atención al cliente para que podamos solucionarlo.",
+    closing: "Saludos cordiales",
+  },
+  nl: {
+    greeting: (name) => `Hallo ${name},`,
+    thanks: (product) => `bedankt voor het beoordelen van ${product}.`,
+    positive: "Wat fijn dat u tevreden bent.",
+    neutral:
+      "We waarderen uw eerlijke feedback en gebruiken die om te verbeteren.",
+    negative:
+      "Het spijt ons dat het niet aan uw verwachtingen voldeed. Neem contact op met onze klantenservice zodat we het kunnen oplossen.",
+    closing: "Met vriendelijke groet",
+  },
+};
+
+/**
+ * Builds replies from fixed phrases and classifies reviews with keyword rules,
+ * so development and tests run without network access or API keys. The same
+ * request always produces the same result.
+ */
+export function createStubProvider(): LLMProvider {
+  return {
+    name: "stub",
+    async generateReply({ review, options, onToken, signal }: ReplyRequest) {
+      const phrases = PHRASES[options.language] ?? PHRASES.en;
+      const name = review.reviewerName.split(/\s+/)[0] || "there";
+      const product = review.productTitle || "our product";
+      const sentiment =
+        review.rating >= 4
+          ? phrases.positive
+          : review.rating === 3
+            ? phrases.neutral
+            : phrases.negative;
+
+      const sentences = [
+        `${phrases.greeting(name)} ${phrases.thanks(product)}`,
+      ];
+      if (options.length !== "short" || review.rating < 4) {
+        sentences.push(sentiment);
+      }
+      if (options.length === "long") {
+        sentences.push(`${phrases.closing}.`);
+      }
+
+      const text = sentences.join(" ");
+      if (onToken) {
+        for (const word of text.split(/(?<= )/)) {
+          signal?.throwIfAborted();
+          onToken(word);
+        }
+      }
+
+      return { text, usage: null };
+    },
+    async classifyReview({ review }: ClassifyRequest) {
+      return { classification: classifyWithRules(review), usage: null };
+    },
+    // There is no offline translation; the label shows where one would go.
+    async translate({ text, language }: TranslateRequest) {
+      return { text: `[${language}] ${text}`, usage: null };
+    },
+  };
+}
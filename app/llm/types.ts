@@ -0,0 +1,53 @@
+import type { ReviewClassification } from "../classification";
+import type { ReviewInput } from "../reply-generator.server";
+import type { ReplyOptions } from "./options";
+
+export interface ReplyRequest {
+  review: ReviewInput;
+  options: ReplyOptions;
+  /** System instructions for model-backed providers. */
+  system: string;
+  /** The rendered review and context the reply is written against. */
+  prompt: string;
+  /** Called with each piece of text as it is produced; streams when set. */
+  onToken?: (token: string) => void;
+  /** Stops the request, e.g. when the merchant cancels a streamed reply. */
+  signal?: AbortSignal;
+}
+
+export interface ClassifyRequest {
+  review: ReviewInput;
+  system: string;
+  prompt: string;
+}
+
+export interface TranslateRequest {
+  text: string;
+  /** Target language name in English, e.g. "German". */
+  language: string;
+  system: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ReplyCompletion {
+  text: string;
+  /** Null when the provider doesn't report usage, e.g. the offline stub. */
+  usage: TokenUsage | null;
+}
+
+export interface ClassifyResult {
+  classification: ReviewClassification;
+  usage: TokenUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generateReply(request: ReplyRequest): Promise<ReplyCompletion>;
+  classifyReview(request: ClassifyRequest): Promise<ClassifyResult>;
+  /** Returns the translation as `text`. */
+  translate(request: TranslateRequest): Promise<ReplyCompletion>;
+}
@@ -0,0 +1,26 @@
+import { useRouteLoaderData } from "react-router";
+import type { loader } from "./routes/app";
+
+/** The merchant's admin locale, from the online session loaded by the app layout. */
+export function useMerchantLocale() {
+  return useRouteLoaderData<typeof loader>("routes/app")?.locale ?? "en";
+}
+
+export function formatDate(value: string | Date, locale: string) {
+  return new Date(value).toLocaleDateString(locale);
+}
+
+export function formatDateTime(value: string | Date, locale: string) {
+  return new Date(value).toLocaleString(locale);
+}
+
+/** A language code such as "de" named in the merchant's language. */
+export function formatLanguage(code: string, locale: string) {
+  try {
+    return (
+      new Intl.DisplayNames([locale], { type: "language" }).of(code) ?? code
+    );
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetDb, seed } from "../test/fake-db";
+import {
+  getReviewTotals,
+  listAnalyticsRows,
+  summarizeAnalytics,
+} from "./analytics.server";
+import { finishPublishingReply, startPublishingReply } from "./reply.server";
+
+vi.mock("../db.server", () => import("../test/fake-db"));
+
+const SHOP = "test.myshopify.com";
+const FILTERS = { from: "2026-10-01", to: "2026-10-31", productId: null };
+const RECEIVED = new Date("2026-10-10T12:00:00Z");
+
+function seedReview(id: string, drafts: { status: string }[]) {
+  seed("review", [
+    { id, shop: SHOP, rating: 3, body: "Okay", createdAt: RECEIVED },
+  ]);
+  seed(
+    "replyDraft",
+    drafts.map(({ status }, i) => ({
+      id: `${id}-draft-${i}`,
+      shop: SHOP,
+      reviewId: id,
+      status,
+      body: "Thanks",
+    })),
+  );
+}
+
+async function report() {
+  const rows = await listAnalyticsRows(SHOP, FILTERS);
+
+  return {
+    rows,
+    summary: summarizeAnalytics(rows, FILTERS).totals,
+    totals: await getReviewTotals(SHOP, FILTERS),
+  };
+}
+
+describe("response rate", () => {
+  beforeEach(() => {
+    resetDb();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts a review as replied to once its reply reaches published", async () => {
+    seedReview("published", [{ status: "approved" }]);
+    seedReview("queued", [{ status: "approved" }]);
+    seedReview("unanswered", [{ status: "draft" }]);
+    await startPublishingReply(SHOP, "published-draft-0", null);
+    await finishPublishingReply(SHOP, "published-draft-0", null);
+    await startPublishingReply(SHOP, "queued-draft-0", null);
+
+    const { rows, summary, totals } = await report();
+
+    expect(rows.filter((row) => row.repliedAt).map(({ id }) => id)).toEqual([
+      "published",
+    ]);
+    expect(summary.responseRate).toBeCloseTo(1 / 3);
+    expect(totals.responseRate).toBeCloseTo(1 / 3);
+  });
+
+  it("dates the reply by when the first one was published", async () => {
+    seedReview("review-1", [{ status: "approved" }, { status: "approved" }]);
+    for (const [draftId, at] of [
+      ["review-1-draft-0", "2026-10-11T12:00:00Z"],
+      ["review-1-draft-1", "2026-10-12T12:00:00Z"],
+    ]) {
+      vi.useFakeTimers({ now: new Date(at), toFake: ["Date"] });
+      await startPublishingReply(SHOP, draftId, null);
+      await finishPublishingReply(SHOP, draftId, null);
+    }
+
+    const { rows, summary, totals } = await report();
+
+    expect(rows[0].repliedAt).toEqual(new Date("2026-10-11T12:00:00Z"));
+    expect(summary.medianHoursToReply).toBe(24);
+    expect(totals.responseRate).toBe(1);
+  });
+
+  it("doesn't count a reply the platform refused", async () => {
+    seedReview("review-1", [{ status: "approved" }]);
+    await startPublishingReply(SHOP, "review-1-draft-0", null);
+    await finishPublishingReply(SHOP, "review-1-draft-0", "404 Not Found");
+
+    const { summary, totals } = await report();
+
+    expect(summary.responseRate).toBe(0);
+    expect(totals.responseRate).toBe(0);
+  });
+});
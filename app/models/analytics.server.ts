@@ -0,0 +1,323 @@
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import {
+  FLAGS,
+  SENTIMENTS,
+  TOPICS,
+  splitList,
+  type Sentiment,
+} from "../classification";
+
+export interface AnalyticsFilters {
+  /** Inclusive start and end days, as YYYY-MM-DD in UTC. */
+  from: string;
+  to: string;
+  productId: string | null;
+}
+
+export type Granularity = "day" | "week" | "month";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 90;
+const TOP_PRODUCTS = 10;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseAnalyticsFilters(
+  params: URLSearchParams,
+): AnalyticsFilters {
+  const today = toDay(new Date());
+  const to = DATE.test(params.get("to") ?? "") ? params.get("to")! : today;
+  const from = DATE.test(params.get("from") ?? "")
+    ? params.get("from")!
+    : toDay(new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS));
+
+  return {
+    from: from <= to ? from : to,
+    to,
+    productId: params.get("product") || null,
+  };
+}
+
+/**
+ * Drafts that reached `published`. A review counts as replied to from the
+ * moment the first of them did, both in the full report and in the totals.
+ */
+const PUBLISHED = {
+  status: "published",
+  publishedAt: { not: null },
+} satisfies Prisma.ReplyDraftWhereInput;
+
+/** Reviews written (or received, for reviews without a date) in the range. */
+function rangeWhere(
+  shop: string,
+  filters: AnalyticsFilters,
+): Prisma.ReviewWhereInput {
+  const gte = new Date(`${filters.from}T00:00:00Z`);
+  const lt = new Date(Date.parse(`${filters.to}T00:00:00Z`) + DAY_MS);
+  const where: Prisma.ReviewWhereInput = {
+    shop,
+    OR: [
+      { reviewedAt: { gte, lt } },
+      { reviewedAt: null, createdAt: { gte, lt } },
+    ],
+  };
+  if (filters.productId) {
+    where.productId = filters.productId;
+  }
+
+  return where;
+}
+
+/**
+ * One row per review in the range, dated by when it was written (or received,
+ * for reviews without a date) and with the time its first reply went out.
+ */
+export async function listAnalyticsRows(
+  shop: string,
+  filters: AnalyticsFilters,
+) {
+  const where = rangeWhere(shop, filters);
+  const reviews = await db.review.findMany({
+    where,
+    select: {
+      id: true,
+      productId: true,
+      productTitle: true,
+      rating: true,
+      sentiment: true,
+      topics: true,
+      flags: true,
+      source: true,
+      reviewedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  const published = await db.replyDraft.groupBy({
+    by: ["reviewId"],
+    where: {
+      shop,
+      ...PUBLISHED,
+      reviewId: { in: reviews.map(({ id }) => id) },
+    },
+    _min: { publishedAt: true },
+  });
+  const repliedAt = new Map(
+    published.map(({ reviewId, _min }) => [reviewId, _min.publishedAt]),
+  );
+
+  return reviews.map((review) => ({
+    ...review,
+    date: review.reviewedAt ?? review.createdAt,
+    repliedAt: repliedAt.get(review.id) ?? null,
+  }));
+}
+
+export type AnalyticsRow = Awaited<
+  ReturnType<typeof listAnalyticsRows>
+>[number];
+
+function granularityFor(filters: AnalyticsFilters): Granularity {
+  const days = (Date.parse(filters.to) - Date.parse(filters.from)) / DAY_MS;
+
+  return days <= 31 ? "day" : days <= 180 ? "week" : "month";
+}
+
+/** Weeks start on Monday. */
+function bucketOf(date: Date, granularity: Granularity) {
+  if (granularity === "month") {
+    return date.toISOString().slice(0, 7);
+  }
+  if (granularity === "week") {
+    const monday = new Date(
+      date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS,
+    );
+
+    return toDay(monday);
+  }
+
+  return toDay(date);
+}
+
+function average(values: number[]) {
+  return values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+}
+
+function median(values: number[]) {
+  if (!values.length) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function emptySentiments(): Record<Sentiment, number> {
+  return { positive: 0, neutral: 0, negative: 0 };
+}
+
+function isComplaint(row: AnalyticsRow) {
+  return row.sentiment ? row.sentiment === "negative" : row.rating <= 2;
+}
+
+/**
+ * Response times run from when the app received the review to its first
+ * published reply, so reviews imported long after they were written don't
+ * count against the shop.
+ */
+export function summarizeAnalytics(
+  rows: AnalyticsRow[],
+  filters: AnalyticsFilters,
+) {
+  const granularity = granularityFor(filters);
+
+  const buckets = new Map<string, number[]>();
+  for (const row of rows) {
+    const bucket = bucketOf(row.date, granularity);
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), row.rating]);
+  }
+  const volume = [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, ratings]) => ({
+      period,
+      reviews: ratings.length,
+      averageRating: average(ratings),
+    }));
+
+  const products = new Map<
+    string,
+    {
+      key: string;
+      title: string;
+      reviews: number;
+      sentiment: Record<Sentiment, number>;
+    }
+  >();
+  const topics = Object.fromEntries(
+    Object.keys(TOPICS).map((topic) => [topic, emptySentiments()]),
+  );
+  const complaints = new Map<string, number>();
+  for (const row of rows) {
+    const key = row.productId ?? row.productTitle ?? "";
+    const product = products.get(key) ?? {
+      key,
+      title: row.productTitle || "Unknown product",
+      reviews: 0,
+      sentiment: emptySentiments(),
+    };
+    product.reviews++;
+    const sentiment = SENTIMENTS.includes(row.sentiment as Sentiment)
+      ? (row.sentiment as Sentiment)
+      : null;
+    if (sentiment) {
+      product.sentiment[sentiment]++;
+    }
+    products.set(key, product);
+
+    for (const topic of splitList(row.topics)) {
+      if (sentiment && topics[topic]) {
+        topics[topic][sentiment]++;
+      }
+    }
+    if (isComplaint(row)) {
+      for (const theme of [...splitList(row.topics), ...splitList(row.flags)]) {
+        complaints.set(theme, (complaints.get(theme) ?? 0) + 1);
+      }
+    }
+  }
+
+  const replied = rows.filter((row) => row.repliedAt);
+  const hoursToReply = replied.map(
+    (row) =>
+      Math.max(row.repliedAt!.getTime() - row.createdAt.getTime(), 0) /
+      (60 * 60 * 1000),
+  );
+
+  return {
+    granularity,
+    totals: {
+      reviews: rows.length,
+      averageRating: average(rows.map(({ rating }) => rating)),
+      responseRate: rows.length ? replied.length / rows.length : null,
+      medianHoursToReply: median(hoursToReply),
+    },
+    volume,
+    products: [...products.values()]
+      .sort((a, b) => b.reviews - a.reviews)
+      .slice(0, TOP_PRODUCTS),
+    topics: Object.entries(topics).map(([topic, sentiment]) => ({
+      topic,
+      label: TOPICS[topic as keyof typeof TOPICS],
+      sentiment,
+    })),
+    complaints: [...complaints.entries()]
+      .map(([theme, reviews]) => ({
+        theme,
+        label:
+          TOPICS[theme as keyof typeof TOPICS] ??
+          FLAGS[theme as keyof typeof FLAGS] ??
+          theme,
+        reviews,
+      }))
+      .sort((a, b) => b.reviews - a.reviews),
+  };
+}
+
+export async function getReviewAnalytics(
+  shop: string,
+  filters: AnalyticsFilters,
+) {
+  return summarizeAnalytics(await listAnalyticsRows(shop, filters), filters);
+}
+
+/**
+ * The review count, average rating and response rate for the range, counted
+ * in the database for pages that only show these.
+ */
+export async function getReviewTotals(shop: string, filters: AnalyticsFilters) {
+  const where = rangeWhere(shop, filters);
+  const [{ _count, _avg }, replied] = await Promise.all([
+    db.review.aggregate({ where, _count: true, _avg: { rating: true } }),
+    db.review.count({
+      where: {
+        ...where,
+        drafts: { some: PUBLISHED },
+      },
+    }),
+  ]);
+
+  return {
+    reviews: _count,
+    averageRating: _avg.rating,
+    responseRate: _count ? replied / _count : null,
+  };
+}
+
+/** Products that have reviews, for the product filter. */
+export async function listReviewedProducts(shop: string) {
+  const products = await db.review.groupBy({
+    by: ["productId", "productTitle"],
+    where: { shop, productId: { not: null } },
+    orderBy: { productTitle: "asc" },
+  });
+
+  // A product can appear under several titles if it was renamed.
+  const titles = new Map<string, string>();
+  for (const { productId, productTitle } of products) {
+    titles.set(
+      productId!,
+      productTitle || titles.get(productId!) || productId!,
+    );
+  }
+
+  return [...titles].map(([id, title]) => ({ id, title }));
+}
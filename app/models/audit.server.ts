@@ -0,0 +1,41 @@
+import db from "../db.server";
+
+export const AUDIT_ACTIONS = [
+  "generated",
+  "edited",
+  "submitted",
+  "approved",
+  "returned",
+  "queued",
+  "published",
+  "publish_failed",
+  "rejected",
+  "commented",
+  "overridden",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditEventInput {
+  reviewId: string;
+  draftId: string;
+  action: AuditAction;
+  actor: string | null;
+  detail?: string | null;
+}
+
+/**
+ * Appends to the reply audit log. The log is write-only by design: nothing
+ * in the app updates or deletes events, except to honour privacy erasure
+ * requests.
+ */
+export async function recordAuditEvent(shop: string, event: AuditEventInput) {
+  await db.replyAuditEvent.create({ data: { shop, ...event } });
+}
+
+export async function listAuditEvents(shop: string, reviewId: string) {
+  return db.replyAuditEvent.findMany({
+    where: { shop, reviewId },
+    orderBy: { createdAt: "desc" },
+  });
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetDb, rowsOf } from "../test/fake-db";
+import { exportCustomerData, redactCustomerData } from "./compliance.server";
+import { saveReplyExamples } from "./reply-example.server";
+import { createReview, upsertImportedReviews } from "./review.server";
+
+vi.mock("../db.server", () => import("../test/fake-db"));
+
+const SHOP = "test.myshopify.com";
+
+function review(body: string, reviewerEmail: string) {
+  return {
+    rating: 2,
+    title: "",
+    body,
+    productTitle: "Shirt",
+    productId: "",
+    reviewerName: "Sam Kim",
+    reviewerEmail,
+  };
+}
+
+function example(key: string, reviewBody: string, reviewerEmail?: string) {
+  return {
+    key,
+    reviewerEmail,
+    rating: 2,
+    reviewTitle: null,
+    reviewBody,
+    replyBody: "Sorry to hear that",
+  };
+}
+
+describe("customer data", () => {
+  beforeEach(async () => {
+    resetDb();
+    await createReview(SHOP, review("Arrived late", " Sam@Example.com"));
+    await upsertImportedReviews(SHOP, "judgeme", [
+      {
+        externalId: "1",
+        rating: 1,
+        body: "Fell apart",
+        reviewerEmail: "SAM@example.COM",
+      },
+      {
+        externalId: "2",
+        rating: 5,
+        body: "Love it",
+        reviewerEmail: "alex@example.com",
+      },
+    ]);
+  });
+
+  it("finds the customer's reviews whatever the case of their email", async () => {
+    const reviews = await exportCustomerData(SHOP, "sam@example.com");
+
+    expect(reviews.map(({ body }) => body).sort()).toEqual([
+      "Arrived late",
+      "Fell apart",
+    ]);
+  });
+
+  it("erases the customer's reviews and no one else's", async () => {
+    expect(await redactCustomerData(SHOP, "42", "Sam@example.com ")).toBe(2);
+
+    expect(rowsOf("review").map(({ body }) => body)).toEqual(["Love it"]);
+  });
+
+  it("erases examples imported without their review", async () => {
+    await saveReplyExamples(SHOP, [
+      example("file:1", "Wrong size", "sam@EXAMPLE.com"),
+      example("file:2", "Arrived late"),
+      example("file:3", "Wrong colour", "alex@example.com"),
+      example("file:4", "Too small"),
+    ]);
+
+    await redactCustomerData(SHOP, "42", "sam@example.com");
+
+    expect(rowsOf("replyExample").map(({ key }) => key)).toEqual([
+      "file:3",
+      "file:4",
+    ]);
+  });
+
+  it("erases nothing for a customer without an email", async () => {
+    await saveReplyExamples(SHOP, [example("file:1", "Too small")]);
+
+    expect(await redactCustomerData(SHOP, "42", null)).toBe(0);
+
+    expect(rowsOf("review")).toHaveLength(3);
+    expect(rowsOf("replyExample")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,251 @@
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { normalizeEmail } from "./review.server";
+
+export const COMPLIANCE_TOPICS = {
+  "customers/data_request": "Customer data request",
+  "customers/redact": "Customer data erasure",
+  "shop/redact": "Shop data erasure",
+} as const;
+
+export type ComplianceTopic = keyof typeof COMPLIANCE_TOPICS;
+
+/**
+ * Reviews are tied to customers only by the email the review platform gave,
+ * so they are matched case-insensitively on it.
+ */
+async function findCustomerReviews(shop: string, email: string | null) {
+  const normalized = normalizeEmail(email);
+  if (!normalized) {
+    return [];
+  }
+
+  return db.review.findMany({
+    where: { shop, reviewerEmailNormalized: normalized },
+    select: { id: true, body: true },
+  });
+}
+
+async function findCustomerReviewIds(shop: string, email: string | null) {
+  const reviews = await findCustomerReviews(shop, email);
+
+  return reviews.map(({ id }) => id);
+}
+
+/** Everything stored about the customer's reviews, including replies to them. */
+export async function exportCustomerData(shop: string, email: string | null) {
+  const ids = await findCustomerReviewIds(shop, email);
+  const [reviews, discounts] = await Promise.all([
+    db.review.findMany({
+      where: { id: { in: ids } },
+      orderBy: { createdAt: "asc" },
+      include: {
+        candidates: { orderBy: { createdAt: "asc" } },
+        drafts: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            revisions: { orderBy: { createdAt: "asc" } },
+            comments: { orderBy: { createdAt: "asc" } },
+            publications: { orderBy: { createdAt: "asc" } },
+          },
+        },
+      },
+    }),
+    db.serviceDiscount.findMany({ where: { shop, reviewId: { in: ids } } }),
+  ]);
+
+  return reviews.map(({ drafts, candidates, ...review }) => ({
+    source: review.source,
+    externalId: review.externalId,
+    productTitle: review.productTitle,
+    reviewerName: review.reviewerName,
+    reviewerEmail: review.reviewerEmail,
+    rating: review.rating,
+    title: review.title,
+    body: review.body,
+    language: review.language,
+    reviewedAt: review.reviewedAt,
+    receivedAt: review.createdAt,
+    discountCode:
+      discounts.find(({ reviewId }) => reviewId === review.id)?.code ?? null,
+    replies: drafts.map((draft) => ({
+      status: draft.status,
+      body: draft.body,
+      createdAt: draft.createdAt,
+      revisions: draft.revisions.map((revision) => ({
+        kind: revision.kind,
+        body: revision.body,
+        instruction: revision.instruction,
+        orderContext:
+          revision.orderContext && JSON.parse(revision.orderContext),
+        createdAt: revision.createdAt,
+      })),
+      comments: draft.comments.map(({ body, createdAt }) => ({
+        body,
+        createdAt,
+      })),
+      publications: draft.publications.map((publication) => ({
+        platform: publication.platform,
+        status: publication.status,
+        remoteId: publication.remoteId,
+        createdAt: publication.createdAt,
+      })),
+    })),
+    replyOptions: candidates.map(({ style, body, createdAt }) => ({
+      style,
+      body,
+      createdAt,
+    })),
+  }));
+}
+
+/**
+ * Data requests whose export holds the customer's data: those made for the
+ * customer's ID, and those listing a review with the customer's email.
+ */
+async function findCustomerExportIds(
+  shop: string,
+  customerId: string,
+  email: string | null,
+) {
+  const requests = await db.complianceRequest.findMany({
+    where: { shop, topic: "customers/data_request", export: { not: null } },
+    select: { id: true, customerId: true, export: true },
+  });
+  const normalized = normalizeEmail(email);
+
+  return requests
+    .filter((request) => {
+      if (request.customerId === customerId) {
+        return true;
+      }
+      const { reviews } = JSON.parse(request.export!) as {
+        reviews: { reviewerEmail: string | null }[];
+      };
+
+      return (
+        !!normalized &&
+        reviews.some(
+          ({ reviewerEmail }) => reviewerEmail?.toLowerCase() === normalized,
+        )
+      );
+    })
+    .map(({ id }) => id);
+}
+
+/**
+ * Deletes the customer's reviews with their replies, comments, publications
+ * and audit events, and the past-reply examples imported without their
+ * review: those with the customer's email, or with the text of one of the
+ * customer's reviews. Clears earlier data request exports that hold the
+ * customer's data. Returns how many reviews were deleted.
+ */
+export async function redactCustomerData(
+  shop: string,
+  customerId: string,
+  email: string | null,
+) {
+  const normalized = normalizeEmail(email);
+  const [reviews, exportIds] = await Promise.all([
+    findCustomerReviews(shop, email),
+    findCustomerExportIds(shop, customerId, email),
+  ]);
+  const ids = reviews.map(({ id }) => id);
+  const examples: Prisma.ReplyExampleWhereInput[] = [
+    { reviewBody: { in: reviews.map(({ body }) => body) } },
+  ];
+  if (normalized) {
+    examples.push({ reviewerEmailNormalized: normalized });
+  }
+
+  await db.$transaction([
+    db.replyAuditEvent.deleteMany({ where: { shop, reviewId: { in: ids } } }),
+    db.serviceDiscount.deleteMany({ where: { shop, reviewId: { in: ids } } }),
+    db.review.deleteMany({ where: { shop, id: { in: ids } } }),
+    db.replyExample.deleteMany({
+      where: { shop, reviewId: null, OR: examples },
+    }),
+    db.complianceRequest.updateMany({
+      where: { shop, id: { in: exportIds } },
+      data: { export: null },
+    }),
+  ]);
+
+  return ids.length;
+}
+
+/**
+ * Deletes everything the app stores for a shop. Only the compliance log
+ * remains, without the customer exports it held.
+ */
+export async function purgeShopData(shop: string) {
+  const reviews = await db.review.count({ where: { shop } });
+
+  await db.$transaction([
+    // Drafts, job items and their children go with their reviews and jobs.
+    db.review.deleteMany({ where: { shop } }),
+    db.generationJob.deleteMany({ where: { shop } }),
+    db.replyAuditEvent.deleteMany({ where: { shop } }),
+    db.replyTemplate.deleteMany({ where: { shop } }),
+    db.replyExample.deleteMany({ where: { shop } }),
+    db.serviceDiscount.deleteMany({ where: { shop } }),
+    db.productSnapshot.deleteMany({ where: { shop } }),
+    db.publishingConnection.deleteMany({ where: { shop } }),
+    db.reviewWebhookSecret.deleteMany({ where: { shop } }),
+    db.reviewWebhookDelivery.deleteMany({ where: { shop } }),
+    db.shopSettings.deleteMany({ where: { shop } }),
+    db.shopPlan.deleteMany({ where: { shop } }),
+    db.shopUsage.deleteMany({ where: { shop } }),
+    db.session.deleteMany({ where: { shop } }),
+    db.complianceRequest.updateMany({
+      where: { shop, export: { not: null } },
+      data: { export: null },
+    }),
+  ]);
+
+  return reviews;
+}
+
+export async function recordComplianceRequest(
+  shop: string,
+  topic: ComplianceTopic,
+  request: {
+    customerId?: string | null;
+    reviews: number;
+    export?: string | null;
+  },
+) {
+  return db.complianceRequest.create({ data: { shop, topic, ...request } });
+}
+
+/** Recent requests, with whether an export can still be downloaded. */
+export async function listComplianceRequests(shop: string, limit = 20) {
+  const requests = await db.complianceRequest.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: {
+      id: true,
+      topic: true,
+      reviews: true,
+      createdAt: true,
+    },
+  });
+  const exported = await db.complianceRequest.findMany({
+    where: { id: { in: requests.map(({ id }) => id) }, export: { not: null } },
+    select: { id: true },
+  });
+
+  return requests.map((request) => ({
+    ...request,
+    hasExport: exported.some(({ id }) => id === request.id),
+  }));
+}
+
+export async function getComplianceExport(shop: string, id: string) {
+  const request = await db.complianceRequest.findFirst({
+    where: { id, shop, topic: "customers/data_request" },
+  });
+
+  return request?.export ?? null;
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetDb, rowsOf, seed } from "../test/fake-db";
+import {
+  cancelGenerationJob,
+  claimDueJobItems,
+  completeJobItem,
+  JOB_ITEM_LEASE_MS,
+  refreshJobProgress,
+  requeueExpiredJobItems,
+  resumeGenerationJob,
+} from "./generation-job.server";
+
+vi.mock("../db.server", () => import("../test/fake-db"));
+
+const SHOP = "test.myshopify.com";
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function seedJob(
+  status: string,
+  items: { status?: string; nextAttemptAt?: Date; attempts?: number }[],
+) {
+  seed("generationJob", [
+    {
+      id: "job-1",
+      shop: SHOP,
+      status,
+      tone: "friendly",
+      length: "short",
+      language: "",
+      total: items.length,
+    },
+  ]);
+  seed(
+    "review",
+    items.map((_, i) => ({
+      id: `review-${i}`,
+      shop: SHOP,
+      rating: 4,
+      body: "Fine",
+    })),
+  );
+  seed(
+    "generationJobItem",
+    items.map((item, i) => ({
+      id: `item-${i}`,
+      jobId: "job-1",
+      reviewId: `review-${i}`,
+      ...item,
+    })),
+  );
+}
+
+function job() {
+  return rowsOf("generationJob")[0];
+}
+
+beforeEach(() => {
+  resetDb();
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("claimDueJobItems", () => {
+  it("hands each due item to one worker, with a lease", async () => {
+    seedJob("running", [
+      {},
+      {},
+      { nextAttemptAt: new Date(NOW.getTime() + 60_000) },
+    ]);
+
+    const [first, second] = await Promise.all([
+      claimDueJobItems(5),
+      claimDueJobItems(5),
+    ]);
+
+    expect([...first, ...second].map(({ id }) => id).sort()).toEqual([
+      "item-0",
+      "item-1",
+    ]);
+    expect(rowsOf("generationJobItem")).toMatchObject([
+      {
+        status: "running",
+        nextAttemptAt: new Date(NOW.getTime() + JOB_ITEM_LEASE_MS),
+      },
+      { status: "running" },
+      { status: "pending" },
+    ]);
+  });
+
+  it("skips the items of cancelled jobs", async () => {
+    seedJob("cancelled", [{}]);
+
+    expect(await claimDueJobItems(5)).toEqual([]);
+  });
+});
+
+describe("refreshJobProgress", () => {
+  it("counts finished items and completes the job once none are left", async () => {
+    seedJob("running", [{ status: "done" }, { status: "failed" }]);
+
+    await refreshJobProgress("job-1");
+
+    expect(job()).toMatchObject({
+      status: "completed",
+      completed: 1,
+      failed: 1,
+    });
+  });
+
+  it("keeps the job running while items are left", async () => {
+    seedJob("running", [{ status: "done" }, { status: "running" }]);
+
+    await refreshJobProgress("job-1");
+
+    expect(job()).toMatchObject({ status: "running", completed: 1 });
+  });
+
+  it("leaves a job cancelled while its last item finished", async () => {
+    seedJob("running", [{ status: "running" }]);
+    await cancelGenerationJob(SHOP, "job-1");
+    await completeJobItem("item-0");
+
+    await refreshJobProgress("job-1");
+
+    expect(job()).toMatchObject({ status: "cancelled", completed: 1 });
+  });
+});
+
+describe("resumeGenerationJob", () => {
+  it("gives failed items a fresh set of attempts", async () => {
+    seedJob("completed", [
+      { status: "failed", attempts: 3 },
+      { status: "done" },
+    ]);
+
+    await resumeGenerationJob(SHOP, "job-1");
+
+    expect(job().status).toBe("running");
+    expect(rowsOf("generationJobItem")[0]).toMatchObject({
+      status: "pending",
+      attempts: 0,
+    });
+  });
+});
+
+describe("requeueExpiredJobItems", () => {
+  it("returns items whose lease ran out to the queue", async () => {
+    seedJob("running", [
+      { status: "running", nextAttemptAt: new Date(NOW.getTime() - 1000) },
+      { status: "running", nextAttemptAt: new Date(NOW.getTime() + 1000) },
+    ]);
+
+    await requeueExpiredJobItems();
+
+    expect(rowsOf("generationJobItem").map(({ status }) => status)).toEqual([
+      "pending",
+      "running",
+    ]);
+  });
+});
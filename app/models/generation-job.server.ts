@@ -0,0 +1,207 @@
+import db from "../db.server";
+import type { ReplyOptions } from "../llm/options";
+
+export const JOB_STATUSES = ["running", "cancelled", "completed"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * How long a claimed item is held. While an item is running its
+ * `nextAttemptAt` is when the claim expires; an item still running after that
+ * was left by a worker that stopped, and goes back on the queue.
+ */
+export const JOB_ITEM_LEASE_MS = 10 * 60 * 1000;
+
+/** A null language means each reply follows its review's language. */
+export type JobReplyOptions = Omit<ReplyOptions, "language"> & {
+  language: ReplyOptions["language"] | null;
+};
+
+export async function createGenerationJob(
+  shop: string,
+  reviewIds: string[],
+  options: JobReplyOptions,
+  createdBy: string | null,
+  autoPublish = false,
+) {
+  const reviews = await db.review.findMany({
+    where: { shop, id: { in: reviewIds } },
+    select: { id: true },
+  });
+
+  return db.generationJob.create({
+    data: {
+      shop,
+      ...options,
+      language: options.language ?? "",
+      status: reviews.length ? "running" : "completed",
+      total: reviews.length,
+      createdBy,
+      autoPublish,
+      items: { create: reviews.map(({ id }) => ({ reviewId: id })) },
+    },
+  });
+}
+
+export async function listGenerationJobs(shop: string) {
+  return db.generationJob.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+}
+
+export async function getGenerationJob(shop: string, id: string) {
+  return db.generationJob.findFirst({
+    where: { id, shop },
+    include: {
+      items: {
+        where: { status: "failed" },
+        include: {
+          review: { select: { id: true, reviewerName: true, rating: true } },
+        },
+      },
+    },
+  });
+}
+
+export async function cancelGenerationJob(shop: string, id: string) {
+  await db.generationJob.updateMany({
+    where: { id, shop, status: "running" },
+    data: { status: "cancelled" },
+  });
+}
+
+/**
+ * Puts a cancelled or finished job back on the queue. Items that ran out of
+ * attempts get a fresh set, so resuming also retries failures.
+ */
+export async function resumeGenerationJob(shop: string, id: string) {
+  const job = await db.generationJob.findFirst({ where: { id, shop } });
+  if (!job) {
+    return;
+  }
+
+  await db.generationJobItem.updateMany({
+    where: { jobId: id, status: "failed" },
+    data: {
+      status: "pending",
+      attempts: 0,
+      error: null,
+      nextAttemptAt: new Date(),
+    },
+  });
+  await db.generationJob.update({
+    where: { id },
+    data: { status: "running" },
+  });
+  await refreshJobProgress(id);
+}
+
+/**
+ * Claims up to `limit` due items of running jobs and returns them. Each item
+ * is moved from pending to running on its own, so an item another worker
+ * claimed first is left out. Items are taken oldest-due first so jobs are
+ * worked through in order.
+ */
+export async function claimDueJobItems(limit: number) {
+  const now = new Date();
+  const due = await db.generationJobItem.findMany({
+    where: {
+      status: "pending",
+      nextAttemptAt: { lte: now },
+      job: { status: "running" },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const claimed: string[] = [];
+  for (const { id } of due) {
+    const { count } = await db.generationJobItem.updateMany({
+      where: { id, status: "pending", nextAttemptAt: { lte: now } },
+      data: {
+        status: "running",
+        nextAttemptAt: new Date(now.getTime() + JOB_ITEM_LEASE_MS),
+      },
+    });
+    if (count === 1) {
+      claimed.push(id);
+    }
+  }
+
+  return db.generationJobItem.findMany({
+    where: { id: { in: claimed } },
+    include: { job: true, review: true },
+  });
+}
+
+export async function completeJobItem(id: string) {
+  await db.generationJobItem.update({
+    where: { id },
+    data: { status: "done", error: null },
+  });
+}
+
+/** Schedules another attempt, or fails the item when `retryAt` is null. */
+export async function retryJobItem(
+  id: string,
+  error: string,
+  attempts: number,
+  retryAt: Date | null,
+) {
+  await db.generationJobItem.update({
+    where: { id },
+    data: retryAt
+      ? { status: "pending", error, attempts, nextAttemptAt: retryAt }
+      : { status: "failed", error, attempts },
+  });
+}
+
+/**
+ * Counts the job's finished items, and completes the job once none are left.
+ * A job that was cancelled in the meantime stays cancelled.
+ */
+export async function refreshJobProgress(jobId: string) {
+  const counts = await db.generationJobItem.groupBy({
+    by: ["status"],
+    where: { jobId },
+    _count: true,
+  });
+  const count = (status: string) =>
+    counts.find((group) => group.status === status)?._count ?? 0;
+  const remaining = count("pending") + count("running");
+
+  await db.generationJob.update({
+    where: { id: jobId },
+    data: { completed: count("done"), failed: count("failed") },
+  });
+  if (remaining === 0) {
+    await db.generationJob.updateMany({
+      where: { id: jobId, status: "running" },
+      data: { status: "completed" },
+    });
+  }
+}
+
+/** Whether a running job still has to generate a reply for the review. */
+export async function isReviewQueued(reviewId: string) {
+  const count = await db.generationJobItem.count({
+    where: {
+      reviewId,
+      status: { in: ["pending", "running"] },
+      job: { status: "running" },
+    },
+  });
+
+  return count > 0;
+}
+
+/** Returns items whose claim expired, left by a worker that stopped, to the queue. */
+export async function requeueExpiredJobItems() {
+  await db.generationJobItem.updateMany({
+    where: { status: "running", nextAttemptAt: { lt: new Date() } },
+    data: { status: "pending" },
+  });
+}
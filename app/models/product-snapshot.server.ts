@@ -0,0 +1,31 @@
+import db from "../db.server";
+
+export async function getProductSnapshot(
+  shop: string,
+  productId: string,
+  maxAgeMs: number,
+) {
+  return db.productSnapshot.findFirst({
+    where: {
+      shop,
+      productId,
+      fetchedAt: { gte: new Date(Date.now() - maxAgeMs) },
+    },
+  });
+}
+
+export async function saveProductSnapshot(
+  shop: string,
+  productId: string,
+  data: string,
+) {
+  await db.productSnapshot.upsert({
+    where: { shop_productId: { shop, productId } },
+    create: { shop, productId, data },
+    update: { data, fetchedAt: new Date() },
+  });
+}
+
+export async function deleteProductSnapshot(shop: string, productId: string) {
+  await db.productSnapshot.deleteMany({ where: { shop, productId } });
+}
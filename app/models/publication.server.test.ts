@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetDb, rowsOf, seed } from "../test/fake-db";
+import {
+  claimDuePublications,
+  PUBLICATION_LEASE_MS,
+  requeueExpiredPublications,
+  resumePublication,
+} from "./publication.server";
+
+vi.mock("../db.server", () => import("../test/fake-db"));
+
+const SHOP = "test.myshopify.com";
+const NOW = new Date("2026-10-19T12:00:00Z");
+const LATER = new Date(NOW.getTime() + 60_000);
+
+function seedDraft(status: string) {
+  seed("review", [{ id: "review-1", shop: SHOP, rating: 2, body: "Late" }]);
+  seed("replyDraft", [
+    { id: "draft-1", shop: SHOP, reviewId: "review-1", status, body: "Sorry" },
+  ]);
+}
+
+describe("claimDuePublications", () => {
+  beforeEach(() => {
+    resetDb();
+    vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+    seedDraft("publishing");
+    seed("replyPublication", [
+      { id: "a", shop: SHOP, draftId: "draft-1", platform: "yotpo", body: "1" },
+      { id: "b", shop: SHOP, draftId: "draft-1", platform: "yotpo", body: "2" },
+      {
+        id: "later",
+        shop: SHOP,
+        draftId: "draft-1",
+        platform: "yotpo",
+        body: "3",
+        nextAttemptAt: LATER,
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("hands each due publication to one worker, with a lease", async () => {
+    const [first, second] = await Promise.all([
+      claimDuePublications(5),
+      claimDuePublications(5),
+    ]);
+
+    const claimed = [...first, ...second].map(({ id }) => id).sort();
+    expect(claimed).toEqual(["a", "b"]);
+    expect(first[0]?.draft.review.id ?? second[0]?.draft.review.id).toBe(
+      "review-1",
+    );
+    const rows = rowsOf("replyPublication");
+    expect(rows.find(({ id }) => id === "a")).toMatchObject({
+      status: "running",
+      nextAttemptAt: new Date(NOW.getTime() + PUBLICATION_LEASE_MS),
+    });
+    expect(rows.find(({ id }) => id === "later")).toMatchObject({
+      status: "pending",
+    });
+  });
+
+  it("claims no more than the limit", async () => {
+    expect(await claimDuePublications(1)).toHaveLength(1);
+  });
+});
+
+describe("requeueExpiredPublications", () => {
+  beforeEach(() => {
+    resetDb();
+    seedDraft("publishing");
+  });
+
+  it("returns publications whose lease ran out to the queue", async () => {
+    seed("replyPublication", [
+      {
+        id: "expired",
+        shop: SHOP,
+        draftId: "draft-1",
+        platform: "yotpo",
+        body: "1",
+        status: "running",
+        nextAttemptAt: new Date(Date.now() - 1000),
+      },
+      {
+        id: "leased",
+        shop: SHOP,
+        draftId: "draft-1",
+        platform: "yotpo",
+        body: "2",
+        status: "running",
+        nextAttemptAt: new Date(Date.now() + PUBLICATION_LEASE_MS),
+      },
+    ]);
+
+    await requeueExpiredPublications();
+
+    expect(
+      rowsOf("replyPublication").map(({ id, status }) => [id, status]),
+    ).toEqual([
+      ["expired", "pending"],
+      ["leased", "running"],
+    ]);
+  });
+});
+
+describe("resumePublication", () => {
+  beforeEach(() => {
+    resetDb();
+  });
+
+  it("queues a failed publication again with the draft's current text", async () => {
+    seedDraft("approved");
+    seed("replyPublication", [
+      {
+        id: "a",
+        shop: SHOP,
+        draftId: "draft-1",
+        platform: "yotpo",
+        body: "Old text",
+        status: "failed",
+        attempts: 5,
+      },
+    ]);
+
+    expect(await resumePublication(SHOP, "a", "staff@example.com")).toBe(true);
+
+    expect(rowsOf("replyPublication")[0]).toMatchObject({
+      status: "pending",
+      body: "Sorry",
+      attempts: 0,
+    });
+    expect(rowsOf("replyDraft")[0].status).toBe("publishing");
+    expect(rowsOf("replyAuditEvent")).toMatchObject([
+      { action: "queued", actor: "staff@example.com" },
+    ]);
+  });
+
+  it("leaves the publication failed unless the draft is approved", async () => {
+    seedDraft("draft");
+    seed("replyPublication", [
+      {
+        id: "a",
+        shop: SHOP,
+        draftId: "draft-1",
+        platform: "yotpo",
+        body: "Old text",
+        status: "failed",
+      },
+    ]);
+
+    expect(await resumePublication(SHOP, "a", null)).toBe(false);
+    expect(rowsOf("replyPublication")[0].status).toBe("failed");
+  });
+});
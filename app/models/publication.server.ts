@@ -0,0 +1,140 @@
+import db from "../db.server";
+import type { PublishPlatform } from "../publishing/platforms";
+import { startPublishingReply } from "./reply.server";
+
+export const PUBLICATION_STATUSES = [
+  "pending",
+  "running",
+  "published",
+  "failed",
+] as const;
+
+export type PublicationStatus = (typeof PUBLICATION_STATUSES)[number];
+
+/**
+ * How long a claimed publication is held. While it is running its
+ * `nextAttemptAt` is when the claim expires, as for generation job items.
+ */
+export const PUBLICATION_LEASE_MS = 5 * 60 * 1000;
+
+/** Queues the reply text for the background runner to send to `platform`. */
+export async function createPublication(
+  shop: string,
+  draftId: string,
+  platform: PublishPlatform,
+  body: string,
+) {
+  return db.replyPublication.create({
+    data: { shop, draftId, platform, body },
+  });
+}
+
+export async function listPublications(shop: string, draftId: string) {
+  return db.replyPublication.findMany({
+    where: { shop, draftId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Claims up to `limit` due publications and returns them. Each one is moved
+ * from pending to running on its own, so a reply another worker claimed first
+ * is not sent twice.
+ */
+export async function claimDuePublications(limit: number) {
+  const now = new Date();
+  const due = await db.replyPublication.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const claimed: string[] = [];
+  for (const { id } of due) {
+    const { count } = await db.replyPublication.updateMany({
+      where: { id, status: "pending", nextAttemptAt: { lte: now } },
+      data: {
+        status: "running",
+        nextAttemptAt: new Date(now.getTime() + PUBLICATION_LEASE_MS),
+      },
+    });
+    if (count === 1) {
+      claimed.push(id);
+    }
+  }
+
+  return db.replyPublication.findMany({
+    where: { id: { in: claimed } },
+    include: { draft: { include: { review: true } } },
+  });
+}
+
+export async function completePublication(id: string, remoteId: string) {
+  await db.replyPublication.update({
+    where: { id },
+    data: {
+      status: "published",
+      remoteId,
+      error: null,
+      publishedAt: new Date(),
+    },
+  });
+}
+
+/** Schedules another attempt, or fails the publication when `retryAt` is null. */
+export async function retryPublication(
+  id: string,
+  error: string,
+  attempts: number,
+  retryAt: Date | null,
+) {
+  await db.replyPublication.update({
+    where: { id },
+    data: retryAt
+      ? { status: "pending", error, attempts, nextAttemptAt: retryAt }
+      : { status: "failed", error, attempts },
+  });
+}
+
+/**
+ * Gives a failed publication a fresh set of attempts with the draft's current
+ * text. Only possible while the draft is approved, as it is again after a
+ * publication fails.
+ */
+export async function resumePublication(
+  shop: string,
+  id: string,
+  actor: string | null,
+) {
+  const publication = await db.replyPublication.findFirst({
+    where: { id, shop, status: "failed" },
+    include: { draft: true },
+  });
+  if (
+    !publication ||
+    !(await startPublishingReply(shop, publication.draftId, actor))
+  ) {
+    return false;
+  }
+
+  await db.replyPublication.update({
+    where: { id },
+    data: {
+      status: "pending",
+      body: publication.draft.body,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    },
+  });
+
+  return true;
+}
+
+/** Returns publications whose claim expired, left by a worker that stopped, to the queue. */
+export async function requeueExpiredPublications() {
+  await db.replyPublication.updateMany({
+    where: { status: "running", nextAttemptAt: { lt: new Date() } },
+    data: { status: "pending" },
+  });
+}
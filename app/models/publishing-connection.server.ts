@@ -0,0 +1,41 @@
+import db from "../db.server";
+import type { ConnectedPlatform } from "../publishing/platforms";
+
+export async function getPublishingConnection(
+  shop: string,
+  platform: ConnectedPlatform,
+) {
+  return db.publishingConnection.findUnique({
+    where: { shop_platform: { shop, platform } },
+  });
+}
+
+/** Which platforms are connected, without exposing their credentials. */
+export async function listConnectedPlatforms(shop: string) {
+  const connections = await db.publishingConnection.findMany({
+    where: { shop },
+    select: { platform: true },
+  });
+
+  return connections.map(({ platform }) => platform);
+}
+
+export async function savePublishingConnection(
+  shop: string,
+  platform: ConnectedPlatform,
+  apiKey: string,
+  apiSecret: string,
+) {
+  await db.publishingConnection.upsert({
+    where: { shop_platform: { shop, platform } },
+    create: { shop, platform, apiKey, apiSecret },
+    update: { apiKey, apiSecret },
+  });
+}
+
+export async function deletePublishingConnection(
+  shop: string,
+  platform: ConnectedPlatform,
+) {
+  await db.publishingConnection.deleteMany({ where: { shop, platform } });
+}
@@ -0,0 +1,152 @@
+import { randomUUID } from "crypto";
+import db from "../db.server";
+import {
+  CANDIDATE_STYLES,
+  toReplyOptions,
+  type CandidateStyle,
+} from "../llm/options";
+import type { TokenUsage } from "../llm/index.server";
+import type { OrderContext } from "../order-context.server";
+import type { GeneratedReply } from "../reply-generator.server";
+import type { AnalyticsFilters } from "./analytics.server";
+import { saveChosenReply } from "./reply.server";
+import { recordTokenUsage } from "./usage.server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STYLE_ORDER = Object.keys(CANDIDATE_STYLES);
+
+function sumUsage(usages: (TokenUsage | null)[]): TokenUsage | null {
+  const reported = usages.filter((usage) => usage !== null);
+  if (!reported.length) {
+    return null;
+  }
+
+  return {
+    inputTokens: reported.reduce((sum, usage) => sum + usage.inputTokens, 0),
+    outputTokens: reported.reduce((sum, usage) => sum + usage.outputTokens, 0),
+  };
+}
+
+/**
+ * Stores a set of candidates for the review. Only one of them can be used,
+ * so the set counts as a single reply, with the tokens of all of them.
+ */
+export async function saveReplyCandidates(
+  shop: string,
+  reviewId: string,
+  candidates: { style: CandidateStyle; reply: GeneratedReply }[],
+) {
+  const batchId = randomUUID();
+  await db.replyCandidate.createMany({
+    data: candidates.map(({ style, reply }) => ({
+      shop,
+      reviewId,
+      batchId,
+      style,
+      tone: reply.options.tone,
+      length: reply.options.length,
+      language: reply.options.language,
+      instruction: reply.instruction,
+      body: reply.body,
+      provider: reply.provider,
+      orderContext: reply.order && JSON.stringify(reply.order),
+    })),
+  });
+  await recordTokenUsage(
+    shop,
+    sumUsage(candidates.map(({ reply }) => reply.usage)),
+  );
+
+  return batchId;
+}
+
+/** The most recent set of candidates for the review, in style order. */
+export async function listLatestCandidates(shop: string, reviewId: string) {
+  const latest = await db.replyCandidate.findFirst({
+    where: { shop, reviewId },
+    orderBy: { createdAt: "desc" },
+    select: { batchId: true },
+  });
+  if (!latest) {
+    return [];
+  }
+
+  const candidates = await db.replyCandidate.findMany({
+    where: { shop, batchId: latest.batchId },
+  });
+
+  return candidates.sort(
+    (a, b) => STYLE_ORDER.indexOf(a.style) - STYLE_ORDER.indexOf(b.style),
+  );
+}
+
+/**
+ * Makes the candidate the review's reply, as a generated revision of its open
+ * draft, and marks it as chosen. Returns null when the candidate is unknown.
+ */
+export async function chooseReplyCandidate(
+  shop: string,
+  candidateId: string,
+  chosenBy: string | null,
+) {
+  const candidate = await db.replyCandidate.findFirst({
+    where: { id: candidateId, shop },
+  });
+  if (!candidate) {
+    return null;
+  }
+
+  await db.replyCandidate.update({
+    where: { id: candidate.id },
+    data: { chosenAt: new Date(), chosenBy },
+  });
+
+  return saveChosenReply(
+    shop,
+    candidate.reviewId,
+    {
+      body: candidate.body,
+      provider: candidate.provider,
+      options: toReplyOptions(candidate),
+      order: candidate.orderContext
+        ? (JSON.parse(candidate.orderContext) as OrderContext)
+        : null,
+      template: null,
+      instruction: candidate.instruction,
+      usage: null,
+    },
+    chosenBy,
+  );
+}
+
+/** How often each style was offered and chosen in the analytics range. */
+export async function getCandidateStats(
+  shop: string,
+  filters: AnalyticsFilters,
+) {
+  const groups = await db.replyCandidate.groupBy({
+    by: ["style"],
+    where: {
+      shop,
+      createdAt: {
+        gte: new Date(`${filters.from}T00:00:00Z`),
+        lt: new Date(Date.parse(`${filters.to}T00:00:00Z`) + DAY_MS),
+      },
+      ...(filters.productId && {
+        review: { productId: filters.productId },
+      }),
+    },
+    _count: { _all: true, chosenAt: true },
+  });
+
+  return (Object.keys(CANDIDATE_STYLES) as CandidateStyle[]).map((style) => {
+    const group = groups.find((entry) => entry.style === style);
+
+    return {
+      style,
+      label: CANDIDATE_STYLES[style].label,
+      offered: group?._count._all ?? 0,
+      chosen: group?._count.chosenAt ?? 0,
+    };
+  });
+}
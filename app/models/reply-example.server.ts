@@ -0,0 +1,73 @@
+import db from "../db.server";
+import { tokenize, type ExampleCandidate } from "../reply-examples.server";
+import { normalizeEmail } from "./review.server";
+
+/** Most recent examples searched for each reply, to bound the work per reply. */
+const SEARCH_LIMIT = 2000;
+
+export interface ReplyExampleInput {
+  /** Identifies the pair so importing it again updates it. */
+  key: string;
+  reviewId?: string | null;
+  /** Lets the example be erased with the reviewer's data. */
+  reviewerEmail?: string | null;
+  rating: number | null;
+  reviewTitle: string | null;
+  reviewBody: string;
+  replyBody: string;
+}
+
+/** Stores past review and reply pairs, replacing earlier copies with the same key. */
+export async function saveReplyExamples(
+  shop: string,
+  examples: ReplyExampleInput[],
+) {
+  for (const { key, reviewerEmail, ...example } of examples) {
+    const data = {
+      ...example,
+      reviewerEmailNormalized: normalizeEmail(reviewerEmail),
+      terms: tokenize(`${example.reviewTitle ?? ""} ${example.reviewBody}`),
+    };
+    await db.replyExample.upsert({
+      where: { shop_key: { shop, key } },
+      create: { shop, key, ...data },
+      update: data,
+    });
+  }
+}
+
+export async function listExampleCandidates(
+  shop: string,
+): Promise<ExampleCandidate[]> {
+  const examples = await db.replyExample.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: SEARCH_LIMIT,
+    select: {
+      rating: true,
+      reviewTitle: true,
+      reviewBody: true,
+      replyBody: true,
+      terms: true,
+    },
+  });
+
+  return examples.map((example) => ({
+    rating: example.rating,
+    review: [example.reviewTitle, example.reviewBody]
+      .filter(Boolean)
+      .join("\n"),
+    reply: example.replyBody,
+    terms: example.terms,
+  }));
+}
+
+export async function countReplyExamples(shop: string) {
+  return db.replyExample.count({ where: { shop } });
+}
+
+export async function deleteReplyExamples(shop: string) {
+  const { count } = await db.replyExample.deleteMany({ where: { shop } });
+
+  return count;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseReplyTemplate } from "./reply-template.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+function form(...variants: string[]) {
+  const data = new FormData();
+  data.set("name", "Thanks");
+  data.set("mode", "fixed");
+  data.set("minRating", "4");
+  data.set("maxRating", "5");
+  for (const body of variants) {
+    data.append("variantId", "");
+    data.append("variantBody", body);
+  }
+
+  return data;
+}
+
+describe("parseReplyTemplate", () => {
+  it("accepts the template variables", () => {
+    const { template, errors } = parseReplyTemplate(
+      form("Thanks {{ customer_first_name }}, enjoy {{product_title}}!"),
+    );
+
+    expect(errors).toEqual({});
+    expect(template.variants).toHaveLength(1);
+  });
+
+  it("rejects variables that don't exist", () => {
+    const { errors } = parseReplyTemplate(
+      form("Thanks {{ reviewr_name }}!", "Hi {{name}} and {{ reviewr_name }}"),
+    );
+
+    expect(errors.variants).toBe(
+      "Unknown variables {{reviewr_name}}, {{name}}. Use only the variables listed above.",
+    );
+  });
+
+  it("rejects names inherited from Object.prototype", () => {
+    const { errors } = parseReplyTemplate(form("Hi {{constructor}}"));
+
+    expect(errors.variants).toMatch(/^Unknown variable \{\{constructor\}\}/);
+  });
+});
@@ -0,0 +1,236 @@
+import db from "../db.server";
+import { TOPICS } from "../classification";
+import { REPLY_LANGUAGES } from "../llm/options";
+import { isTemplateMode, type TemplateMode } from "../reply-templates";
+import { findUnknownVariables } from "../reply-templates.server";
+
+export interface ReplyTemplateInput {
+  name: string;
+  mode: TemplateMode;
+  minRating: number;
+  maxRating: number;
+  topic: string | null;
+  productTag: string | null;
+  language: string | null;
+  active: boolean;
+  /** Existing variants keep their id; new ones have none. */
+  variants: { id: string | null; body: string }[];
+}
+
+export interface ReplyTemplateErrors {
+  name?: string;
+  rating?: string;
+  variants?: string;
+}
+
+/** How each variant's replies have fared, for comparing variants. */
+export interface VariantStats {
+  used: number;
+  published: number;
+  /** Published as generated, without the merchant editing the text. */
+  publishedUnedited: number;
+}
+
+export async function listReplyTemplates(shop: string) {
+  return db.replyTemplate.findMany({
+    where: { shop },
+    include: { _count: { select: { variants: true } } },
+    orderBy: { name: "asc" },
+  });
+}
+
+/** The templates considered when generating a reply. */
+export async function listActiveTemplates(shop: string) {
+  return db.replyTemplate.findMany({
+    where: { shop, active: true },
+    include: { variants: { orderBy: { label: "asc" } } },
+    orderBy: { updatedAt: "desc" },
+  });
+}
+
+export async function getReplyTemplate(shop: string, id: string) {
+  return db.replyTemplate.findFirst({
+    where: { id, shop },
+    include: { variants: { orderBy: { label: "asc" } } },
+  });
+}
+
+/** Labels variants A, B, C… in the order they were added. */
+function nextLabel(used: Set<string>) {
+  for (let code = 65; ; code++) {
+    const label = code <= 90 ? String.fromCharCode(code) : `V${code - 64}`;
+    if (!used.has(label)) {
+      used.add(label);
+
+      return label;
+    }
+  }
+}
+
+/**
+ * Creates or updates a template and its variants. Variants left out of
+ * `input` are deleted; their drafts keep the text but lose the link.
+ */
+export async function saveReplyTemplate(
+  shop: string,
+  id: string | null,
+  input: ReplyTemplateInput,
+) {
+  const { variants, ...fields } = input;
+  const existing = id ? await getReplyTemplate(shop, id) : null;
+  if (id && !existing) {
+    return null;
+  }
+
+  return db.$transaction(async (tx) => {
+    const template = existing
+      ? await tx.replyTemplate.update({
+          where: { id: existing.id },
+          data: fields,
+        })
+      : await tx.replyTemplate.create({ data: { shop, ...fields } });
+
+    const kept = new Map(
+      (existing?.variants ?? []).map((variant) => [variant.id, variant]),
+    );
+    const keptIds = variants.flatMap(({ id: variantId }) =>
+      variantId && kept.has(variantId) ? [variantId] : [],
+    );
+    await tx.replyTemplateVariant.deleteMany({
+      where: { templateId: template.id, id: { notIn: keptIds } },
+    });
+
+    const labels = new Set(
+      keptIds.map((variantId) => kept.get(variantId)?.label ?? ""),
+    );
+    for (const variant of variants) {
+      if (variant.id && kept.has(variant.id)) {
+        await tx.replyTemplateVariant.update({
+          where: { id: variant.id },
+          data: { body: variant.body },
+        });
+      } else {
+        await tx.replyTemplateVariant.create({
+          data: {
+            templateId: template.id,
+            label: nextLabel(labels),
+            body: variant.body,
+          },
+        });
+      }
+    }
+
+    return template;
+  });
+}
+
+export async function deleteReplyTemplate(shop: string, id: string) {
+  await db.replyTemplate.deleteMany({ where: { id, shop } });
+}
+
+export async function getVariantStats(
+  shop: string,
+  variantIds: string[],
+): Promise<Record<string, VariantStats>> {
+  const where = { shop, templateVariantId: { in: variantIds } };
+  const [counts, unedited] = await Promise.all([
+    db.replyDraft.groupBy({
+      by: ["templateVariantId", "status"],
+      where,
+      _count: true,
+    }),
+    db.replyDraft.groupBy({
+      by: ["templateVariantId"],
+      where: {
+        ...where,
+        status: "published",
+        revisions: { none: { kind: "edited" } },
+      },
+      _count: true,
+    }),
+  ]);
+
+  const stats: Record<string, VariantStats> = Object.fromEntries(
+    variantIds.map((variantId) => [
+      variantId,
+      { used: 0, published: 0, publishedUnedited: 0 },
+    ]),
+  );
+  for (const { templateVariantId, status, _count } of counts) {
+    const entry = templateVariantId && stats[templateVariantId];
+    if (entry) {
+      entry.used += _count;
+      if (status === "published") {
+        entry.published += _count;
+      }
+    }
+  }
+  for (const { templateVariantId, _count } of unedited) {
+    const entry = templateVariantId && stats[templateVariantId];
+    if (entry) {
+      entry.publishedUnedited = _count;
+    }
+  }
+
+  return stats;
+}
+
+function optional(formData: FormData, name: string) {
+  return String(formData.get(name) ?? "").trim() || null;
+}
+
+export function parseReplyTemplate(formData: FormData): {
+  template: ReplyTemplateInput;
+  errors: ReplyTemplateErrors;
+} {
+  const mode = formData.get("mode");
+  const topic = optional(formData, "topic");
+  const language = optional(formData, "language");
+  const variantIds = formData.getAll("variantId").map(String);
+  const template: ReplyTemplateInput = {
+    name: String(formData.get("name") ?? "").trim(),
+    mode: isTemplateMode(mode) ? mode : "seed",
+    minRating: Number(formData.get("minRating")),
+    maxRating: Number(formData.get("maxRating")),
+    topic: topic && Object.hasOwn(TOPICS, topic) ? topic : null,
+    productTag: optional(formData, "productTag"),
+    language:
+      language && Object.hasOwn(REPLY_LANGUAGES, language) ? language : null,
+    active: formData.has("active"),
+    variants: formData
+      .getAll("variantBody")
+      .map((body, index) => ({
+        id: variantIds[index] || null,
+        body: String(body).trim(),
+      }))
+      .filter(({ body }) => body),
+  };
+
+  const errors: ReplyTemplateErrors = {};
+  if (!template.name) {
+    errors.name = "Give the template a name";
+  }
+  const ratings = [template.minRating, template.maxRating];
+  if (
+    ratings.some(
+      (rating) => !Number.isInteger(rating) || rating < 1 || rating > 5,
+    ) ||
+    template.minRating > template.maxRating
+  ) {
+    errors.rating = "Choose a rating range between 1 and 5 stars";
+  }
+  const unknown = [
+    ...new Set(
+      template.variants.flatMap(({ body }) => findUnknownVariables(body)),
+    ),
+  ];
+  if (!template.variants.length) {
+    errors.variants = "Add at least one variant";
+  } else if (unknown.length) {
+    errors.variants = `Unknown ${unknown.length === 1 ? "variable" : "variables"} ${unknown
+      .map((name) => `{{${name}}}`)
+      .join(", ")}. Use only the variables listed above.`;
+  }
+
+  return { template, errors };
+}
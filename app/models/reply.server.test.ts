@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetDb, rowsOf, seed } from "../test/fake-db";
+import {
+  finishPublishingReply,
+  isReplyTransition,
+  startPublishingReply,
+} from "./reply.server";
+
+vi.mock("../db.server", () => import("../test/fake-db"));
+
+const SHOP = "test.myshopify.com";
+
+describe("isReplyTransition", () => {
+  it("accepts the moves a draft can make", () => {
+    for (const transition of ["submit", "approve", "return", "reject"]) {
+      expect(isReplyTransition(transition)).toBe(true);
+    }
+  });
+
+  it("rejects publishing, which has its own path", () => {
+    expect(isReplyTransition("publish")).toBe(false);
+  });
+
+  it("rejects keys inherited from Object.prototype", () => {
+    for (const key of [
+      "toString",
+      "constructor",
+      "__proto__",
+      "hasOwnProperty",
+    ]) {
+      expect(isReplyTransition(key)).toBe(false);
+    }
+  });
+
+  it("rejects values that aren't strings", () => {
+    expect(isReplyTransition(null)).toBe(false);
+    expect(isReplyTransition(undefined)).toBe(false);
+  });
+});
+
+describe("publishing a reply", () => {
+  beforeEach(() => {
+    resetDb();
+    seed("review", [{ id: "review-1", shop: SHOP, rating: 2, body: "Late" }]);
+    seed("replyDraft", [
+      {
+        id: "draft-1",
+        shop: SHOP,
+        reviewId: "review-1",
+        status: "approved",
+        body: "Sorry",
+      },
+    ]);
+  });
+
+  it("logs a queued reply as queued, not yet published", async () => {
+    expect(
+      await startPublishingReply(SHOP, "draft-1", "staff@example.com"),
+    ).toBe(true);
+
+    expect(rowsOf("replyDraft")[0].status).toBe("publishing");
+    expect(rowsOf("replyAuditEvent")).toMatchObject([
+      { action: "queued", actor: "staff@example.com" },
+    ]);
+  });
+
+  it("logs the reply as published once the platform has it", async () => {
+    await startPublishingReply(SHOP, "draft-1", "staff@example.com");
+
+    expect(await finishPublishingReply(SHOP, "draft-1", null)).toBe(true);
+
+    expect(rowsOf("replyDraft")[0].status).toBe("published");
+    expect(rowsOf("replyAuditEvent").map(({ action }) => action)).toEqual([
+      "queued",
+      "published",
+    ]);
+  });
+
+  it("credits the publisher when the reply was published straight away", async () => {
+    await startPublishingReply(SHOP, "draft-1", "staff@example.com");
+    await finishPublishingReply(SHOP, "draft-1", null, "staff@example.com");
+
+    expect(rowsOf("replyAuditEvent")[1]).toMatchObject({
+      action: "published",
+      actor: "staff@example.com",
+    });
+  });
+
+  it("returns the reply to approved when the platform refuses it", async () => {
+    await startPublishingReply(SHOP, "draft-1", null);
+
+    await finishPublishingReply(SHOP, "draft-1", "401 Unauthorized");
+
+    expect(rowsOf("replyDraft")[0].status).toBe("approved");
+    expect(rowsOf("replyAuditEvent")[1]).toMatchObject({
+      action: "publish_failed",
+      detail: "401 Unauthorized",
+    });
+  });
+
+  it("only starts publishing approved replies", async () => {
+    await startPublishingReply(SHOP, "draft-1", null);
+
+    expect(await startPublishingReply(SHOP, "draft-1", null)).toBe(false);
+    expect(rowsOf("replyAuditEvent")).toHaveLength(1);
+  });
+});
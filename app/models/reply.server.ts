@@ -0,0 +1,364 @@
+import db from "../db.server";
+import type { GeneratedReply } from "../reply-generator.server";
+import { recordAuditEvent, type AuditAction } from "./audit.server";
+import { recordTokenUsage } from "./usage.server";
+
+export const REPLY_STATUSES = [
+  "draft",
+  "pending_approval",
+  "approved",
+  "publishing",
+  "published",
+  "rejected",
+] as const;
+
+export type ReplyStatus = (typeof REPLY_STATUSES)[number];
+
+/**
+ * Drafts whose text is live or on its way to the review's platform. They are
+ * never changed in place: new text goes into a draft that replaces them.
+ */
+export const LIVE_STATUSES: readonly ReplyStatus[] = [
+  "publishing",
+  "published",
+];
+
+/**
+ * The moves a draft can make, the states it can make them from, and how each
+ * is logged. Publishing isn't one of them: it goes through
+ * `startPublishingReply` and `finishPublishingReply`.
+ */
+export const REPLY_TRANSITIONS = {
+  submit: { from: ["draft"], to: "pending_approval", audit: "submitted" },
+  approve: {
+    from: ["draft", "pending_approval"],
+    to: "approved",
+    audit: "approved",
+  },
+  return: {
+    from: ["pending_approval", "approved"],
+    to: "draft",
+    audit: "returned",
+  },
+  reject: {
+    from: ["draft", "pending_approval", "approved"],
+    to: "rejected",
+    audit: "rejected",
+  },
+} as const satisfies Record<
+  string,
+  { from: readonly ReplyStatus[]; to: ReplyStatus; audit: AuditAction }
+>;
+
+export type ReplyTransition = keyof typeof REPLY_TRANSITIONS;
+
+/** Any change to the text invalidates an earlier override of failed checks. */
+const CLEARED_OVERRIDE = {
+  overriddenChecks: null,
+  overrideReason: null,
+  overriddenBy: null,
+  overriddenAt: null,
+};
+
+/** The draft new text goes into, unless the latest one is live. */
+async function findOpenDraft(shop: string, reviewId: string) {
+  const draft = await db.replyDraft.findFirst({
+    where: { shop, reviewId, status: { not: "rejected" } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return draft && !isLive(draft.status) ? draft : null;
+}
+
+function isLive(status: string) {
+  return (LIVE_STATUSES as readonly string[]).includes(status);
+}
+
+/** The reply currently shown for a review, if one was published. */
+export async function findPublishedReply(shop: string, reviewId: string) {
+  return db.replyDraft.findFirst({
+    where: { shop, reviewId, status: "published" },
+    orderBy: { updatedAt: "desc" },
+  });
+}
+
+/**
+ * Records a generated reply as a new revision of the review's open draft,
+ * starting a new draft when there is none (or the last one was rejected or
+ * is live).
+ * The reply's tokens are added to the shop's monthly usage; the reply itself
+ * was counted when its quota was reserved.
+ */
+export async function saveGeneratedReply(
+  shop: string,
+  reviewId: string,
+  reply: GeneratedReply,
+  editedBy: string | null,
+) {
+  const draft = await addGeneratedRevision(shop, reviewId, reply, editedBy);
+  await recordTokenUsage(shop, reply.usage);
+
+  return draft;
+}
+
+/**
+ * Records a reply candidate the merchant chose. Its usage was counted when
+ * the candidates were generated.
+ */
+export async function saveChosenReply(
+  shop: string,
+  reviewId: string,
+  reply: GeneratedReply,
+  editedBy: string | null,
+) {
+  return addGeneratedRevision(shop, reviewId, reply, editedBy);
+}
+
+async function addGeneratedRevision(
+  shop: string,
+  reviewId: string,
+  reply: GeneratedReply,
+  editedBy: string | null,
+) {
+  const revision = {
+    kind: "generated",
+    body: reply.body,
+    provider: reply.provider,
+    tone: reply.options.tone,
+    length: reply.options.length,
+    language: reply.options.language,
+    orderContext: reply.order && JSON.stringify(reply.order),
+    instruction: reply.instruction,
+    editedBy,
+  };
+
+  const open = await findOpenDraft(shop, reviewId);
+  const draft = open
+    ? await db.replyDraft.update({
+        where: { id: open.id },
+        data: {
+          body: reply.body,
+          status: "draft",
+          templateVariantId: reply.template?.variantId ?? null,
+          ...CLEARED_OVERRIDE,
+          revisions: { create: revision },
+        },
+      })
+    : await db.replyDraft.create({
+        data: {
+          shop,
+          reviewId,
+          body: reply.body,
+          templateVariantId: reply.template?.variantId ?? null,
+          revisions: { create: revision },
+        },
+      });
+
+  await recordAuditEvent(shop, {
+    reviewId,
+    draftId: draft.id,
+    action: "generated",
+    actor: editedBy,
+    detail: [
+      reply.provider,
+      reply.options.tone,
+      reply.options.length,
+      reply.template && `${reply.template.name} (${reply.template.label})`,
+      reply.instruction && `"${reply.instruction}"`,
+    ]
+      .filter(Boolean)
+      .join(", "),
+  });
+
+  return draft;
+}
+
+export async function saveEditedReply(
+  shop: string,
+  draftId: string,
+  body: string,
+  editedBy: string | null,
+) {
+  const draft = await db.replyDraft.findFirst({ where: { id: draftId, shop } });
+  if (!draft) {
+    return null;
+  }
+  if (draft.body === body) {
+    return draft;
+  }
+
+  const revisions = { create: { kind: "edited", body, editedBy } };
+  // Editing a live reply drafts its replacement.
+  const updated = isLive(draft.status)
+    ? await db.replyDraft.create({
+        data: {
+          shop,
+          reviewId: draft.reviewId,
+          body,
+          templateVariantId: draft.templateVariantId,
+          revisions,
+        },
+      })
+    : await db.replyDraft.update({
+        where: { id: draft.id },
+        data: { body, status: "draft", ...CLEARED_OVERRIDE, revisions },
+      });
+  await recordAuditEvent(shop, {
+    reviewId: draft.reviewId,
+    draftId: updated.id,
+    action: "edited",
+    actor: editedBy,
+  });
+
+  return updated;
+}
+
+/**
+ * Moves a draft along the approval workflow. Returns false when the draft is
+ * not in a state the transition can start from, including when someone else
+ * moved it first.
+ */
+export async function transitionReply(
+  shop: string,
+  draftId: string,
+  transition: ReplyTransition,
+  actor: string | null,
+) {
+  const { from, to, audit } = REPLY_TRANSITIONS[transition];
+
+  return moveReply(shop, draftId, from, to, { action: audit, actor });
+}
+
+/**
+ * Marks an approved reply as being sent to its platform. It only counts as
+ * published, and is only shown on the storefront, once the platform has it.
+ */
+export async function startPublishingReply(
+  shop: string,
+  draftId: string,
+  actor: string | null,
+) {
+  return moveReply(shop, draftId, ["approved"], "publishing", {
+    action: "queued",
+    actor,
+  });
+}
+
+/**
+ * Settles a reply that was sent to its platform: published, or back to
+ * approved with the platform's error when it gave up on it. `actor` is who
+ * published it, or null when the background runner delivered it.
+ */
+export async function finishPublishingReply(
+  shop: string,
+  draftId: string,
+  error: string | null,
+  actor: string | null = null,
+) {
+  return moveReply(
+    shop,
+    draftId,
+    ["publishing"],
+    error === null ? "published" : "approved",
+    error === null
+      ? { action: "published", actor }
+      : { action: "publish_failed", actor: null, detail: error },
+  );
+}
+
+async function moveReply(
+  shop: string,
+  draftId: string,
+  from: readonly ReplyStatus[],
+  to: ReplyStatus,
+  audit: { action: AuditAction; actor: string | null; detail?: string } | null,
+) {
+  const draft = await db.replyDraft.findFirst({ where: { id: draftId, shop } });
+  if (!draft || !(from as readonly string[]).includes(draft.status)) {
+    return false;
+  }
+
+  const { count } = await db.replyDraft.updateMany({
+    where: { id: draft.id, status: draft.status },
+    data: {
+      status: to,
+      ...(to === "published" && { publishedAt: new Date() }),
+    },
+  });
+  if (count && audit) {
+    await recordAuditEvent(shop, {
+      reviewId: draft.reviewId,
+      draftId: draft.id,
+      ...audit,
+    });
+  }
+
+  return count > 0;
+}
+
+/** Records why failed checks were accepted, so the draft can be published. */
+export async function overrideReplyChecks(
+  shop: string,
+  draftId: string,
+  checks: string[],
+  reason: string,
+  overriddenBy: string | null,
+) {
+  const draft = await db.replyDraft.findFirst({ where: { id: draftId, shop } });
+  if (!draft) {
+    return;
+  }
+
+  await db.replyDraft.update({
+    where: { id: draft.id },
+    data: {
+      overriddenChecks: checks.join(","),
+      overrideReason: reason,
+      overriddenBy,
+      overriddenAt: new Date(),
+    },
+  });
+  await recordAuditEvent(shop, {
+    reviewId: draft.reviewId,
+    draftId: draft.id,
+    action: "overridden",
+    actor: overriddenBy,
+    detail: `${checks.join(", ")}: ${reason}`,
+  });
+}
+
+export async function addReplyComment(
+  shop: string,
+  draftId: string,
+  body: string,
+  author: string | null,
+) {
+  const draft = await db.replyDraft.findFirst({ where: { id: draftId, shop } });
+  if (!draft) {
+    return null;
+  }
+
+  const comment = await db.replyComment.create({
+    data: { draftId: draft.id, body, author },
+  });
+  await recordAuditEvent(shop, {
+    reviewId: draft.reviewId,
+    draftId: draft.id,
+    action: "commented",
+    actor: author,
+  });
+
+  return comment;
+}
+
+/** Forgets the order details stored with a shop's replies. */
+export async function clearOrderContext(shop: string) {
+  await db.replyRevision.updateMany({
+    where: { draft: { shop }, orderContext: { not: null } },
+    data: { orderContext: null },
+  });
+}
+
+export function isReplyTransition(value: unknown): value is ReplyTransition {
+  return typeof value === "string" && Object.hasOwn(REPLY_TRANSITIONS, value);
+}
@@ -0,0 +1,53 @@
+import { randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+
+/** How long delivery IDs are remembered for duplicate detection. */
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export async function getWebhookSecret(shop: string) {
+  const record = await db.reviewWebhookSecret.findUnique({ where: { shop } });
+
+  return record?.secret ?? null;
+}
+
+/** Creates the shop's signing secret, replacing any earlier one. */
+export async function rotateWebhookSecret(shop: string) {
+  const secret = randomBytes(32).toString("hex");
+  await db.reviewWebhookSecret.upsert({
+    where: { shop },
+    create: { shop, secret },
+    update: { secret, createdAt: new Date() },
+  });
+
+  return secret;
+}
+
+/**
+ * Records a delivery ID. Returns false when it was already recorded, meaning
+ * the platform is retrying a delivery that was handled.
+ */
+export async function recordWebhookDelivery(shop: string, deliveryId: string) {
+  await db.reviewWebhookDelivery.deleteMany({
+    where: { receivedAt: { lt: new Date(Date.now() - DELIVERY_RETENTION_MS) } },
+  });
+
+  try {
+    await db.reviewWebhookDelivery.create({ data: { shop, deliveryId } });
+
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/** Forgets a delivery whose processing failed, so the platform's retry runs. */
+export async function forgetWebhookDelivery(shop: string, deliveryId: string) {
+  await db.reviewWebhookDelivery.deleteMany({ where: { shop, deliveryId } });
+}
@@ -0,0 +1,381 @@
+import type { Prisma, Review } from "@prisma/client";
+import db from "../db.server";
+import {
+  FLAGS,
+  SENTIMENTS,
+  TOPICS,
+  urgencyToLevel,
+  type ReviewClassification,
+  type Sentiment,
+} from "../classification";
+import type { ReviewInput } from "../reply-generator.server";
+import { detectLanguage } from "../language-detection.server";
+
+export const REVIEW_SORTS = ["priority", "newest"] as const;
+
+/** Reviews shown per page of the app's review list. */
+export const REVIEW_PAGE_SIZE = 50;
+
+export interface ReviewFilters {
+  sentiment: Sentiment | null;
+  topic: string | null;
+  flag: string | null;
+  sort: (typeof REVIEW_SORTS)[number];
+  page: number;
+}
+
+/** The form customers' reviews are matched on, or null without an email. */
+export function normalizeEmail(email: string | null | undefined) {
+  return email?.trim().toLowerCase() || null;
+}
+
+export async function createReview(shop: string, input: ReviewInput) {
+  return db.review.create({
+    data: {
+      shop,
+      rating: input.rating,
+      title: input.title || null,
+      body: input.body,
+      language: detectLanguage(`${input.title}\n${input.body}`),
+      productId: input.productId || null,
+      productTitle: input.productTitle || null,
+      reviewerName: input.reviewerName || null,
+      reviewerEmail: input.reviewerEmail || null,
+      reviewerEmailNormalized: normalizeEmail(input.reviewerEmail),
+    },
+  });
+}
+
+export type ImportedReview = Pick<
+  Prisma.ReviewUncheckedCreateInput,
+  | "productId"
+  | "productTitle"
+  | "reviewerName"
+  | "reviewerEmail"
+  | "rating"
+  | "title"
+  | "body"
+  | "reviewedAt"
+> & { externalId: string };
+
+/**
+ * Stores one review from an import or a platform webhook, updating the copy
+ * stored earlier for the same platform ID. Returns the review and whether it
+ * is new.
+ */
+export async function upsertImportedReview(
+  shop: string,
+  source: string,
+  review: ImportedReview,
+) {
+  const existing = await db.review.findUnique({
+    where: {
+      shop_source_externalId: { shop, source, externalId: review.externalId },
+    },
+    select: { id: true },
+  });
+  const stored = await upsertReview(shop, source, review);
+
+  return { review: stored, created: !existing };
+}
+
+function upsertReview(shop: string, source: string, review: ImportedReview) {
+  const data = {
+    ...review,
+    reviewerEmailNormalized: normalizeEmail(review.reviewerEmail),
+    language: detectLanguage(`${review.title ?? ""}\n${review.body}`),
+  };
+
+  return db.review.upsert({
+    where: {
+      shop_source_externalId: { shop, source, externalId: review.externalId },
+    },
+    create: { shop, source, ...data },
+    update: data,
+  });
+}
+
+/** Reviews written per transaction when storing an import. */
+const IMPORT_BATCH_SIZE = 200;
+
+/**
+ * Inserts imported reviews, updating any that an earlier import of the same
+ * platform already stored so re-importing an export never creates duplicates.
+ * Reviews are written in batches, one transaction each. `externalId`s must
+ * be unique. `ids` are the stored reviews' IDs, in the order given.
+ */
+export async function upsertImportedReviews(
+  shop: string,
+  source: string,
+  reviews: ImportedReview[],
+) {
+  let created = 0;
+  const ids: string[] = [];
+  for (let start = 0; start < reviews.length; start += IMPORT_BATCH_SIZE) {
+    const batch = reviews.slice(start, start + IMPORT_BATCH_SIZE);
+    const existing = await db.review.count({
+      where: {
+        shop,
+        source,
+        externalId: { in: batch.map(({ externalId }) => externalId) },
+      },
+    });
+    const stored = await db.$transaction(
+      batch.map((review) => upsertReview(shop, source, review)),
+    );
+    created += batch.length - existing;
+    ids.push(...stored.map(({ id }) => id));
+  }
+
+  return { created, updated: reviews.length - created, ids };
+}
+
+export async function getReview(shop: string, id: string) {
+  return db.review.findFirst({
+    where: { id, shop },
+    include: {
+      drafts: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        include: {
+          revisions: { orderBy: { createdAt: "desc" } },
+          comments: { orderBy: { createdAt: "asc" } },
+        },
+      },
+    },
+  });
+}
+
+export function parseReviewFilters(params: URLSearchParams): ReviewFilters {
+  const sentiment = params.get("sentiment");
+  const topic = params.get("topic");
+  const flag = params.get("flag");
+
+  return {
+    sentiment: SENTIMENTS.includes(sentiment as Sentiment)
+      ? (sentiment as Sentiment)
+      : null,
+    topic: topic && topic in TOPICS ? topic : null,
+    flag: flag && flag in FLAGS ? flag : null,
+    sort: params.get("sort") === "newest" ? "newest" : "priority",
+    page: Math.max(1, Math.floor(Number(params.get("page"))) || 1),
+  };
+}
+
+/**
+ * Lists one page of a shop's reviews with their latest reply. The default
+ * priority order puts urgent and low-rated reviews first so they are
+ * answered soonest.
+ */
+export async function listReviews(
+  shop: string,
+  filters: ReviewFilters = {
+    sentiment: null,
+    topic: null,
+    flag: null,
+    sort: "priority",
+    page: 1,
+  },
+) {
+  const where: Prisma.ReviewWhereInput = { shop };
+  if (filters.sentiment) {
+    where.sentiment = filters.sentiment;
+  }
+  if (filters.topic) {
+    where.topics = { contains: filters.topic };
+  }
+  if (filters.flag) {
+    where.flags = { contains: filters.flag };
+  }
+
+  const [reviews, total] = await Promise.all([
+    db.review.findMany({
+      where,
+      // The id breaks ties, so no review is skipped or repeated across pages.
+      orderBy:
+        filters.sort === "newest"
+          ? [{ createdAt: "desc" }, { id: "asc" }]
+          : [
+              { urgency: { sort: "desc", nulls: "last" } },
+              { rating: "asc" },
+              { createdAt: "desc" },
+              { id: "asc" },
+            ],
+      skip: (filters.page - 1) * REVIEW_PAGE_SIZE,
+      take: REVIEW_PAGE_SIZE,
+      include: {
+        drafts: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { id: true, status: true, updatedAt: true },
+        },
+      },
+    }),
+    db.review.count({ where }),
+  ]);
+
+  return {
+    reviews: reviews.map(({ drafts, ...review }) => ({
+      ...review,
+      latestDraft: drafts[0] ?? null,
+    })),
+    page: filters.page,
+    pageCount: Math.max(1, Math.ceil(total / REVIEW_PAGE_SIZE)),
+    total,
+  };
+}
+
+/** The newest reviews of one product with their latest reply, for the product page block. */
+export async function listProductReviews(
+  shop: string,
+  productId: string,
+  limit: number,
+) {
+  const reviews = await db.review.findMany({
+    where: { shop, productId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: {
+      drafts: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { id: true, status: true, body: true },
+      },
+    },
+  });
+
+  return reviews.map(({ drafts, ...review }) => ({
+    ...review,
+    latestDraft: drafts[0] ?? null,
+  }));
+}
+
+export interface StorefrontReviewQuery {
+  page: number;
+  pageSize: number;
+  /** Only reviews with exactly this many stars. */
+  rating: number | null;
+}
+
+/** "Sam Kim" becomes "Sam K." so full names are not shown on the storefront. */
+function shortenName(name: string | null) {
+  const [first, ...rest] = (name ?? "").trim().split(/\s+/);
+  if (!first) {
+    return "Anonymous";
+  }
+
+  return rest.length ? `${first} ${rest[rest.length - 1][0]}.` : first;
+}
+
+/**
+ * One page of a product's reviews for the storefront, with the rating counts
+ * for the star filter. Only published replies are included.
+ */
+export async function listStorefrontReviews(
+  shop: string,
+  productId: string,
+  { page, pageSize, rating }: StorefrontReviewQuery,
+) {
+  const where: Prisma.ReviewWhereInput = {
+    shop,
+    productId,
+    ...(rating ? { rating } : {}),
+  };
+  const [reviews, total, ratings] = await Promise.all([
+    db.review.findMany({
+      where,
+      orderBy: [
+        { reviewedAt: { sort: "desc", nulls: "last" } },
+        { createdAt: "desc" },
+      ],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: {
+        drafts: {
+          where: { status: "published" },
+          orderBy: { updatedAt: "desc" },
+          take: 1,
+          select: { body: true, updatedAt: true },
+        },
+      },
+    }),
+    db.review.count({ where }),
+    db.review.groupBy({
+      by: ["rating"],
+      where: { shop, productId },
+      _count: true,
+    }),
+  ]);
+
+  return {
+    reviews: reviews.map((review) => ({
+      id: review.id,
+      rating: review.rating,
+      title: review.title,
+      body: review.body,
+      reviewerName: shortenName(review.reviewerName),
+      reviewedAt: review.reviewedAt ?? review.createdAt,
+      reply: review.drafts[0]
+        ? { body: review.drafts[0].body, repliedAt: review.drafts[0].updatedAt }
+        : null,
+    })),
+    page,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    total,
+    ratings: Object.fromEntries(
+      [5, 4, 3, 2, 1].map((stars) => [
+        stars,
+        ratings.find((group) => group.rating === stars)?._count ?? 0,
+      ]),
+    ),
+  };
+}
+
+export async function listUnclassifiedReviews(limit: number) {
+  return db.review.findMany({
+    where: { classifiedAt: null },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+}
+
+export async function saveReviewClassification(
+  id: string,
+  classification: ReviewClassification,
+  classifiedBy: string,
+) {
+  await db.review.update({
+    where: { id },
+    data: {
+      sentiment: classification.sentiment,
+      topics: classification.topics.join(","),
+      urgency: urgencyToLevel(classification.urgency),
+      flags: classification.flags.join(","),
+      classifiedBy,
+      classifiedAt: new Date(),
+    },
+  });
+}
+
+/** Queues a review to be classified again by the background worker. */
+export async function resetReviewClassification(shop: string, id: string) {
+  await db.review.updateMany({
+    where: { id, shop },
+    data: { classifiedAt: null },
+  });
+}
+
+export function toReviewInput(review: Review): ReviewInput {
+  return {
+    rating: review.rating,
+    title: review.title ?? "",
+    body: review.body,
+    productTitle: review.productTitle ?? "",
+    productId: review.productId ?? "",
+    reviewerName: review.reviewerName ?? "",
+    reviewerEmail: review.reviewerEmail ?? "",
+    topics: review.classifiedAt
+      ? review.topics.split(",").filter(Boolean)
+      : null,
+  };
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetDb, rowsOf, seed } from "../test/fake-db";
+import {
+  activateServiceDiscount,
+  getMonthlyDiscountSpend,
+  releaseServiceDiscount,
+  reserveServiceDiscount,
+} from "./service-discount.server";
+
+vi.mock("../db.server", () => import("../test/fake-db"));
+
+const SHOP = "test.myshopify.com";
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function discount(reviewId: string, amount = 10) {
+  return { reviewId, code: `CODE-${reviewId}`, amount, currencyCode: "USD" };
+}
+
+beforeEach(() => {
+  resetDb();
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("reserveServiceDiscount", () => {
+  it("reserves codes until the month's budget is spent", async () => {
+    expect(await reserveServiceDiscount(SHOP, discount("a"), 25)).toMatchObject(
+      { code: "CODE-a" },
+    );
+    expect(
+      await reserveServiceDiscount(SHOP, discount("b"), 25),
+    ).not.toBeNull();
+    expect(await reserveServiceDiscount(SHOP, discount("c"), 25)).toBeNull();
+
+    expect(await getMonthlyDiscountSpend(SHOP)).toBe(20);
+    expect(rowsOf("serviceDiscount")).toHaveLength(2);
+  });
+
+  it("doesn't let concurrent generations overspend the budget", async () => {
+    const results = await Promise.all([
+      reserveServiceDiscount(SHOP, discount("a"), 15),
+      reserveServiceDiscount(SHOP, discount("b"), 15),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await getMonthlyDiscountSpend(SHOP)).toBe(10);
+  });
+
+  it("doesn't let concurrent generations overspend once the month has spend", async () => {
+    await reserveServiceDiscount(SHOP, discount("a"), 25);
+
+    const results = await Promise.all([
+      reserveServiceDiscount(SHOP, discount("b"), 25),
+      reserveServiceDiscount(SHOP, discount("c"), 25),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await getMonthlyDiscountSpend(SHOP)).toBe(20);
+  });
+
+  it("returns the code another generation reserved for the review first", async () => {
+    const [first, second] = await Promise.all([
+      reserveServiceDiscount(SHOP, discount("a"), 100),
+      reserveServiceDiscount(SHOP, { ...discount("a"), code: "OTHER" }, 100),
+    ]);
+
+    expect(second?.code).toBe(first?.code);
+    expect(await getMonthlyDiscountSpend(SHOP)).toBe(10);
+  });
+
+  it("counts spend per month", async () => {
+    seed("shopUsage", [{ shop: SHOP, month: "2026-09", discountSpend: 25 }]);
+
+    expect(
+      await reserveServiceDiscount(SHOP, discount("a"), 25),
+    ).not.toBeNull();
+  });
+});
+
+describe("releaseServiceDiscount", () => {
+  it("gives a code that was never created back to the budget", async () => {
+    await reserveServiceDiscount(SHOP, discount("a"), 10);
+
+    await Promise.all([
+      releaseServiceDiscount(SHOP, "a"),
+      releaseServiceDiscount(SHOP, "a"),
+    ]);
+
+    expect(rowsOf("serviceDiscount")).toHaveLength(0);
+    expect(await getMonthlyDiscountSpend(SHOP)).toBe(0);
+    expect(
+      await reserveServiceDiscount(SHOP, discount("b"), 10),
+    ).not.toBeNull();
+  });
+
+  it("keeps codes created in Shopify", async () => {
+    const reserved = await reserveServiceDiscount(SHOP, discount("a"), 10);
+    await activateServiceDiscount(
+      reserved!.id,
+      "gid://shopify/DiscountCodeNode/1",
+    );
+
+    await releaseServiceDiscount(SHOP, "a");
+
+    expect(rowsOf("serviceDiscount")).toHaveLength(1);
+    expect(await getMonthlyDiscountSpend(SHOP)).toBe(10);
+  });
+});
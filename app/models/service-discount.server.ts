@@ -0,0 +1,139 @@
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+import {
+  getUsageMonth,
+  releaseDiscountSpend,
+  reserveDiscountSpend,
+} from "./usage.server";
+
+function startOfMonth(date = new Date()) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export async function findServiceDiscount(shop: string, reviewId: string) {
+  return db.serviceDiscount.findUnique({
+    where: { shop_reviewId: { shop, reviewId } },
+  });
+}
+
+/**
+ * The value of codes reserved this calendar month. Codes count against the
+ * budget from the moment they are reserved, whether or not they are redeemed.
+ */
+export async function getMonthlyDiscountSpend(shop: string) {
+  const usage = await db.shopUsage.findUnique({
+    where: { shop_month: { shop, month: getUsageMonth() } },
+  });
+
+  return usage?.discountSpend ?? 0;
+}
+
+/**
+ * Reserves `code` for the review when this month's `budget` allows it, and
+ * returns null when it doesn't. Returns the review's existing code instead
+ * when another generation reserved one first.
+ */
+export async function reserveServiceDiscount(
+  shop: string,
+  discount: {
+    reviewId: string;
+    code: string;
+    amount: number;
+    currencyCode: string;
+  },
+  budget: number,
+) {
+  const createdAt = new Date();
+  const month = getUsageMonth(createdAt);
+  if (!(await reserveDiscountSpend(shop, month, discount.amount, budget))) {
+    return null;
+  }
+
+  try {
+    return await db.serviceDiscount.create({
+      data: { shop, ...discount, createdAt },
+    });
+  } catch (error) {
+    await releaseDiscountSpend(shop, month, discount.amount);
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return db.serviceDiscount.findUniqueOrThrow({
+        where: { shop_reviewId: { shop, reviewId: discount.reviewId } },
+      });
+    }
+    throw error;
+  }
+}
+
+/** Records the Shopify discount created for a reserved code. */
+export async function activateServiceDiscount(id: string, discountId: string) {
+  await db.serviceDiscount.update({ where: { id }, data: { discountId } });
+}
+
+/**
+ * Gives back the review's code when it was never created in Shopify, so it
+ * stops counting against the budget.
+ */
+export async function releaseServiceDiscount(shop: string, reviewId: string) {
+  const discount = await db.serviceDiscount.findFirst({
+    where: { shop, reviewId, discountId: null },
+  });
+  if (!discount) {
+    return;
+  }
+
+  // Only the call that deletes the code gives its amount back.
+  const { count } = await db.serviceDiscount.deleteMany({
+    where: { id: discount.id, discountId: null },
+  });
+  if (count) {
+    await releaseDiscountSpend(
+      shop,
+      getUsageMonth(discount.createdAt),
+      discount.amount,
+    );
+  }
+}
+
+/** Unredeemed codes created in Shopify after `since`, oldest first. */
+export async function listUnredeemedDiscounts(
+  shop: string,
+  since: Date,
+  limit = 50,
+) {
+  return db.serviceDiscount.findMany({
+    where: {
+      shop,
+      discountId: { not: null },
+      redeemedAt: null,
+      createdAt: { gte: since },
+    },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+}
+
+export async function recordDiscountUsage(id: string, usageCount: number) {
+  await db.serviceDiscount.update({
+    where: { id },
+    data: {
+      usageCount,
+      redeemedAt: usageCount > 0 ? new Date() : null,
+    },
+  });
+}
+
+export async function getDiscountSummary(shop: string) {
+  const where = { shop, createdAt: { gte: startOfMonth() } };
+  const [created, redeemed, spent] = await Promise.all([
+    db.serviceDiscount.count({ where }),
+    db.serviceDiscount.count({
+      where: { ...where, redeemedAt: { not: null } },
+    }),
+    getMonthlyDiscountSpend(shop),
+  ]);
+
+  return { created, redeemed, spent };
+}
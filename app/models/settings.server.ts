@@ -0,0 +1,163 @@
+import type { ShopSettings } from "@prisma/client";
+import db from "../db.server";
+import {
+  DEFAULT_REPLY_OPTIONS,
+  REPLY_LANGUAGES,
+  type ReplyLanguage,
+  type ReplyOptions,
+} from "../llm/options";
+
+export type ReplyPolicy = Omit<ShopSettings, "shop" | "updatedAt">;
+
+export interface ReplyPolicyErrors {
+  maxLength?: string;
+  defaultLanguage?: string;
+  approvers?: string;
+  serviceDiscounts?: string;
+  serviceDiscountAmount?: string;
+  serviceDiscountMonthlyBudget?: string;
+}
+
+export const DEFAULT_REPLY_POLICY: ReplyPolicy = {
+  brandVoice: "",
+  signOff: "",
+  bannedPhrases: "",
+  allowDiscounts: false,
+  allowRefunds: false,
+  maxLength: 600,
+  defaultLanguage: DEFAULT_REPLY_OPTIONS.language,
+  matchReviewLanguage: true,
+  competitors: "",
+  requireApproval: false,
+  approvers: "",
+  autoPublishFiveStar: false,
+  serviceDiscounts: false,
+  serviceDiscountAmount: 10,
+  serviceDiscountMonthlyBudget: 100,
+};
+
+export async function getReplyPolicy(shop: string): Promise<ReplyPolicy> {
+  const policy = await db.shopSettings.findUnique({
+    where: { shop },
+    omit: { shop: true, updatedAt: true },
+  });
+
+  return policy ?? DEFAULT_REPLY_POLICY;
+}
+
+export async function saveReplyPolicy(shop: string, policy: ReplyPolicy) {
+  return db.shopSettings.upsert({
+    where: { shop },
+    create: { shop, ...policy },
+    update: policy,
+  });
+}
+
+export function parseReplyPolicy(formData: FormData): {
+  policy: ReplyPolicy;
+  errors: ReplyPolicyErrors;
+} {
+  const policy: ReplyPolicy = {
+    brandVoice: String(formData.get("brandVoice") ?? "").trim(),
+    signOff: String(formData.get("signOff") ?? "").trim(),
+    bannedPhrases: getBannedPhrases(
+      String(formData.get("bannedPhrases") ?? ""),
+    ).join("\n"),
+    allowDiscounts: formData.has("allowDiscounts"),
+    allowRefunds: formData.has("allowRefunds"),
+    maxLength: Number(formData.get("maxLength")),
+    defaultLanguage: String(formData.get("defaultLanguage") ?? ""),
+    matchReviewLanguage: formData.has("matchReviewLanguage"),
+    competitors: getCompetitors(String(formData.get("competitors") ?? "")).join(
+      "\n",
+    ),
+    requireApproval: formData.has("requireApproval"),
+    approvers: getApprovers(String(formData.get("approvers") ?? "")).join("\n"),
+    autoPublishFiveStar: formData.has("autoPublishFiveStar"),
+    serviceDiscounts: formData.has("serviceDiscounts"),
+    serviceDiscountAmount: Number(formData.get("serviceDiscountAmount")),
+    serviceDiscountMonthlyBudget: Number(
+      formData.get("serviceDiscountMonthlyBudget"),
+    ),
+  };
+
+  const errors: ReplyPolicyErrors = {};
+  if (
+    !Number.isInteger(policy.maxLength) ||
+    policy.maxLength < 100 ||
+    policy.maxLength > 5000
+  ) {
+    errors.maxLength = "Max length must be between 100 and 5000 characters";
+  }
+  if (!(policy.defaultLanguage in REPLY_LANGUAGES)) {
+    errors.defaultLanguage = "Choose a supported language";
+  }
+  const invalid = getApprovers(policy.approvers).find(
+    (email) => !/^[^\s@]+@[^\s@]+$/.test(email),
+  );
+  if (invalid) {
+    errors.approvers = `“${invalid}” is not an email address`;
+  }
+  if (policy.serviceDiscounts && !policy.allowDiscounts) {
+    errors.serviceDiscounts = "Allow replies to offer a discount code first";
+  }
+  if (
+    !Number.isInteger(policy.serviceDiscountAmount) ||
+    policy.serviceDiscountAmount < 1 ||
+    policy.serviceDiscountAmount > 1000
+  ) {
+    errors.serviceDiscountAmount = "Amount must be between 1 and 1000";
+  }
+  if (
+    !Number.isInteger(policy.serviceDiscountMonthlyBudget) ||
+    policy.serviceDiscountMonthlyBudget < policy.serviceDiscountAmount
+  ) {
+    errors.serviceDiscountMonthlyBudget = "Budget must cover at least one code";
+  }
+
+  return { policy, errors };
+}
+
+export function getBannedPhrases(bannedPhrases: string) {
+  return bannedPhrases
+    .split("\n")
+    .map((phrase) => phrase.trim())
+    .filter(Boolean);
+}
+
+export function getCompetitors(competitors: string) {
+  return competitors
+    .split("\n")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/** Approver emails, one per line, compared case-insensitively. */
+export function getApprovers(approvers: string) {
+  return approvers
+    .split("\n")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * The reply options a new generation starts from for this shop. Replies
+ * follow the review's language when the shop allows it and it is known.
+ */
+export function getDefaultReplyOptions(
+  policy: ReplyPolicy,
+  reviewLanguage: string | null = null,
+): ReplyOptions {
+  const language =
+    policy.matchReviewLanguage && reviewLanguage
+      ? reviewLanguage
+      : policy.defaultLanguage;
+
+  return {
+    ...DEFAULT_REPLY_OPTIONS,
+    language:
+      language in REPLY_LANGUAGES
+        ? (language as ReplyLanguage)
+        : DEFAULT_REPLY_OPTIONS.language,
+  };
+}
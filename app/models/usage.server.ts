@@ -0,0 +1,179 @@
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { getPlan, type Plan } from "../billing";
+import type { TokenUsage } from "../llm/index.server";
+
+/** Usage is counted per calendar month in UTC, e.g. "2026-10". */
+export function getUsageMonth(date = new Date()) {
+  return date.toISOString().slice(0, 7);
+}
+
+export async function getShopPlan(shop: string): Promise<Plan> {
+  const record = await db.shopPlan.findUnique({ where: { shop } });
+
+  return getPlan(record?.plan);
+}
+
+export async function saveShopPlan(
+  shop: string,
+  plan: Plan,
+  subscriptionId: string | null,
+) {
+  await db.shopPlan.upsert({
+    where: { shop },
+    create: { shop, plan, subscriptionId },
+    update: { plan, subscriptionId },
+  });
+}
+
+/** Drops a cancelled subscription, unless the shop has moved on to another. */
+export async function endShopSubscription(
+  shop: string,
+  subscriptionId: string,
+) {
+  await db.shopPlan.updateMany({
+    where: { shop, subscriptionId },
+    data: { plan: "Free", subscriptionId: null },
+  });
+}
+
+export async function getMonthlyUsage(shop: string, month = getUsageMonth()) {
+  const usage = await db.shopUsage.findUnique({
+    where: { shop_month: { shop, month } },
+  });
+
+  return {
+    month,
+    generations: usage?.generations ?? 0,
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+    discountSpend: usage?.discountSpend ?? 0,
+  };
+}
+
+export async function listUsageHistory(shop: string, months = 12) {
+  return db.shopUsage.findMany({
+    where: { shop },
+    orderBy: { month: "desc" },
+    take: months,
+  });
+}
+
+/**
+ * Counts a reply against `month` unless the shop already has `limit`. The
+ * check and the count are a single update, so concurrent generations cannot
+ * go over the limit together. Returns false when the limit is reached.
+ */
+export async function reserveGeneration(
+  shop: string,
+  month: string,
+  limit: number,
+) {
+  const reserve = () =>
+    db.shopUsage.updateMany({
+      where: { shop, month, generations: { lt: limit } },
+      data: { generations: { increment: 1 } },
+    });
+
+  const { count } = await reserve();
+  if (count || limit <= 0) {
+    return count > 0;
+  }
+
+  // No usage yet this month, unless another generation just recorded some.
+  try {
+    await db.shopUsage.create({ data: { shop, month, generations: 1 } });
+
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return (await reserve()).count > 0;
+    }
+    throw error;
+  }
+}
+
+/** Gives back a reply reserved for `month` that was not generated. */
+export async function releaseGeneration(shop: string, month: string) {
+  await db.shopUsage.updateMany({
+    where: { shop, month, generations: { gt: 0 } },
+    data: { generations: { decrement: 1 } },
+  });
+}
+
+/**
+ * Counts `amount` of service-recovery discounts against `month` unless that
+ * takes the shop over `budget`. Like `reserveGeneration`, the check and the
+ * count are a single update, so concurrent generations cannot overspend.
+ * Returns false when the budget doesn't allow it.
+ */
+export async function reserveDiscountSpend(
+  shop: string,
+  month: string,
+  amount: number,
+  budget: number,
+) {
+  const reserve = () =>
+    db.shopUsage.updateMany({
+      where: { shop, month, discountSpend: { lte: budget - amount } },
+      data: { discountSpend: { increment: amount } },
+    });
+
+  const { count } = await reserve();
+  if (count || amount > budget) {
+    return count > 0;
+  }
+
+  // Nothing spent yet this month, unless another generation just spent some.
+  try {
+    await db.shopUsage.create({
+      data: { shop, month, discountSpend: amount },
+    });
+
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return (await reserve()).count > 0;
+    }
+    throw error;
+  }
+}
+
+/** Gives back discount spend counted against `month` for a code never created. */
+export async function releaseDiscountSpend(
+  shop: string,
+  month: string,
+  amount: number,
+) {
+  await db.shopUsage.updateMany({
+    where: { shop, month, discountSpend: { gte: amount } },
+    data: { discountSpend: { decrement: amount } },
+  });
+}
+
+/**
+ * Adds the tokens of a model request to the month, whether it wrote a reply
+ * or classified or translated a review.
+ */
+export async function recordTokenUsage(shop: string, usage: TokenUsage | null) {
+  if (!usage) {
+    return;
+  }
+
+  const month = getUsageMonth();
+  const { inputTokens, outputTokens } = usage;
+  await db.shopUsage.upsert({
+    where: { shop_month: { shop, month } },
+    create: { shop, month, inputTokens, outputTokens },
+    update: {
+      inputTokens: { increment: inputTokens },
+      outputTokens: { increment: outputTokens },
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+export interface OrderContext {
+  name: string;
+  createdAt: string;
+  fulfillmentStatus: string;
+  shippedAt: string | null;
+  estimatedDeliveryAt: string | null;
+  deliveredAt: string | null;
+  lineItems: { title: string; variantTitle: string; quantity: number }[];
+}
+
+interface OrderNode {
+  name: string;
+  createdAt: string;
+  displayFulfillmentStatus: string;
+  fulfillments: {
+    createdAt: string;
+    inTransitAt: string | null;
+    estimatedDeliveryAt: string | null;
+    deliveredAt: string | null;
+  }[];
+  lineItems: {
+    nodes: {
+      title: string;
+      variantTitle: string | null;
+      quantity: number;
+      product: { id: string } | null;
+    }[];
+  };
+}
+
+function toOrderContext(order: OrderNode): OrderContext {
+  const [fulfillment] = order.fulfillments;
+
+  return {
+    name: order.name,
+    createdAt: order.createdAt,
+    fulfillmentStatus: order.displayFulfillmentStatus,
+    shippedAt: fulfillment?.inTransitAt ?? fulfillment?.createdAt ?? null,
+    estimatedDeliveryAt: fulfillment?.estimatedDeliveryAt ?? null,
+    deliveredAt: fulfillment?.deliveredAt ?? null,
+    lineItems: order.lineItems.nodes.map((item) => ({
+      title: item.title,
+      variantTitle: item.variantTitle ?? "",
+      quantity: item.quantity,
+    })),
+  };
+}
+
+/**
+ * Finds the reviewer's most recent order, preferring one that contains the
+ * reviewed product. Needs the optional order scopes; callers check them first.
+ * Lookup failures are logged and treated as missing context.
+ */
+export async function getOrderContext(
+  admin: AdminApiContext,
+  email: string | null,
+  productId: string | null,
+): Promise<OrderContext | null> {
+  if (!email) {
+    return null;
+  }
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+      query replyOrderContext($query: String!) {
+        customers(first: 1, query: $query) {
+          nodes {
+            orders(first: 10, sortKey: CREATED_AT, reverse: true) {
+              nodes {
+                name
+                createdAt
+                displayFulfillmentStatus
+                fulfillments(first: 1) {
+                  createdAt
+                  inTransitAt
+                  estimatedDeliveryAt
+                  deliveredAt
+                }
+                lineItems(first: 20) {
+                  nodes {
+                    title
+                    variantTitle
+                    quantity
+                    product {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }`,
+      { variables: { query: `email:"${email.replace(/"/g, '\\"')}"` } },
+    );
+    const { data } = await response.json();
+    const orders: OrderNode[] =
+      data?.customers?.nodes?.[0]?.orders?.nodes ?? [];
+    const order =
+      orders.find((candidate) =>
+        candidate.lineItems.nodes.some(
+          (item) => productId && item.product?.id === productId,
+        ),
+      ) ?? orders[0];
+
+    return order ? toOrderContext(order) : null;
+  } catch (error) {
+    console.error("Could not look up the reviewer's orders", error);
+
+    return null;
+  }
+}
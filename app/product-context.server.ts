@@ -0,0 +1,158 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  getProductSnapshot,
+  saveProductSnapshot,
+} from "./models/product-snapshot.server";
+
+export interface ProductContext {
+  id: string;
+  title: string;
+  description: string;
+  productType: string;
+  vendor: string;
+  tags: string[];
+  variants: { title: string; sku: string; price: string; available: boolean }[];
+  metafields: { key: string; value: string }[];
+}
+
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const DESCRIPTION_LIMIT = 1000;
+const METAFIELD_VALUE_LIMIT = 300;
+
+/** Metafield types whose values read sensibly in a prompt. */
+const TEXT_METAFIELD_TYPES = new Set([
+  "single_line_text_field",
+  "multi_line_text_field",
+  "number_integer",
+  "number_decimal",
+  "boolean",
+  "list.single_line_text_field",
+]);
+
+interface ProductNode {
+  id: string;
+  title: string;
+  description: string;
+  productType: string;
+  vendor: string;
+  tags: string[];
+  variants: {
+    nodes: {
+      title: string;
+      sku: string | null;
+      price: string;
+      availableForSale: boolean;
+    }[];
+  };
+  metafields: {
+    nodes: { namespace: string; key: string; type: string; value: string }[];
+  };
+}
+
+function metafieldValue(type: string, value: string) {
+  if (type.startsWith("list.")) {
+    try {
+      return (JSON.parse(value) as string[]).join(", ");
+    } catch {
+      return value;
+    }
+  }
+
+  return value.slice(0, METAFIELD_VALUE_LIMIT);
+}
+
+function toProductContext(product: ProductNode): ProductContext {
+  return {
+    id: product.id,
+    title: product.title,
+    description: product.description,
+    productType: product.productType,
+    vendor: product.vendor,
+    tags: product.tags,
+    variants: product.variants.nodes.map((variant) => ({
+      title: variant.title,
+      sku: variant.sku ?? "",
+      price: variant.price,
+      available: variant.availableForSale,
+    })),
+    metafields: product.metafields.nodes
+      .filter(
+        ({ namespace, type }) =>
+          TEXT_METAFIELD_TYPES.has(type) && !namespace.startsWith("app--"),
+      )
+      .map(({ namespace, key, type, value }) => ({
+        key: `${namespace}.${key}`,
+        value: metafieldValue(type, value),
+      })),
+  };
+}
+
+async function fetchProductContext(admin: AdminApiContext, productId: string) {
+  const response = await admin.graphql(
+    `#graphql
+    query replyProductContext($id: ID!, $truncateAt: Int!) {
+      product(id: $id) {
+        id
+        title
+        description(truncateAt: $truncateAt)
+        productType
+        vendor
+        tags
+        variants(first: 20) {
+          nodes {
+            title
+            sku
+            price
+            availableForSale
+          }
+        }
+        metafields(first: 20) {
+          nodes {
+            namespace
+            key
+            type
+            value
+          }
+        }
+      }
+    }`,
+    { variables: { id: productId, truncateAt: DESCRIPTION_LIMIT } },
+  );
+  const { data } = await response.json();
+  const product: ProductNode | null = data?.product ?? null;
+
+  return product && toProductContext(product);
+}
+
+/**
+ * Returns catalog details for the reviewed product, served from a cache that
+ * is refreshed every few hours or when the product changes. Lookup failures
+ * are logged and treated as missing context so a reply can still be written.
+ */
+export async function getProductContext(
+  admin: AdminApiContext,
+  shop: string,
+  productId: string | null,
+): Promise<ProductContext | null> {
+  if (!productId) {
+    return null;
+  }
+
+  const snapshot = await getProductSnapshot(shop, productId, CACHE_TTL_MS);
+  if (snapshot) {
+    return JSON.parse(snapshot.data) as ProductContext;
+  }
+
+  try {
+    const context = await fetchProductContext(admin, productId);
+    if (context) {
+      await saveProductSnapshot(shop, productId, JSON.stringify(context));
+    }
+
+    return context;
+  } catch (error) {
+    console.error(`Could not load product ${productId} for ${shop}`, error);
+
+    return null;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Thrown by adapters when a platform refuses a reply. `retryable` separates
+ * outages and rate limits, which are worth another attempt, from rejections
+ * such as bad credentials or an unknown review, which are not. `status` is
+ * the HTTP status the platform answered with, if it answered.
+ */
+export class PublishError extends Error {
+  readonly status: number | null;
+
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    options?: ErrorOptions & { status?: number },
+  ) {
+    super(message, options);
+    this.name = "PublishError";
+    this.status = options?.status ?? null;
+  }
+}
@@ -0,0 +1,38 @@
+import { PublishError } from "./errors";
+
+/**
+ * Sends a JSON request and returns the parsed response body. Network errors,
+ * rate limits and server errors are retryable; other failures are not.
+ */
+export async function requestJson(
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body: unknown },
+) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method ?? "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...init.headers,
+      },
+      body: JSON.stringify(init.body),
+    });
+  } catch (error) {
+    throw new PublishError(`Could not reach ${new URL(url).host}`, true, {
+      cause: error,
+    });
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 200);
+    throw new PublishError(
+      `${response.status} ${response.statusText}${detail ? `: ${detail}` : ""}`,
+      response.status === 429 || response.status >= 500,
+      { status: response.status },
+    );
+  }
+
+  return response.json().catch(() => ({}));
+}
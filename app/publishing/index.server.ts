@@ -0,0 +1,102 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { createPublication } from "../models/publication.server";
+import { getPublishingConnection } from "../models/publishing-connection.server";
+import {
+  finishPublishingReply,
+  startPublishingReply,
+} from "../models/reply.server";
+import { issueServiceDiscount } from "../service-discount.server";
+import { PublishError } from "./errors";
+import { createJudgeMeAdapter } from "./judgeme.server";
+import { getPublishPlatform, type PublishPlatform } from "./platforms";
+import { createShopifyMetafieldAdapter } from "./shopify-metafield.server";
+import type { PublishAdapter } from "./types";
+import { createYotpoAdapter } from "./yotpo.server";
+
+async function requireConnection(shop: string, platform: "judgeme" | "yotpo") {
+  const connection = await getPublishingConnection(shop, platform);
+  if (!connection) {
+    throw new PublishError(`Connect ${platform} in settings first`, false);
+  }
+
+  return connection;
+}
+
+/**
+ * Builds the adapter for `platform` with the shop's stored credentials.
+ * `JUDGEME_API_URL` and `YOTPO_API_URL` point the REST adapters at another
+ * host, such as the mock server in `scripts/`.
+ */
+export async function getPublishAdapter(
+  platform: PublishPlatform,
+  shop: string,
+  admin: AdminApiContext,
+): Promise<PublishAdapter> {
+  switch (platform) {
+    case "judgeme": {
+      const connection = await requireConnection(shop, platform);
+
+      return createJudgeMeAdapter({
+        apiToken: connection.apiKey,
+        shopDomain: shop,
+        baseURL: process.env.JUDGEME_API_URL || "https://judge.me",
+      });
+    }
+    case "yotpo": {
+      const connection = await requireConnection(shop, platform);
+
+      return createYotpoAdapter({
+        appKey: connection.apiKey,
+        secretKey: connection.apiSecret,
+        baseURL: process.env.YOTPO_API_URL || "https://api.yotpo.com",
+      });
+    }
+    case "shopify_metafield":
+      return createShopifyMetafieldAdapter(admin);
+  }
+}
+
+/**
+ * Publishes an approved draft, first creating the service-recovery code the
+ * reply quotes. With a platform to send it to, the draft is queued and stays
+ * `publishing` until the background runner has delivered it, so the
+ * storefront keeps showing the previous reply until then. Returns false when
+ * the draft could not be moved.
+ */
+export async function publishReply(
+  admin: AdminApiContext,
+  review: {
+    id: string;
+    shop: string;
+    source: string;
+    externalId: string | null;
+    productId: string | null;
+  },
+  draft: { id: string; body: string },
+  actor: string | null,
+) {
+  if (!(await startPublishingReply(review.shop, draft.id, actor))) {
+    return false;
+  }
+
+  try {
+    await issueServiceDiscount(admin, review.shop, review.id, draft.body);
+  } catch (error) {
+    const message = `Could not create the discount code: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+    await finishPublishingReply(review.shop, draft.id, message);
+    throw new PublishError(message, false, { cause: error });
+  }
+
+  const platform = getPublishPlatform(review);
+  if (!platform) {
+    return finishPublishingReply(review.shop, draft.id, null, actor);
+  }
+  await createPublication(review.shop, draft.id, platform, draft.body);
+
+  return true;
+}
+
+export { PublishError } from "./errors";
+export type { PublishAdapter, PublishRequest, PublishResult } from "./types";
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PublishError } from "./errors";
+import { createJudgeMeAdapter } from "./judgeme.server";
+
+const config = {
+  apiToken: "token",
+  shopDomain: "test.myshopify.com",
+  baseURL: "https://judge.test",
+};
+
+const request = {
+  externalId: "42",
+  productId: null,
+  reviewId: "review-1",
+  body: "Thanks!",
+};
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+describe("createJudgeMeAdapter", () => {
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("posts the reply to the review with the shop's token", async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ reply: { id: 5 } }));
+
+    expect(await createJudgeMeAdapter(config).publish(request)).toEqual({
+      remoteId: "5",
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      "https://judge.test/api/v1/reviews/42/reply?api_token=token&shop_domain=test.myshopify.com",
+    );
+    expect(JSON.parse(init.body)).toEqual({ content: "Thanks!", public: true });
+  });
+
+  it("retries rate limits, server errors and network errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response("slow down", { status: 429 }))
+      .mockResolvedValueOnce(new Response("oops", { status: 502 }))
+      .mockRejectedValueOnce(new TypeError("fetch failed"));
+    const adapter = createJudgeMeAdapter(config);
+
+    for (let i = 0; i < 3; i++) {
+      await expect(adapter.publish(request)).rejects.toMatchObject({
+        retryable: true,
+      });
+    }
+  });
+
+  it("gives up when Judge.me refuses the reply", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response("Review not found", {
+        status: 404,
+        statusText: "Not Found",
+      }),
+    );
+
+    const error = await createJudgeMeAdapter(config)
+      .publish(request)
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error).toMatchObject({ status: 404, retryable: false });
+    expect(error.message).toBe("404 Not Found: Review not found");
+  });
+});
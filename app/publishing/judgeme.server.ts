@@ -0,0 +1,32 @@
+import { PublishError } from "./errors";
+import { requestJson } from "./http.server";
+import type { PublishAdapter, PublishRequest } from "./types";
+
+export interface JudgeMeConfig {
+  apiToken: string;
+  shopDomain: string;
+  baseURL: string;
+}
+
+export function createJudgeMeAdapter(config: JudgeMeConfig): PublishAdapter {
+  return {
+    platform: "judgeme",
+    async publish({ externalId, body }: PublishRequest) {
+      if (!externalId) {
+        throw new PublishError("The review has no Judge.me ID", false);
+      }
+
+      const url = new URL(
+        `/api/v1/reviews/${encodeURIComponent(externalId)}/reply`,
+        config.baseURL,
+      );
+      url.searchParams.set("api_token", config.apiToken);
+      url.searchParams.set("shop_domain", config.shopDomain);
+      const data = await requestJson(url.toString(), {
+        body: { content: body, public: true },
+      });
+
+      return { remoteId: String(data.reply?.id ?? data.id ?? externalId) };
+    },
+  };
+}
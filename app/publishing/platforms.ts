@@ -0,0 +1,40 @@
+export const PUBLISH_PLATFORMS = {
+  judgeme: "Judge.me",
+  yotpo: "Yotpo",
+  shopify_metafield: "Shopify product metafield",
+} as const;
+
+export type PublishPlatform = keyof typeof PUBLISH_PLATFORMS;
+
+/** Platforms that need an API key stored in settings before they can publish. */
+export const CONNECTED_PLATFORMS = ["judgeme", "yotpo"] as const;
+
+export type ConnectedPlatform = (typeof CONNECTED_PLATFORMS)[number];
+
+export function isConnectedPlatform(
+  value: unknown,
+): value is ConnectedPlatform {
+  return CONNECTED_PLATFORMS.includes(value as ConnectedPlatform);
+}
+
+/**
+ * Where a reply to this review is published: back to the platform it was
+ * imported from, or onto the Shopify product when it has one.
+ */
+export function getPublishPlatform(review: {
+  source: string;
+  externalId: string | null;
+  productId: string | null;
+}): PublishPlatform | null {
+  if (
+    (review.source === "judgeme" || review.source === "yotpo") &&
+    review.externalId
+  ) {
+    return review.source;
+  }
+  if (review.productId) {
+    return "shopify_metafield";
+  }
+
+  return null;
+}
@@ -0,0 +1,111 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { describe, expect, it, vi } from "vitest";
+import { PublishError } from "./errors";
+import { createShopifyMetafieldAdapter } from "./shopify-metafield.server";
+
+const PRODUCT_ID = "gid://shopify/Product/1";
+
+function mockAdmin(
+  metafield: { jsonValue: unknown; compareDigest: string } | null,
+  userErrors: { message: string; code: string }[] = [],
+) {
+  const graphql = vi
+    .fn()
+    .mockResolvedValueOnce(Response.json({ data: { product: { metafield } } }))
+    .mockResolvedValueOnce(
+      Response.json({
+        data: {
+          metafieldsSet: {
+            metafields: userErrors.length
+              ? []
+              : [{ id: "gid://shopify/Metafield/9" }],
+            userErrors,
+          },
+        },
+      }),
+    );
+
+  return { admin: { graphql } as unknown as AdminApiContext, graphql };
+}
+
+function written(graphql: ReturnType<typeof vi.fn>) {
+  const [input] = graphql.mock.calls[1][1].variables.metafields;
+
+  return { ...input, value: JSON.parse(input.value) };
+}
+
+const request = {
+  externalId: null,
+  productId: PRODUCT_ID,
+  reviewId: "review-2",
+  body: "Thanks!",
+};
+
+describe("createShopifyMetafieldAdapter", () => {
+  it("adds the reply to the product's replies metafield", async () => {
+    const { admin, graphql } = mockAdmin({
+      jsonValue: { "review-1": { body: "Hi", publishedAt: "2026-10-01" } },
+      compareDigest: "digest-1",
+    });
+
+    const result = await createShopifyMetafieldAdapter(admin).publish(request);
+
+    expect(result).toEqual({ remoteId: "gid://shopify/Metafield/9" });
+    const input = written(graphql);
+    expect(input).toMatchObject({
+      ownerId: PRODUCT_ID,
+      namespace: "$app:reviews",
+      key: "replies",
+      type: "json",
+      compareDigest: "digest-1",
+    });
+    expect(Object.keys(input.value)).toEqual(["review-1", "review-2"]);
+    expect(input.value["review-2"].body).toBe("Thanks!");
+  });
+
+  it("creates the metafield only if it still doesn't exist", async () => {
+    const { admin, graphql } = mockAdmin(null);
+
+    await createShopifyMetafieldAdapter(admin).publish(request);
+
+    expect(written(graphql)).toMatchObject({
+      compareDigest: null,
+      value: { "review-2": { body: "Thanks!" } },
+    });
+  });
+
+  it("retries when another reply was written to the product first", async () => {
+    const { admin } = mockAdmin(null, [
+      { message: "The metafield has been modified", code: "STALE_OBJECT" },
+    ]);
+
+    const error = await createShopifyMetafieldAdapter(admin)
+      .publish(request)
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it("gives up on other errors", async () => {
+    const { admin } = mockAdmin(null, [
+      { message: "Value is too long", code: "INVALID_VALUE" },
+    ]);
+
+    await expect(
+      createShopifyMetafieldAdapter(admin).publish(request),
+    ).rejects.toMatchObject({ retryable: false });
+  });
+
+  it("refuses reviews without a product", async () => {
+    const { admin, graphql } = mockAdmin(null);
+
+    await expect(
+      createShopifyMetafieldAdapter(admin).publish({
+        ...request,
+        productId: null,
+      }),
+    ).rejects.toMatchObject({ retryable: false });
+    expect(graphql).not.toHaveBeenCalled();
+  });
+});
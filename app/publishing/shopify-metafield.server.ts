@@ -0,0 +1,108 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { PublishError } from "./errors";
+import type { PublishAdapter, PublishRequest } from "./types";
+
+/** App-owned namespace, so only this app can change the replies it stores. */
+const NAMESPACE = "$app:reviews";
+
+/**
+ * One metafield per product holds every reply to its reviews, keyed by review
+ * ID, so publishing never adds to the product's own metafields.
+ */
+const KEY = "replies";
+
+interface StoredReply {
+  body: string;
+  publishedAt: string;
+}
+
+async function readReplies(admin: AdminApiContext, productId: string) {
+  const response = await admin.graphql(
+    `#graphql
+    query publishedReplies($id: ID!, $namespace: String!, $key: String!) {
+      product(id: $id) {
+        metafield(namespace: $namespace, key: $key) {
+          jsonValue
+          compareDigest
+        }
+      }
+    }`,
+    { variables: { id: productId, namespace: NAMESPACE, key: KEY } },
+  );
+  const { data } = await response.json();
+  if (!data?.product) {
+    throw new PublishError("The review's product no longer exists", false);
+  }
+  const metafield = data.product.metafield;
+  const replies: unknown = metafield?.jsonValue;
+
+  return {
+    replies: (replies && typeof replies === "object" && !Array.isArray(replies)
+      ? replies
+      : {}) as Record<string, StoredReply>,
+    compareDigest: (metafield?.compareDigest ?? null) as string | null,
+  };
+}
+
+/**
+ * Stores replies on the product in one JSON metafield, an object from review
+ * ID to the reply, for themes and storefront integrations to read.
+ * Republishing a reply replaces only its own entry. The write is made against
+ * the digest that was read, so a reply published to the same product at the
+ * same time is not lost: the later write fails and is retried.
+ */
+export function createShopifyMetafieldAdapter(
+  admin: AdminApiContext,
+): PublishAdapter {
+  return {
+    platform: "shopify_metafield",
+    async publish({ productId, reviewId, body }: PublishRequest) {
+      if (!productId) {
+        throw new PublishError("The review is not linked to a product", false);
+      }
+
+      const { replies, compareDigest } = await readReplies(admin, productId);
+      replies[reviewId] = { body, publishedAt: new Date().toISOString() };
+
+      const response = await admin.graphql(
+        `#graphql
+        mutation publishReply($metafields: [MetafieldsSetInput!]!) {
+          metafieldsSet(metafields: $metafields) {
+            metafields {
+              id
+            }
+            userErrors {
+              field
+              message
+              code
+            }
+          }
+        }`,
+        {
+          variables: {
+            metafields: [
+              {
+                ownerId: productId,
+                namespace: NAMESPACE,
+                key: KEY,
+                type: "json",
+                value: JSON.stringify(replies),
+                compareDigest,
+              },
+            ],
+          },
+        },
+      );
+      const { data: result } = await response.json();
+      const [userError] = result?.metafieldsSet?.userErrors ?? [];
+      if (userError) {
+        throw new PublishError(
+          userError.message,
+          userError.code === "STALE_OBJECT",
+        );
+      }
+
+      return { remoteId: result.metafieldsSet.metafields[0].id };
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export interface PublishRequest {
+  /** The review's ID on the platform it came from. */
+  externalId: string | null;
+  /** Shopify product GID the review belongs to. */
+  productId: string | null;
+  /** The app's own review ID. */
+  reviewId: string;
+  body: string;
+}
+
+export interface PublishResult {
+  /** The platform's ID for the published reply. */
+  remoteId: string;
+}
+
+export interface PublishAdapter {
+  readonly platform: string;
+  publish(request: PublishRequest): Promise<PublishResult>;
+}
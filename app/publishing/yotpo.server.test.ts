@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createYotpoAdapter } from "./yotpo.server";
+
+const request = {
+  externalId: "42",
+  productId: null,
+  reviewId: "review-1",
+  body: "Thanks!",
+};
+
+let fetchMock: ReturnType<typeof vi.fn>;
+let config: { appKey: string; secretKey: string; baseURL: string };
+let keys = 0;
+
+function paths() {
+  return fetchMock.mock.calls.map(([url]) => new URL(url).pathname);
+}
+
+function sent(call: number) {
+  return JSON.parse(fetchMock.mock.calls[call][1].body);
+}
+
+describe("createYotpoAdapter", () => {
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    // Tokens are cached per key pair, so each test uses its own.
+    config = {
+      appKey: `app-${++keys}`,
+      secretKey: "secret",
+      baseURL: "https://yotpo.test",
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("gets a token once and comments on the review with it", async () => {
+    fetchMock
+      .mockResolvedValueOnce(Response.json({ access_token: "token-1" }))
+      .mockResolvedValueOnce(Response.json({ comment: { id: 7 } }))
+      .mockResolvedValueOnce(Response.json({ comment: { id: 8 } }));
+    const adapter = createYotpoAdapter(config);
+
+    expect(await adapter.publish(request)).toEqual({ remoteId: "7" });
+    expect(await adapter.publish(request)).toEqual({ remoteId: "8" });
+
+    expect(paths()).toEqual([
+      "/oauth/token",
+      `/v1/apps/${config.appKey}/reviews/42/comments`,
+      `/v1/apps/${config.appKey}/reviews/42/comments`,
+    ]);
+    expect(sent(1)).toEqual({
+      utoken: "token-1",
+      comment: { content: "Thanks!", public: true },
+    });
+  });
+
+  it("gets a new token once when Yotpo stops accepting the old one", async () => {
+    fetchMock
+      .mockResolvedValueOnce(Response.json({ access_token: "token-1" }))
+      .mockResolvedValueOnce(new Response("expired", { status: 401 }))
+      .mockResolvedValueOnce(Response.json({ access_token: "token-2" }))
+      .mockResolvedValueOnce(Response.json({ comment: { id: 7 } }));
+
+    expect(await createYotpoAdapter(config).publish(request)).toEqual({
+      remoteId: "7",
+    });
+    expect(sent(3).utoken).toBe("token-2");
+  });
+
+  it("doesn't retry a second refusal", async () => {
+    fetchMock
+      .mockResolvedValueOnce(Response.json({ access_token: "token-1" }))
+      .mockResolvedValueOnce(new Response("expired", { status: 401 }))
+      .mockResolvedValueOnce(Response.json({ access_token: "token-2" }))
+      .mockResolvedValueOnce(new Response("revoked", { status: 401 }));
+
+    await expect(
+      createYotpoAdapter(config).publish(request),
+    ).rejects.toMatchObject({ status: 401, retryable: false });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("refuses reviews without a Yotpo ID", async () => {
+    await expect(
+      createYotpoAdapter(config).publish({ ...request, externalId: null }),
+    ).rejects.toMatchObject({ retryable: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
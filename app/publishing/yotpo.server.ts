@@ -0,0 +1,82 @@
+import { PublishError } from "./errors";
+import { requestJson } from "./http.server";
+import type { PublishAdapter, PublishRequest } from "./types";
+
+export interface YotpoConfig {
+  appKey: string;
+  secretKey: string;
+  baseURL: string;
+}
+
+/** utokens by app key and secret, kept until Yotpo stops accepting them. */
+const tokens = new Map<string, Promise<string>>();
+
+async function requestToken(config: YotpoConfig) {
+  const data = await requestJson(
+    new URL("/oauth/token", config.baseURL).toString(),
+    {
+      body: {
+        client_id: config.appKey,
+        client_secret: config.secretKey,
+        grant_type: "client_credentials",
+      },
+    },
+  );
+  if (!data.access_token) {
+    throw new PublishError("Yotpo did not issue an access token", false);
+  }
+
+  return String(data.access_token);
+}
+
+function getToken(config: YotpoConfig, key: string) {
+  let token = tokens.get(key);
+  if (!token) {
+    token = requestToken(config);
+    tokens.set(key, token);
+    token.catch(() => tokens.delete(key));
+  }
+
+  return token;
+}
+
+export function createYotpoAdapter(config: YotpoConfig): PublishAdapter {
+  const key = `${config.appKey}:${config.secretKey}`;
+
+  async function postComment(externalId: string, body: string) {
+    const url = new URL(
+      `/v1/apps/${encodeURIComponent(config.appKey)}/reviews/${encodeURIComponent(externalId)}/comments`,
+      config.baseURL,
+    );
+
+    return requestJson(url.toString(), {
+      body: {
+        utoken: await getToken(config, key),
+        comment: { content: body, public: true },
+      },
+    });
+  }
+
+  return {
+    platform: "yotpo",
+    async publish({ externalId, body }: PublishRequest) {
+      if (!externalId) {
+        throw new PublishError("The review has no Yotpo ID", false);
+      }
+
+      let data;
+      try {
+        data = await postComment(externalId, body);
+      } catch (error) {
+        if (!(error instanceof PublishError && error.status === 401)) {
+          throw error;
+        }
+        // The token expired or was revoked: get a new one and try once more.
+        tokens.delete(key);
+        data = await postComment(externalId, body);
+      }
+
+      return { remoteId: String(data.comment?.id ?? data.id ?? externalId) };
+    },
+  };
+}
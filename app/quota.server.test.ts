@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PLANS } from "./billing";
+import { getQuota, QuotaExceededError, withinQuota } from "./quota.server";
+import { resetDb, seed } from "./test/fake-db";
+
+vi.mock("./db.server", () => import("./test/fake-db"));
+
+const SHOP = "test.myshopify.com";
+const NOW = new Date("2026-10-19T12:00:00Z");
+const LIMIT = PLANS.Free.replies;
+
+function useReplies(generations: number) {
+  seed("shopUsage", [{ shop: SHOP, month: "2026-10", generations }]);
+}
+
+async function used() {
+  return (await getQuota(SHOP)).used;
+}
+
+beforeEach(() => {
+  resetDb();
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("withinQuota", () => {
+  it("counts a generated reply against the month", async () => {
+    expect(await withinQuota(SHOP, async () => "reply")).toBe("reply");
+    expect(await withinQuota(SHOP, async () => "reply")).toBe("reply");
+
+    expect(await used()).toBe(2);
+  });
+
+  it("refuses to generate once the plan's replies are used up", async () => {
+    useReplies(LIMIT);
+    const generate = vi.fn();
+
+    await expect(withinQuota(SHOP, generate)).rejects.toBeInstanceOf(
+      QuotaExceededError,
+    );
+    expect(generate).not.toHaveBeenCalled();
+    expect(await used()).toBe(LIMIT);
+  });
+
+  it("lets only one of two concurrent generations take the last reply", async () => {
+    useReplies(LIMIT - 1);
+
+    const results = await Promise.allSettled([
+      withinQuota(SHOP, async () => "first"),
+      withinQuota(SHOP, async () => "second"),
+    ]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(await used()).toBe(LIMIT);
+  });
+
+  it("doesn't go over the plan when the month's first generations run at once", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: LIMIT + 2 }, () => withinQuota(SHOP, async () => 1)),
+    );
+
+    expect(results.filter(({ status }) => status === "fulfilled")).toHaveLength(
+      LIMIT,
+    );
+    expect(await used()).toBe(LIMIT);
+  });
+
+  it("gives the reply back when generating fails", async () => {
+    useReplies(LIMIT - 1);
+
+    await expect(
+      withinQuota(SHOP, async () => {
+        throw new Error("The model timed out");
+      }),
+    ).rejects.toThrow("The model timed out");
+
+    expect(await used()).toBe(LIMIT - 1);
+    expect(await withinQuota(SHOP, async () => "reply")).toBe("reply");
+  });
+});
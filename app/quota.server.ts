@@ -0,0 +1,58 @@
+import { PLANS } from "./billing";
+import {
+  getMonthlyUsage,
+  getShopPlan,
+  getUsageMonth,
+  releaseGeneration,
+  reserveGeneration,
+} from "./models/usage.server";
+
+/**
+ * Thrown before a reply is generated when the shop has used its plan's
+ * replies for the month. The message is meant for the merchant.
+ */
+export class QuotaExceededError extends Error {
+  constructor(readonly limit: number) {
+    super(
+      `You've used all ${limit} replies included in your plan this month. Upgrade your plan to generate more.`,
+    );
+    this.name = "QuotaExceededError";
+  }
+}
+
+export async function getQuota(shop: string) {
+  const [plan, usage] = await Promise.all([
+    getShopPlan(shop),
+    getMonthlyUsage(shop),
+  ]);
+  const limit = PLANS[plan].replies;
+
+  return {
+    plan,
+    limit,
+    used: usage.generations,
+    remaining: Math.max(limit - usage.generations, 0),
+  };
+}
+
+/**
+ * Counts one reply against the shop's plan, then runs `generate`, which
+ * writes and saves it. Throws `QuotaExceededError` first when the shop has no
+ * replies left. Counting before generating means concurrent generations and
+ * batches cannot go over the plan; the reply is given back when `generate`
+ * throws, so failed and cancelled generations don't use it up.
+ */
+export async function withinQuota<T>(shop: string, generate: () => Promise<T>) {
+  const month = getUsageMonth();
+  const limit = PLANS[await getShopPlan(shop)].replies;
+  if (!(await reserveGeneration(shop, month, limit))) {
+    throw new QuotaExceededError(limit);
+  }
+
+  try {
+    return await generate();
+  } catch (error) {
+    await releaseGeneration(shop, month);
+    throw error;
+  }
+}
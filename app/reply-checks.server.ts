@@ -0,0 +1,213 @@
+import { getCompetitors, type ReplyPolicy } from "./models/settings.server";
+import type { ProductContext } from "./product-context.server";
+import type { ReviewInput } from "./reply-generator.server";
+
+export type ReplyCheckId =
+  | "personal_data"
+  | "promises"
+  | "profanity"
+  | "competitors"
+  | "unsupported_facts"
+  | "length";
+
+export interface ReplyCheck {
+  id: ReplyCheckId;
+  label: string;
+  passed: boolean;
+  /** Why the check failed, quoting what it found. */
+  message: string | null;
+}
+
+export interface ReplyCheckContext {
+  review: ReviewInput;
+  policy: ReplyPolicy;
+  product: ProductContext | null;
+  /** Where the reply will be published, e.g. the review's import source. */
+  destination: string;
+}
+
+/**
+ * Longest reply each destination accepts. Kept conservative so a reply that
+ * passes here is not cut off by the platform.
+ */
+export const DESTINATION_LENGTH_LIMITS: Record<string, number> = {
+  judgeme: 2000,
+  yotpo: 1000,
+  loox: 1000,
+  okendo: 1500,
+  shopify: 5000,
+};
+
+const EMAIL = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+const PHONE = /\+?\d[\d\s().-]{7,}\d/g;
+const ORDER_NUMBER =
+  /#\s?\d{3,}|\b(?:order|bestellung|commande|pedido|bestelling)\s*(?:number|no\.?|nr\.?|n°|#)?\s*:?\s*#?\d{3,}/gi;
+
+const REFUND_PROMISES =
+  /\b(refund\w*|money back|reimburs\w*|rückerstattung|erstatten|rembours\w*|reembols\w*|terugbetal\w*)\b/i;
+const DISCOUNT_PROMISES =
+  /\b(discount|coupon|voucher|promo code|\d+\s?% off|rabatt|gutschein|réduction|descuento|korting)\b/i;
+const FREE_PRODUCTS =
+  /\b(free (replacement|product|gift|item|one)|(send|ship) you (a )?(new|another) one|at no (extra )?(cost|charge))\b/i;
+const LEGAL_ADMISSIONS =
+  /\b(we are (legally )?(liable|responsible for (your|the) (injur\w*|damage\w*))|our (fault|negligence)|we admit|negligen\w*|compensat\w*)\b/i;
+
+const PROFANITY =
+  /\b(damn\w*|shit\w*|fuck\w*|crap\w*|bastard\w*|bitch\w*|ass(hole)?s?|scheiße|scheisse|merde|putain|mierda|joder|kut|godverdomme)\b/gi;
+
+const MATERIALS =
+  /\b(cotton|wool|merino|cashmere|silk|linen|leather|suede|polyester|nylon|bamboo|steel|stainless|aluminium|aluminum|gold|silver|titanium|ceramic|glass|plastic|organic)\b/gi;
+const MEASUREMENTS =
+  /\b\d+(?:[.,]\d+)?\s?(?:%|cm|mm|m|kg|g|ml|l|oz|lb|lbs|inch(?:es)?|days?|weeks?|months?|years?)\b/gi;
+
+function findPersonalData(text: string) {
+  const phones = (text.match(PHONE) ?? []).filter(
+    (match) => match.replace(/\D/g, "").length >= 9,
+  );
+
+  return [
+    ...(text.match(EMAIL) ?? []),
+    ...phones,
+    ...(text.match(ORDER_NUMBER) ?? []),
+  ];
+}
+
+/**
+ * Replaces emails, phone numbers and order numbers with a placeholder. Applied
+ * to review text before it reaches the model, so customers' details are not
+ * sent to the provider or echoed back in a public reply.
+ */
+export function redactPersonalData(text: string) {
+  return findPersonalData(text).reduce(
+    (redacted, match) => redacted.split(match).join("[redacted]"),
+    text,
+  );
+}
+
+function findPromises(body: string, policy: ReplyPolicy) {
+  const found: string[] = [];
+  if (!policy.allowRefunds && REFUND_PROMISES.test(body)) {
+    found.push("a refund");
+  }
+  if (!policy.allowDiscounts && DISCOUNT_PROMISES.test(body)) {
+    found.push("a discount");
+  }
+  if (!policy.allowRefunds && FREE_PRODUCTS.test(body)) {
+    found.push("a free product");
+  }
+  if (LEGAL_ADMISSIONS.test(body)) {
+    found.push("an admission of liability");
+  }
+
+  return found;
+}
+
+function productFacts(product: ProductContext | null) {
+  if (!product) {
+    return "";
+  }
+
+  return [
+    product.title,
+    product.description,
+    product.productType,
+    ...product.variants.map(({ title }) => title),
+    ...product.metafields.map(({ value }) => value),
+  ].join("\n");
+}
+
+/**
+ * Materials and measurements the reply states that appear in neither the
+ * review nor the product details. A heuristic for invented facts: it cannot
+ * judge claims, only spot specifics with no source.
+ */
+function findUnsupportedFacts(body: string, context: ReplyCheckContext) {
+  const sources = [
+    context.review.title,
+    context.review.body,
+    context.review.productTitle,
+    productFacts(context.product),
+  ]
+    .join("\n")
+    .toLowerCase()
+    .replace(/\s+/g, "");
+  const claims = [
+    ...(body.match(MATERIALS) ?? []),
+    ...(body.match(MEASUREMENTS) ?? []),
+  ];
+
+  return [
+    ...new Set(
+      claims.filter(
+        (claim) => !sources.includes(claim.toLowerCase().replace(/\s+/g, "")),
+      ),
+    ),
+  ];
+}
+
+function check(
+  id: ReplyCheckId,
+  label: string,
+  found: string[],
+  describe: (found: string) => string,
+): ReplyCheck {
+  return {
+    id,
+    label,
+    passed: found.length === 0,
+    message: found.length ? describe(found.join(", ")) : null,
+  };
+}
+
+/** Runs every guardrail against a reply about to be published. */
+export function runReplyChecks(
+  body: string,
+  context: ReplyCheckContext,
+): ReplyCheck[] {
+  const limit = Math.min(
+    context.policy.maxLength,
+    DESTINATION_LENGTH_LIMITS[context.destination] ?? Infinity,
+  );
+  const competitors = getCompetitors(context.policy.competitors).filter(
+    (name) => body.toLowerCase().includes(name.toLowerCase()),
+  );
+
+  return [
+    check(
+      "personal_data",
+      "No personal data",
+      findPersonalData(body),
+      (found) => `Contains personal data: ${found}`,
+    ),
+    check(
+      "promises",
+      "No promises the policy disallows",
+      findPromises(body, context.policy),
+      (found) => `Promises ${found}`,
+    ),
+    check(
+      "profanity",
+      "No profanity",
+      body.match(PROFANITY) ?? [],
+      (found) => `Contains ${found}`,
+    ),
+    check(
+      "competitors",
+      "No competitor mentions",
+      competitors,
+      (found) => `Mentions ${found}`,
+    ),
+    check(
+      "unsupported_facts",
+      "No facts missing from the review or product details",
+      findUnsupportedFacts(body, context),
+      (found) => `Not found in the review or product details: ${found}`,
+    ),
+    check(
+      "length",
+      "Fits the destination",
+      body.length > limit ? [`${body.length} characters`] : [],
+      (found) => `${found} is over the limit of ${limit}`,
+    ),
+  ];
+}
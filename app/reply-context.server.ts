@@ -0,0 +1,93 @@
+import type {
+  AdminApiContext,
+  Session,
+} from "@shopify/shopify-app-react-router/server";
+import type { Review } from "@prisma/client";
+import { listExampleCandidates } from "./models/reply-example.server";
+import { listActiveTemplates } from "./models/reply-template.server";
+import { toReviewInput } from "./models/review.server";
+import { getReplyPolicy } from "./models/settings.server";
+import { getOrderContext } from "./order-context.server";
+import { getProductContext } from "./product-context.server";
+import { runReplyChecks, type ReplyCheck } from "./reply-checks.server";
+import { selectReplyExamples } from "./reply-examples.server";
+import { getServiceDiscount } from "./service-discount.server";
+import { ORDER_SCOPES, hasScopes } from "./scopes";
+
+/**
+ * Gathers the shop policy, its reply templates, the merchant's past replies to
+ * the most similar reviews and whatever the store knows about the reviewed
+ * product and the reviewer's order. Order lookups only run once the merchant
+ * has granted the optional order scopes. Low-rated reviews may also get a
+ * service-recovery discount code, which is reserved here and only created in
+ * Shopify when the reply is published.
+ */
+export async function loadReplyContext(
+  admin: AdminApiContext,
+  session: Session,
+  review: {
+    id: string;
+    rating: number;
+    title: string | null;
+    body: string;
+    productId: string | null;
+    reviewerEmail: string | null;
+  },
+) {
+  const [policy, templates, examples, product, order] = await Promise.all([
+    getReplyPolicy(session.shop),
+    listActiveTemplates(session.shop),
+    listExampleCandidates(session.shop),
+    getProductContext(admin, session.shop, review.productId),
+    hasScopes(session.scope, ORDER_SCOPES)
+      ? getOrderContext(admin, review.reviewerEmail, review.productId)
+      : null,
+  ]);
+
+  const discount = await getServiceDiscount(admin, session, review, policy);
+
+  return {
+    policy,
+    templates,
+    examples: selectReplyExamples(examples, {
+      rating: review.rating,
+      title: review.title ?? "",
+      body: review.body,
+    }),
+    product,
+    order,
+    discount,
+  };
+}
+
+/** Runs the publishing guardrails against `body` for this review. */
+export async function checkReply(
+  admin: AdminApiContext,
+  shop: string,
+  review: Review,
+  body: string,
+) {
+  const [policy, product] = await Promise.all([
+    getReplyPolicy(shop),
+    getProductContext(admin, shop, review.productId),
+  ]);
+
+  return runReplyChecks(body, {
+    review: toReviewInput(review),
+    policy,
+    product,
+    destination: review.source,
+  });
+}
+
+/** Checks that failed and have not been overridden for the draft's current text. */
+export function getBlockingChecks(
+  checks: ReplyCheck[],
+  draft: { overriddenChecks: string | null },
+) {
+  const overridden = draft.overriddenChecks?.split(",") ?? [];
+
+  return checks.filter(
+    (check) => !check.passed && !overridden.includes(check.id),
+  );
+}
@@ -0,0 +1,95 @@
+/** A past review and the merchant's reply, as shown to the model. */
+export interface ReplyExampleText {
+  rating: number | null;
+  review: string;
+  reply: string;
+}
+
+export interface ExampleCandidate extends ReplyExampleText {
+  /** The review's words from `tokenize`, separated by spaces. */
+  terms: string;
+}
+
+/** Examples given to the model for each reply. */
+export const EXAMPLE_LIMIT = 3;
+
+// BM25 parameters: how quickly repeated words stop adding to the score, and
+// how much long reviews are penalised.
+const K1 = 1.2;
+const B = 0.75;
+
+/** Lowercased words of three or more letters, the terms examples are matched on. */
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(/\p{L}{3,}/gu) ?? []).join(" ");
+}
+
+/** 1 for the same rating, down to 0.5 four stars apart. */
+function ratingWeight(a: number | null, b: number) {
+  return a === null ? 0.75 : 1 - Math.abs(a - b) / 8;
+}
+
+/**
+ * Picks the past replies whose reviews share the most words with this one,
+ * scored with BM25 and weighted towards reviews with a similar rating. When
+ * nothing shares a word, the closest ratings are used, so the model still
+ * sees how the merchant writes.
+ */
+export function selectReplyExamples(
+  examples: ExampleCandidate[],
+  review: { rating: number; title: string; body: string },
+  limit = EXAMPLE_LIMIT,
+): ReplyExampleText[] {
+  if (!examples.length) {
+    return [];
+  }
+
+  const documents = examples.map(({ terms }) => terms.split(" "));
+  const averageLength =
+    documents.reduce((sum, words) => sum + words.length, 0) /
+      documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const words of documents) {
+    for (const word of new Set(words)) {
+      documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+    }
+  }
+
+  const query = [
+    ...new Set(tokenize(`${review.title} ${review.body}`).split(" ")),
+  ];
+  const scored = documents.map((words, index) => {
+    const counts = new Map<string, number>();
+    for (const word of words) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const word of query) {
+      const count = counts.get(word);
+      if (!count) {
+        continue;
+      }
+      const frequency = documentFrequency.get(word)!;
+      const idf = Math.log(
+        1 + (documents.length - frequency + 0.5) / (frequency + 0.5),
+      );
+      score +=
+        (idf * count * (K1 + 1)) /
+        (count + K1 * (1 - B + (B * words.length) / averageLength));
+    }
+
+    const example = examples[index];
+    const weight = ratingWeight(example.rating, review.rating);
+
+    return { example, score: score * weight, weight };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.weight - a.weight)
+    .slice(0, limit)
+    .map(({ example: { rating, review, reply } }) => ({
+      rating,
+      review,
+      reply,
+    }));
+}
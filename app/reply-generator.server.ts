@@ -0,0 +1,454 @@
+import { getLLMProvider, type TokenUsage } from "./llm/index.server";
+import {
+  CANDIDATE_STYLES,
+  DEFAULT_REPLY_OPTIONS,
+  REPLY_LANGUAGES,
+  type CandidateStyle,
+  type ReplyLength,
+  type ReplyOptions,
+} from "./llm/options";
+import {
+  DEFAULT_REPLY_POLICY,
+  getBannedPhrases,
+  type ReplyPolicy,
+} from "./models/settings.server";
+import type { OrderContext } from "./order-context.server";
+import type { ProductContext } from "./product-context.server";
+import { redactPersonalData } from "./reply-checks.server";
+import type { ReplyExampleText } from "./reply-examples.server";
+import type { ServiceDiscountOffer } from "./service-discount.server";
+import {
+  selectTemplate,
+  type TemplateCandidate,
+} from "./reply-templates.server";
+
+export interface ReviewInput {
+  rating: number;
+  title: string;
+  body: string;
+  productTitle: string;
+  /** Shopify product GID, when the review is linked to a catalog product. */
+  productId: string;
+  reviewerName: string;
+  /** Used to look up the reviewer's orders; never shown to the model. */
+  reviewerEmail: string;
+  /** Classified topics; null or missing when the review is not classified yet. */
+  topics?: string[] | null;
+}
+
+export interface GeneratedReply {
+  body: string;
+  provider: string;
+  options: ReplyOptions;
+  /** The order the reply was written against, kept so merchants can check it. */
+  order: OrderContext | null;
+  /** The template variant the reply was based on, if one matched. */
+  template: { variantId: string; name: string; label: string } | null;
+  /** What the merchant asked to change, when the reply was regenerated with one. */
+  instruction: string | null;
+  /** Tokens the model used; null when no model was called. */
+  usage: TokenUsage | null;
+}
+
+export interface ReplyContext {
+  options?: ReplyOptions;
+  policy?: ReplyPolicy;
+  product?: ProductContext | null;
+  order?: OrderContext | null;
+  /** The shop's active templates, matched against the review. */
+  templates?: TemplateCandidate[];
+  /** A single-use code to offer; templates using `{{discount_code}}` need one. */
+  discount?: ServiceDiscountOffer | null;
+  /** The merchant's instruction for a regenerated reply. */
+  feedback?: ReplyFeedback | null;
+  /** Past replies by the merchant to similar reviews, to copy their voice. */
+  examples?: ReplyExampleText[];
+}
+
+export interface ReplyFeedback {
+  /** e.g. "mention our 30-day return policy" or "shorter". */
+  instruction: string;
+  /** The draft being regenerated, so the model can revise it. */
+  previous: string | null;
+}
+
+/** Lets a caller show the reply while it is written and cancel it. */
+export interface ReplyStream {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ReviewInputErrors {
+  form?: string;
+  rating?: string;
+  body?: string;
+}
+
+export function parseReviewInput(formData: FormData): {
+  review: ReviewInput;
+  errors: ReviewInputErrors;
+} {
+  const review: ReviewInput = {
+    rating: Number(formData.get("rating")),
+    title: String(formData.get("title") ?? "").trim(),
+    body: String(formData.get("body") ?? "").trim(),
+    productTitle: String(formData.get("productTitle") ?? "").trim(),
+    productId: String(formData.get("productId") ?? "").trim(),
+    reviewerName: String(formData.get("reviewerName") ?? "").trim(),
+    reviewerEmail: String(formData.get("reviewerEmail") ?? "").trim(),
+  };
+
+  const errors: ReviewInputErrors = {};
+  if (
+    !Number.isInteger(review.rating) ||
+    review.rating < 1 ||
+    review.rating > 5
+  ) {
+    errors.rating = "Rating must be between 1 and 5";
+  }
+  if (!review.body) {
+    errors.body = "Please paste the review text";
+  }
+
+  return { review, errors };
+}
+
+/**
+ * Reads the optional instruction submitted with a regenerate request. The
+ * review's latest draft is revised unless it was rejected.
+ */
+export function getReplyFeedback(
+  formData: FormData,
+  draft: { body: string; status: string } | undefined,
+): ReplyFeedback | null {
+  const instruction = String(formData.get("instruction") ?? "").trim();
+  if (!instruction) {
+    return null;
+  }
+
+  return {
+    instruction,
+    previous: draft && draft.status !== "rejected" ? draft.body : null,
+  };
+}
+
+function buildProductLines(product: ProductContext) {
+  const lines = ["", "Product details:"];
+  if (product.productType) {
+    lines.push(`Type: ${product.productType}`);
+  }
+  if (product.vendor) {
+    lines.push(`Brand: ${product.vendor}`);
+  }
+  if (product.description) {
+    lines.push(`Description: ${product.description}`);
+  }
+  const variants = product.variants.filter(
+    ({ title }) => title !== "Default Title",
+  );
+  if (variants.length) {
+    lines.push(
+      `Variants: ${variants
+        .map(
+          (variant) =>
+            `${variant.title}${variant.sku ? ` (SKU ${variant.sku})` : ""}${variant.available ? "" : ", sold out"}`,
+        )
+        .join("; ")}`,
+    );
+  }
+  if (product.variants.length) {
+    const prices = product.variants.map(({ price }) => Number(price));
+    const min = Math.min(...prices);
+    const max = Math.max(...prices);
+    lines.push(`Price: ${min === max ? min : `${min} to ${max}`}`);
+  }
+  for (const { key, value } of product.metafields) {
+    lines.push(`${key}: ${value}`);
+  }
+
+  return lines;
+}
+
+function formatDate(value: string) {
+  return value.slice(0, 10);
+}
+
+function buildOrderLines(order: OrderContext) {
+  const lines = [
+    "",
+    "The reviewer's order (private, for context only):",
+    `Placed: ${formatDate(order.createdAt)}`,
+    `Fulfillment status: ${order.fulfillmentStatus.toLowerCase().replace(/_/g, " ")}`,
+  ];
+  if (order.shippedAt) {
+    lines.push(`Shipped: ${formatDate(order.shippedAt)}`);
+  }
+  if (order.estimatedDeliveryAt) {
+    lines.push(`Estimated delivery: ${formatDate(order.estimatedDeliveryAt)}`);
+  }
+  if (order.deliveredAt) {
+    lines.push(`Delivered: ${formatDate(order.deliveredAt)}`);
+  }
+  lines.push(
+    `Items: ${order.lineItems
+      .map(
+        (item) =>
+          `${item.quantity} x ${item.title}${item.variantTitle ? ` (${item.variantTitle})` : ""}`,
+      )
+      .join("; ")}`,
+  );
+
+  return lines;
+}
+
+export function buildReplyPrompt(
+  review: ReviewInput,
+  product: ProductContext | null = null,
+  order: OrderContext | null = null,
+  template: string | null = null,
+  discount: ServiceDiscountOffer | null = null,
+  feedback: ReplyFeedback | null = null,
+) {
+  const lines = [
+    `Product: ${product?.title || review.productTitle || "Unknown product"}`,
+    `Reviewer: ${review.reviewerName || "Anonymous"}`,
+    `Rating: ${review.rating} out of 5`,
+  ];
+  if (review.title) {
+    lines.push(`Title: ${redactPersonalData(review.title)}`);
+  }
+  lines.push(`Review: ${redactPersonalData(review.body)}`);
+  if (product) {
+    lines.push(...buildProductLines(product));
+  }
+  if (order) {
+    lines.push(...buildOrderLines(order));
+  }
+  if (discount) {
+    lines.push(
+      "",
+      `Discount code to offer as an apology: ${discount.code} (${discount.value} off their next order, valid until ${discount.expiresOn}). Quote the code exactly.`,
+    );
+  }
+  if (template) {
+    lines.push(
+      "",
+      "Base the reply on this template from the store. Keep its message and structure, but adapt the wording to the review:",
+      template,
+    );
+  }
+  if (feedback?.previous) {
+    lines.push("", "The current reply, to be rewritten:", feedback.previous);
+  }
+  if (feedback) {
+    lines.push(
+      "",
+      `The store owner asked for this change: ${feedback.instruction}`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+const BASE_INSTRUCTIONS = [
+  "You write public replies from a store owner to customer product reviews.",
+  "Address the reviewer by first name when it is known, thank them, and respond to the specific points they raised.",
+  "For negative reviews, acknowledge the problem without being defensive and invite them to contact support.",
+  "Do not invent order details, policies or facts that are not in the review or the product and order details.",
+  "When product details are given, use them to answer questions about sizing, materials or variants, but do not repeat them as a sales pitch.",
+  "Order details are private: use them to understand what went wrong, but never quote order numbers, dates or items the reviewer did not mention.",
+  "When the store owner asks for a change, follow it as long as it keeps to these instructions.",
+  "Reply with the text of the reply only.",
+];
+
+const LENGTH_INSTRUCTIONS: Record<ReplyLength, string> = {
+  short: "Keep the reply to one or two sentences.",
+  medium: "Keep the reply to three or four sentences.",
+  long: "Write a thorough reply of up to six sentences.",
+};
+
+function buildPolicyInstructions(policy: ReplyPolicy) {
+  const instructions: string[] = [];
+  if (policy.brandVoice) {
+    instructions.push(`Write in this brand voice: ${policy.brandVoice}`);
+  }
+  const bannedPhrases = getBannedPhrases(policy.bannedPhrases);
+  if (bannedPhrases.length) {
+    instructions.push(
+      `Never use these words or phrases: ${bannedPhrases.map((phrase) => `"${phrase}"`).join(", ")}.`,
+    );
+  }
+  instructions.push(
+    !policy.allowDiscounts
+      ? "Do not offer discount codes."
+      : policy.serviceDiscounts
+        ? "Only offer a discount code when one is given, and never make one up."
+        : "You may offer a discount code on a future order when it helps resolve a complaint.",
+    policy.allowRefunds
+      ? "You may offer a refund or replacement for a faulty product."
+      : "Do not offer refunds or replacements; direct the customer to support instead.",
+    `Keep the reply under ${policy.maxLength} characters.`,
+  );
+  if (policy.signOff) {
+    instructions.push("Do not add a sign-off; one is appended automatically.");
+  }
+
+  return instructions;
+}
+
+/** Longest example text quoted to the model, so a few long replies don't crowd the prompt. */
+const EXAMPLE_TEXT_LIMIT = 600;
+
+function buildExampleLines(examples: ReplyExampleText[]) {
+  const quote = (text: string) =>
+    redactPersonalData(text).slice(0, EXAMPLE_TEXT_LIMIT);
+
+  return [
+    "",
+    "",
+    "Replies the store owner wrote to similar reviews are below. Match their voice, phrasing and level of formality, but take facts only from the current review and context.",
+    ...examples.flatMap((example, index) => [
+      "",
+      `Example ${index + 1}${example.rating ? ` (${example.rating} out of 5)` : ""}`,
+      `Review: ${quote(example.review)}`,
+      `Reply: ${quote(example.reply)}`,
+    ]),
+  ].join("\n");
+}
+
+export function buildSystemPrompt(
+  options: ReplyOptions,
+  policy: ReplyPolicy = DEFAULT_REPLY_POLICY,
+  examples: ReplyExampleText[] = [],
+) {
+  const instructions = [
+    ...BASE_INSTRUCTIONS,
+    `Use a ${options.tone} tone.`,
+    LENGTH_INSTRUCTIONS[options.length],
+    `Write the reply in ${REPLY_LANGUAGES[options.language]}.`,
+    ...buildPolicyInstructions(policy),
+  ].join(" ");
+
+  return examples.length
+    ? `${instructions}${buildExampleLines(examples)}`
+    : instructions;
+}
+
+/**
+ * Enforces the parts of the shop's policy that can be applied to the text
+ * directly: the reply is cut back to whole sentences within `maxLength` and
+ * the sign-off is appended.
+ */
+export function applyReplyPolicy(body: string, policy: ReplyPolicy) {
+  const signOff = policy.signOff ? `\n\n${policy.signOff}` : "";
+  const limit = policy.maxLength - signOff.length;
+
+  let text = body.trim();
+  if (policy.signOff && text.endsWith(policy.signOff)) {
+    text = text.slice(0, -policy.signOff.length).trim();
+  }
+  if (text.length > limit) {
+    const cut = text.slice(0, limit);
+    const sentenceEnd = Math.max(
+      cut.lastIndexOf(". "),
+      cut.lastIndexOf("! "),
+      cut.lastIndexOf("? "),
+    );
+    text = sentenceEnd > 0 ? cut.slice(0, sentenceEnd + 1) : cut.trimEnd();
+  }
+
+  return `${text}${signOff}`;
+}
+
+export async function generateReply(
+  review: ReviewInput,
+  {
+    options = DEFAULT_REPLY_OPTIONS,
+    policy = DEFAULT_REPLY_POLICY,
+    product = null,
+    order = null,
+    templates = [],
+    discount = null,
+    feedback = null,
+    examples = [],
+  }: ReplyContext = {},
+  { onToken, signal }: ReplyStream = {},
+): Promise<GeneratedReply> {
+  // A reply regenerated with an instruction is revised, not restarted from a template.
+  const match = feedback
+    ? null
+    : selectTemplate(templates, review, {
+        product,
+        language: options.language,
+        discountCode: discount?.code ?? null,
+      });
+  const template = match && {
+    variantId: match.variantId,
+    name: match.name,
+    label: match.label,
+  };
+  if (match?.mode === "fixed") {
+    const body = applyReplyPolicy(match.body, policy);
+    onToken?.(body);
+
+    return {
+      body,
+      provider: "template",
+      options,
+      order,
+      template,
+      instruction: null,
+      usage: null,
+    };
+  }
+
+  const provider = getLLMProvider();
+  const { text, usage } = await provider.generateReply({
+    review,
+    options,
+    system: buildSystemPrompt(options, policy, examples),
+    prompt: buildReplyPrompt(
+      review,
+      product,
+      order,
+      match?.body,
+      discount,
+      feedback,
+    ),
+    onToken,
+    signal,
+  });
+
+  return {
+    body: applyReplyPolicy(text, policy),
+    provider: provider.name,
+    options,
+    order,
+    template,
+    instruction: feedback?.instruction ?? null,
+    usage,
+  };
+}
+
+/**
+ * Writes one reply per candidate style, each with the style's options laid
+ * over `context.options`. Templates are left out so the candidates differ.
+ */
+export async function generateCandidates(
+  review: ReviewInput,
+  context: ReplyContext = {},
+): Promise<{ style: CandidateStyle; reply: GeneratedReply }[]> {
+  const options = context.options ?? DEFAULT_REPLY_OPTIONS;
+  const styles = Object.keys(CANDIDATE_STYLES) as CandidateStyle[];
+
+  return Promise.all(
+    styles.map(async (style) => ({
+      style,
+      reply: await generateReply(review, {
+        ...context,
+        templates: [],
+        options: { ...options, ...CANDIDATE_STYLES[style].options },
+      }),
+    })),
+  );
+}
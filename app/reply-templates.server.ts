@@ -0,0 +1,144 @@
+import type { ReplyTemplate, ReplyTemplateVariant } from "@prisma/client";
+import { classifyWithRules } from "./classification-rules.server";
+import type { ProductContext } from "./product-context.server";
+import type { ReviewInput } from "./reply-generator.server";
+import {
+  TEMPLATE_VARIABLES,
+  type TemplateMode,
+  type TemplateVariable,
+} from "./reply-templates";
+
+export type TemplateCandidate = ReplyTemplate & {
+  variants: ReplyTemplateVariant[];
+};
+
+export interface TemplateMatch {
+  templateId: string;
+  name: string;
+  mode: TemplateMode;
+  variantId: string;
+  label: string;
+  /** The variant with its variables filled in. */
+  body: string;
+}
+
+export interface TemplateMatchContext {
+  product: ProductContext | null;
+  language: string;
+  discountCode: string | null;
+}
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Placeholders in `body` that aren't template variables, such as a typo. */
+export function findUnknownVariables(body: string) {
+  const names = [...body.matchAll(VARIABLE)].map(([, name]) => name);
+
+  return [...new Set(names)].filter(
+    (name) => !Object.hasOwn(TEMPLATE_VARIABLES, name),
+  );
+}
+
+/**
+ * Fills in `{{variable}}` placeholders. Returns null when the template uses a
+ * variable that has no value for this review, so it is never sent with a gap.
+ */
+export function renderTemplate(
+  body: string,
+  values: Partial<Record<TemplateVariable, string>>,
+) {
+  let complete = true;
+  const text = body.replace(VARIABLE, (placeholder, name: string) => {
+    const value = values[name as TemplateVariable];
+    if (!value) {
+      complete = false;
+    }
+
+    return value ?? placeholder;
+  });
+
+  return complete ? text : null;
+}
+
+function templateValues(review: ReviewInput, context: TemplateMatchContext) {
+  const [firstName] = review.reviewerName.trim().split(/\s+/);
+
+  return {
+    customer_first_name: firstName,
+    product_title: context.product?.title || review.productTitle,
+    rating: String(review.rating),
+    discount_code: context.discountCode ?? "",
+  };
+}
+
+function matches(
+  template: TemplateCandidate,
+  review: ReviewInput,
+  topics: string[],
+  context: TemplateMatchContext,
+) {
+  return (
+    review.rating >= template.minRating &&
+    review.rating <= template.maxRating &&
+    (!template.topic || topics.includes(template.topic)) &&
+    (!template.productTag ||
+      (context.product?.tags ?? []).some(
+        (tag) => tag.toLowerCase() === template.productTag?.toLowerCase(),
+      )) &&
+    (!template.language || template.language === context.language)
+  );
+}
+
+/** Templates with more conditions, then narrower rating ranges, win. */
+function specificity(template: TemplateCandidate) {
+  return (
+    [template.topic, template.productTag, template.language].filter(Boolean)
+      .length *
+      10 -
+    (template.maxRating - template.minRating)
+  );
+}
+
+/**
+ * Picks the most specific active template whose rules match the review, and
+ * one of its variants at random so variants can be compared. Variants whose
+ * variables can't all be filled are skipped.
+ */
+export function selectTemplate(
+  templates: TemplateCandidate[],
+  review: ReviewInput,
+  context: TemplateMatchContext,
+  random: () => number = Math.random,
+): TemplateMatch | null {
+  const topics = review.topics ?? classifyWithRules(review).topics;
+  const values = templateValues(review, context);
+  const candidates = templates
+    .filter(
+      (template) =>
+        template.active && matches(template, review, topics, context),
+    )
+    .sort((a, b) => specificity(b) - specificity(a));
+
+  for (const template of candidates) {
+    const variants = template.variants.flatMap((variant) => {
+      const body = renderTemplate(variant.body, values);
+
+      return body ? [{ variant, body }] : [];
+    });
+    if (variants.length) {
+      const { variant, body } =
+        variants[Math.floor(random() * variants.length)];
+
+      return {
+        templateId: template.id,
+        name: template.name,
+        mode: template.mode as TemplateMode,
+        variantId: variant.id,
+        label: variant.label,
+        body,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,20 @@
+export const TEMPLATE_MODES = {
+  seed: "Personalise with AI",
+  fixed: "Use as written",
+} as const;
+
+export type TemplateMode = keyof typeof TEMPLATE_MODES;
+
+/** Placeholders a template can use, written as `{{name}}`. */
+export const TEMPLATE_VARIABLES = {
+  customer_first_name: "The reviewer's first name",
+  product_title: "The product's title",
+  rating: "The star rating",
+  discount_code: "A discount code, when one is available",
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+export function isTemplateMode(value: unknown): value is TemplateMode {
+  return typeof value === "string" && Object.hasOwn(TEMPLATE_MODES, value);
+}
@@ -0,0 +1,49 @@
+import { classifyWithRules } from "./classification-rules.server";
+import { FLAGS, TOPICS, URGENCY_LEVELS } from "./classification";
+import type { ReviewClassification } from "./classification";
+import { RateLimitError } from "./llm/errors";
+import { getLLMProvider } from "./llm/index.server";
+import { recordTokenUsage } from "./models/usage.server";
+import { buildReplyPrompt, type ReviewInput } from "./reply-generator.server";
+
+const SYSTEM_PROMPT = [
+  "You triage customer product reviews for an online store's support team.",
+  'Respond with a JSON object with the keys "sentiment", "topics", "urgency" and "flags".',
+  '"sentiment" is one of "positive", "neutral" or "negative".',
+  `"topics" lists every topic the review discusses, chosen from: ${Object.keys(TOPICS).join(", ")}.`,
+  `"urgency" is one of ${URGENCY_LEVELS.map((level) => `"${level}"`).join(", ")}: high when the customer reports a safety problem or threatens a refund or chargeback over a bad experience, medium for other complaints, low otherwise.`,
+  `"flags" lists any of these that apply: ${Object.entries(FLAGS)
+    .map(([flag, label]) => `${flag} (${label.toLowerCase()})`)
+    .join(", ")}.`,
+].join(" ");
+
+/**
+ * Classifies a review with the configured provider, falling back to keyword
+ * rules when the model fails or returns something unusable. Rate limits are
+ * rethrown so background callers can back off instead of degrading quietly.
+ * The model's tokens count towards the shop's monthly usage.
+ */
+export async function classifyReview(
+  shop: string,
+  review: ReviewInput,
+): Promise<{ classification: ReviewClassification; classifiedBy: string }> {
+  const provider = getLLMProvider();
+
+  try {
+    const { classification, usage } = await provider.classifyReview({
+      review,
+      system: SYSTEM_PROMPT,
+      prompt: buildReplyPrompt(review),
+    });
+    await recordTokenUsage(shop, usage);
+
+    return { classification, classifiedBy: provider.name };
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
+    console.error("Review classification failed, using rules", error);
+
+    return { classification: classifyWithRules(review), classifiedBy: "rules" };
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv.server";
+
+const values = (text: string) => parseCsv(text).map(({ values }) => values);
+
+describe("parseCsv", () => {
+  it("keys each row by the header row", () => {
+    expect(values("rating,body\n5,Great\n1,Broken")).toEqual([
+      { rating: "5", body: "Great" },
+      { rating: "1", body: "Broken" },
+    ]);
+  });
+
+  it("reads quoted fields with commas, quotes and line breaks", () => {
+    expect(
+      values('title,body\n"Fit, size","He said ""wow""\nthen left"'),
+    ).toEqual([{ title: "Fit, size", body: 'He said "wow"\nthen left' }]);
+  });
+
+  it("handles CRLF line endings, a byte order mark and blank lines", () => {
+    expect(values("\uFEFFrating, body \r\n5,Great\r\n\r\n,\r\n")).toEqual([
+      { rating: "5", body: "Great" },
+    ]);
+  });
+
+  it("fills missing trailing fields with empty strings", () => {
+    expect(values("rating,body\n4")).toEqual([{ rating: "4", body: "" }]);
+  });
+
+  it("returns no rows for empty input", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+
+  it("numbers records by the line they start on", () => {
+    const text = [
+      "rating,body",
+      '5,"Two',
+      'lines"',
+      "",
+      "4,Fine",
+      '3,"Also\r\nsplit"',
+      "2,Last",
+    ].join("\r\n");
+
+    expect(parseCsv(text).map(({ line }) => line)).toEqual([2, 5, 6, 8]);
+  });
+});
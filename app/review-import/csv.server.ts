@@ -0,0 +1,86 @@
+export interface CsvRecord {
+  /** Line of the file the record starts on, counting the header as line 1. */
+  line: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Parses RFC 4180 CSV into one object per row, keyed by the header row.
+ * Handles quoted fields with embedded commas, quotes and newlines, CRLF line
+ * endings and a leading byte order mark, which covers the exports produced by
+ * the review platforms we import from. Each record keeps the line it starts
+ * on, so errors point at the right place even after multi-line fields.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const rows = parseRows(text.replace(/^\uFEFF/, ""));
+  const [header, ...records] = rows;
+  if (!header) {
+    return [];
+  }
+
+  return records
+    .filter(({ fields }) => fields.some((value) => value.trim() !== ""))
+    .map(({ line, fields }) => ({
+      line,
+      values: Object.fromEntries(
+        header.fields.map((column, index) => [
+          column.trim(),
+          fields[index] ?? "",
+        ]),
+      ),
+    }));
+}
+
+function parseRows(text: string) {
+  const rows: { line: number; fields: string[] }[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+      line++;
+    }
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+        line++;
+      }
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  return rows;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseImportFile } from "./index.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+const file = (name: string, text: string) => new File([text], name);
+
+describe("parseImportFile", () => {
+  it("numbers CSV records by their line in the file", async () => {
+    const records = await parseImportFile(
+      file("reviews.csv", 'rating,body\n5,"Great\nshirt"\n\n1,Broken'),
+    );
+
+    expect(records).toEqual([
+      { row: 2, values: { rating: "5", body: "Great\nshirt" } },
+      { row: 5, values: { rating: "1", body: "Broken" } },
+    ]);
+  });
+
+  it("marks JSON entries that are not objects", async () => {
+    const records = await parseImportFile(
+      file("reviews.json", '[{"rating":5}, null, [1], "x", {"rating":4}]'),
+    );
+
+    expect(records).toEqual([
+      { row: 1, values: { rating: 5 } },
+      { row: 2, values: null },
+      { row: 3, values: null },
+      { row: 4, values: null },
+      { row: 5, values: { rating: 4 } },
+    ]);
+  });
+
+  it("reads reviews nested under a reviews key", async () => {
+    const records = await parseImportFile(
+      file("export.json", '{"reviews":[{"rating":3}]}'),
+    );
+
+    expect(records).toEqual([{ row: 1, values: { rating: 3 } }]);
+  });
+
+  it("rejects JSON without a list of reviews", async () => {
+    await expect(
+      parseImportFile(file("export.json", '{"rating":3}')),
+    ).rejects.toThrow("JSON imports must be an array of reviews");
+  });
+});
@@ -0,0 +1,285 @@
+import { createHash } from "crypto";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  upsertImportedReviews,
+  type ImportedReview,
+} from "../models/review.server";
+import {
+  saveReplyExamples,
+  type ReplyExampleInput,
+} from "../models/reply-example.server";
+import { parseCsv } from "./csv.server";
+import {
+  detectPlatform,
+  mapRecord,
+  mapReplyPair,
+  type ImportField,
+  type ImportPlatform,
+} from "./platforms";
+import { createProductMatcher, type MatchedProduct } from "./products.server";
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportReport {
+  platform: ImportPlatform;
+  total: number;
+  created: number;
+  updated: number;
+  duplicates: number;
+  unmatchedProducts: number;
+  /** Reviews that came with the merchant's reply, stored as examples. */
+  examples: number;
+  errors: ImportRowError[];
+}
+
+export interface ExampleImportReport {
+  total: number;
+  saved: number;
+  errors: ImportRowError[];
+}
+
+interface ImportRecord {
+  /** Where the record is in the file: its CSV line or its JSON entry number. */
+  row: number;
+  /** Null for JSON entries that are not objects. */
+  values: Record<string, unknown> | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export async function parseImportFile(file: File): Promise<ImportRecord[]> {
+  const text = await file.text();
+  const isJson =
+    file.name.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+
+  if (!isJson) {
+    return parseCsv(text).map(({ line, values }) => ({ row: line, values }));
+  }
+
+  const json = JSON.parse(text);
+  const entries = Array.isArray(json) ? json : json?.reviews;
+  if (!Array.isArray(entries)) {
+    throw new Error("JSON imports must be an array of reviews");
+  }
+
+  return entries.map((entry: unknown, index) => ({
+    row: index + 1,
+    values: isRecord(entry) ? entry : null,
+  }));
+}
+
+/** Column names of the first usable record, for detecting the platform. */
+function firstColumns(records: ImportRecord[]) {
+  return Object.keys(records.find(({ values }) => values)?.values ?? {});
+}
+
+const NOT_AN_OBJECT = "Entry is not an object";
+
+function fingerprint(fields: Partial<Record<ImportField, string>>) {
+  const key = [
+    fields.productId ?? fields.productHandle ?? fields.sku ?? "",
+    fields.reviewerEmail ?? fields.reviewerName ?? "",
+    fields.rating ?? "",
+    fields.reviewedAt ?? "",
+    fields.body ?? "",
+  ].join("|");
+
+  return `sha1:${createHash("sha1").update(key).digest("hex")}`;
+}
+
+function parseDate(value: string | undefined) {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Why a mapped review can't be stored, or null when it can. */
+export function validateImportFields(
+  fields: Partial<Record<ImportField, string>>,
+) {
+  const rating = Math.round(Number(fields.rating));
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return "Rating must be between 1 and 5";
+  }
+  if (!fields.body && !fields.title) {
+    return "Review has no title or text";
+  }
+
+  return null;
+}
+
+/**
+ * Builds the review to store from validated fields. Reviews without a
+ * platform ID get a fingerprint so the same review is recognised next time.
+ */
+export function toImportedReview(
+  fields: Partial<Record<ImportField, string>>,
+  product: MatchedProduct | null,
+): ImportedReview {
+  return {
+    externalId: fields.externalId || fingerprint(fields),
+    productId: product?.id ?? null,
+    productTitle: product?.title ?? fields.productTitle ?? null,
+    reviewerName: fields.reviewerName ?? null,
+    reviewerEmail: fields.reviewerEmail ?? null,
+    rating: Math.round(Number(fields.rating)),
+    title: fields.title ?? null,
+    body: fields.body ?? "",
+    reviewedAt: parseDate(fields.reviewedAt),
+  };
+}
+
+export async function importReviews(
+  admin: AdminApiContext,
+  shop: string,
+  file: File,
+  platformOverride: ImportPlatform | null,
+): Promise<ImportReport> {
+  const records = await parseImportFile(file);
+  const platform = platformOverride ?? detectPlatform(firstColumns(records));
+  if (!platform) {
+    throw new Error(
+      "We couldn't recognise the columns in this file. Choose the platform it was exported from and try again.",
+    );
+  }
+
+  const rows = records.map(({ row, values }) => ({
+    row,
+    fields: values && mapRecord(platform, values),
+  }));
+  const matchProduct = await createProductMatcher(
+    admin,
+    rows.flatMap(({ fields }) => (fields ? [fields] : [])),
+  );
+
+  const report: ImportReport = {
+    platform,
+    total: rows.length,
+    created: 0,
+    updated: 0,
+    duplicates: 0,
+    unmatchedProducts: 0,
+    examples: 0,
+    errors: [],
+  };
+  const reviews: ImportedReview[] = [];
+  const replies: (string | undefined)[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach(({ row, fields }) => {
+    if (!fields) {
+      report.errors.push({ row, message: NOT_AN_OBJECT });
+      return;
+    }
+    const error = validateImportFields(fields);
+    if (error) {
+      report.errors.push({ row, message: error });
+      return;
+    }
+
+    const product = matchProduct(fields);
+    const review = toImportedReview(fields, product);
+    if (seen.has(review.externalId)) {
+      report.duplicates++;
+      return;
+    }
+    seen.add(review.externalId);
+
+    if (!product) {
+      report.unmatchedProducts++;
+    }
+
+    reviews.push(review);
+    replies.push(fields.reply);
+  });
+
+  const { created, updated, ids } = await upsertImportedReviews(
+    shop,
+    platform,
+    reviews,
+  );
+  const examples = reviews.flatMap((review, index) => {
+    const reply = replies[index];
+
+    return reply
+      ? [
+          toReplyExample(platform, review.externalId, {
+            reviewId: ids[index],
+            rating: review.rating,
+            reviewTitle: review.title ?? null,
+            reviewBody: review.body,
+            replyBody: reply,
+          }),
+        ]
+      : [];
+  });
+  await saveReplyExamples(shop, examples);
+
+  return { ...report, created, updated, examples: examples.length };
+}
+
+function toReplyExample(
+  source: string,
+  id: string,
+  example: Omit<ReplyExampleInput, "key">,
+): ReplyExampleInput {
+  return { key: `${source}:${id}`, ...example };
+}
+
+/**
+ * Stores past reviews and the merchant's replies as examples for new replies,
+ * without adding the reviews themselves. Takes a platform export with a reply
+ * column, or any file with review and reply columns.
+ */
+export async function importReplyExamples(
+  shop: string,
+  file: File,
+): Promise<ExampleImportReport> {
+  const records = await parseImportFile(file);
+  const platform = detectPlatform(firstColumns(records));
+
+  const errors: ImportRowError[] = [];
+  const examples = new Map<string, ReplyExampleInput>();
+  records.forEach(({ row, values }) => {
+    if (!values) {
+      errors.push({ row, message: NOT_AN_OBJECT });
+      return;
+    }
+    const fields = platform
+      ? mapRecord(platform, values)
+      : mapReplyPair(values);
+    if (!fields.body && !fields.title) {
+      errors.push({ row, message: "Row has no review text" });
+      return;
+    }
+    if (!fields.reply) {
+      errors.push({ row, message: "Row has no reply" });
+      return;
+    }
+
+    const rating = Math.round(Number(fields.rating));
+    const example = {
+      reviewerEmail: fields.reviewerEmail ?? null,
+      rating: rating >= 1 && rating <= 5 ? rating : null,
+      reviewTitle: fields.title ?? null,
+      reviewBody: fields.body ?? "",
+      replyBody: fields.reply,
+    };
+    const id = platform
+      ? fields.externalId || fingerprint(fields)
+      : `sha1:${createHash("sha1").update(`${example.reviewBody}|${example.replyBody}`).digest("hex")}`;
+    examples.set(id, toReplyExample(platform ?? "file", id, example));
+  });
+
+  await saveReplyExamples(shop, [...examples.values()]);
+
+  return { total: records.length, saved: examples.size, errors };
+}
@@ -0,0 +1,168 @@
+export const IMPORT_PLATFORMS = {
+  judgeme: "Judge.me",
+  yotpo: "Yotpo",
+  loox: "Loox",
+  okendo: "Okendo",
+  shopify: "Shopify Product Reviews",
+} as const;
+
+export type ImportPlatform = keyof typeof IMPORT_PLATFORMS;
+
+export type ImportField =
+  | "externalId"
+  | "productId"
+  | "productHandle"
+  | "sku"
+  | "productTitle"
+  | "reviewerName"
+  | "reviewerEmail"
+  | "rating"
+  | "title"
+  | "body"
+  | "reviewedAt"
+  | "reply";
+
+type ColumnMap = Partial<Record<ImportField, string[]>>;
+
+/**
+ * Column names each platform uses in its review export, normalised with
+ * `normalizeColumn`. The first alias present in a file wins.
+ */
+const COLUMNS: Record<ImportPlatform, ColumnMap> = {
+  judgeme: {
+    externalId: ["id", "reviewid"],
+    productId: ["productid"],
+    productHandle: ["producthandle"],
+    productTitle: ["producttitle"],
+    reviewerName: ["reviewername"],
+    reviewerEmail: ["revieweremail"],
+    rating: ["rating"],
+    title: ["title"],
+    body: ["body"],
+    reviewedAt: ["reviewdate", "createdat"],
+    reply: ["reply"],
+  },
+  yotpo: {
+    externalId: ["reviewid", "id"],
+    productId: ["productid", "domainkey"],
+    sku: ["sku", "productsku"],
+    productTitle: ["producttitle"],
+    reviewerName: ["displayname", "username", "reviewername"],
+    reviewerEmail: ["email", "useremail"],
+    rating: ["reviewscore", "score"],
+    title: ["reviewtitle", "title"],
+    body: ["reviewcontent", "content"],
+    reviewedAt: ["date", "createdat"],
+    reply: ["publiccomment"],
+  },
+  loox: {
+    externalId: ["id"],
+    productId: ["productid"],
+    productHandle: ["handle", "producthandle"],
+    reviewerName: ["fullname", "nickname"],
+    reviewerEmail: ["email"],
+    rating: ["rating"],
+    body: ["review"],
+    reviewedAt: ["date"],
+    reply: ["reply"],
+  },
+  okendo: {
+    externalId: ["reviewid"],
+    productId: ["productid"],
+    productHandle: ["producthandle"],
+    sku: ["variantsku", "sku"],
+    productTitle: ["productname", "producttitle"],
+    reviewerName: ["reviewername", "reviewerdisplayname"],
+    reviewerEmail: ["revieweremail"],
+    rating: ["rating"],
+    title: ["title", "reviewtitle"],
+    body: ["body", "reviewbody"],
+    reviewedAt: ["datecreated", "createdat"],
+    reply: ["reply"],
+  },
+  shopify: {
+    productHandle: ["producthandle"],
+    reviewerName: ["author"],
+    reviewerEmail: ["email"],
+    rating: ["rating"],
+    title: ["title"],
+    body: ["body"],
+    reviewedAt: ["createdat"],
+    reply: ["reply"],
+  },
+};
+
+/** Columns of a plain file of past reviews and the replies written to them. */
+const REPLY_PAIR_COLUMNS: ColumnMap = {
+  rating: ["rating", "stars", "score"],
+  title: ["title", "reviewtitle"],
+  body: ["review", "body", "reviewbody", "reviewtext"],
+  reply: ["reply", "response", "replybody", "replytext"],
+  reviewerEmail: ["email", "revieweremail"],
+};
+
+/** Columns that only one platform's export contains. */
+const SIGNATURES: Record<ImportPlatform, string[]> = {
+  judgeme: ["reviewername", "curated", "reviewdate", "metaobjecthandle"],
+  yotpo: ["reviewscore", "reviewcontent", "domainkey", "displayname"],
+  loox: ["nickname", "fullname", "img", "verifiedpurchase"],
+  okendo: ["reviewerdisplayname", "datecreated", "productname", "variantsku"],
+  shopify: ["author", "state", "location", "repliedat"],
+};
+
+export function normalizeColumn(column: string) {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function isImportPlatform(value: unknown): value is ImportPlatform {
+  return typeof value === "string" && value in IMPORT_PLATFORMS;
+}
+
+export function detectPlatform(columns: string[]): ImportPlatform | null {
+  const normalized = new Set(columns.map(normalizeColumn));
+
+  let best: ImportPlatform | null = null;
+  let bestScore = 0;
+  for (const [platform, signature] of Object.entries(SIGNATURES)) {
+    const score = signature.filter((column) => normalized.has(column)).length;
+    if (score > bestScore) {
+      best = platform as ImportPlatform;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function mapColumns(
+  columns: ColumnMap,
+  record: Record<string, unknown>,
+): Partial<Record<ImportField, string>> {
+  const values = new Map(
+    Object.entries(record).map(([column, value]) => [
+      normalizeColumn(column),
+      value == null ? "" : String(value).trim(),
+    ]),
+  );
+
+  const mapped: Partial<Record<ImportField, string>> = {};
+  for (const [field, aliases] of Object.entries(columns)) {
+    const alias = aliases.find((candidate) => values.get(candidate));
+    if (alias) {
+      mapped[field as ImportField] = values.get(alias);
+    }
+  }
+
+  return mapped;
+}
+
+export function mapRecord(
+  platform: ImportPlatform,
+  record: Record<string, unknown>,
+) {
+  return mapColumns(COLUMNS[platform], record);
+}
+
+export function mapReplyPair(record: Record<string, unknown>) {
+  return mapColumns(REPLY_PAIR_COLUMNS, record);
+}
@@ -0,0 +1,127 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+export interface MatchedProduct {
+  id: string;
+  title: string;
+}
+
+export interface ProductKeys {
+  productId?: string;
+  productHandle?: string;
+  sku?: string;
+}
+
+const BATCH_SIZE = 50;
+
+function chunk<T>(items: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
+}
+
+function searchQuery(field: string, values: string[]) {
+  return values
+    .map((value) => `${field}:"${value.replace(/"/g, '\\"')}"`)
+    .join(" OR ");
+}
+
+function toProductGid(id: string) {
+  return id.startsWith("gid://") ? id : `gid://shopify/Product/${id}`;
+}
+
+/**
+ * Resolves the product identifiers found in an import to Shopify products,
+ * batching lookups so a large file costs a handful of Admin API calls.
+ */
+export async function createProductMatcher(
+  admin: AdminApiContext,
+  rows: ProductKeys[],
+) {
+  const unique = (key: keyof ProductKeys) =>
+    [
+      ...new Set(rows.map((row) => row[key]).filter((value) => !!value)),
+    ] as string[];
+
+  const byId = new Map<string, MatchedProduct>();
+  const byHandle = new Map<string, MatchedProduct>();
+  const bySku = new Map<string, MatchedProduct>();
+
+  for (const ids of chunk(unique("productId").map(toProductGid), BATCH_SIZE)) {
+    const response = await admin.graphql(
+      `#graphql
+      query importProductsById($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Product {
+            id
+            title
+          }
+        }
+      }`,
+      { variables: { ids } },
+    );
+    const { data } = await response.json();
+    for (const node of data?.nodes ?? []) {
+      if (node?.id) {
+        byId.set(node.id, { id: node.id, title: node.title });
+      }
+    }
+  }
+
+  for (const handles of chunk(unique("productHandle"), BATCH_SIZE)) {
+    const response = await admin.graphql(
+      `#graphql
+      query importProductsByHandle($query: String!, $first: Int!) {
+        products(first: $first, query: $query) {
+          nodes {
+            id
+            title
+            handle
+          }
+        }
+      }`,
+      {
+        variables: {
+          query: searchQuery("handle", handles),
+          first: handles.length,
+        },
+      },
+    );
+    const { data } = await response.json();
+    for (const node of data?.products?.nodes ?? []) {
+      byHandle.set(node.handle, { id: node.id, title: node.title });
+    }
+  }
+
+  for (const skus of chunk(unique("sku"), BATCH_SIZE)) {
+    const response = await admin.graphql(
+      `#graphql
+      query importVariantsBySku($query: String!, $first: Int!) {
+        productVariants(first: $first, query: $query) {
+          nodes {
+            sku
+            product {
+              id
+              title
+            }
+          }
+        }
+      }`,
+      { variables: { query: searchQuery("sku", skus), first: skus.length } },
+    );
+    const { data } = await response.json();
+    for (const node of data?.productVariants?.nodes ?? []) {
+      if (node.sku) {
+        bySku.set(node.sku, { id: node.product.id, title: node.product.title });
+      }
+    }
+  }
+
+  return (keys: ProductKeys): MatchedProduct | null =>
+    (keys.productId && byId.get(toProductGid(keys.productId))) ||
+    (keys.productHandle && byHandle.get(keys.productHandle)) ||
+    (keys.sku && bySku.get(keys.sku)) ||
+    null;
+}
@@ -0,0 +1,62 @@
+import { createHmac } from "crypto";
+import { describe, expect, it, vi } from "vitest";
+import { parseWebhookPayload, verifySignature } from "./webhook.server";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+const SECRET = "test-secret";
+const BODY = JSON.stringify({ id: "review-1", rating: 5 });
+
+function sign(body: string, encoding: "hex" | "base64") {
+  return createHmac("sha256", SECRET).update(body).digest(encoding);
+}
+
+describe("verifySignature", () => {
+  it("accepts hex and base64 signatures of the body", () => {
+    expect(verifySignature(SECRET, BODY, sign(BODY, "hex"))).toBe(true);
+    expect(verifySignature(SECRET, BODY, sign(BODY, "base64"))).toBe(true);
+  });
+
+  it("accepts a sha256= prefix and uppercase hex", () => {
+    expect(
+      verifySignature(
+        SECRET,
+        BODY,
+        `sha256=${sign(BODY, "hex").toUpperCase()}`,
+      ),
+    ).toBe(true);
+  });
+
+  it("rejects a missing signature", () => {
+    expect(verifySignature(SECRET, BODY, null)).toBe(false);
+    expect(verifySignature(SECRET, BODY, "")).toBe(false);
+  });
+
+  it("rejects a signature of another body or with another secret", () => {
+    expect(verifySignature(SECRET, BODY, sign(`${BODY} `, "hex"))).toBe(false);
+    expect(verifySignature("other-secret", BODY, sign(BODY, "hex"))).toBe(
+      false,
+    );
+  });
+
+  it("rejects signatures of the wrong length", () => {
+    expect(verifySignature(SECRET, BODY, sign(BODY, "hex").slice(0, 32))).toBe(
+      false,
+    );
+    expect(verifySignature(SECRET, BODY, "not a signature")).toBe(false);
+  });
+});
+
+describe("parseWebhookPayload", () => {
+  it("returns the object in the body", () => {
+    expect(parseWebhookPayload('{"event":"review/created"}')).toEqual({
+      event: "review/created",
+    });
+  });
+
+  it("rejects bodies that are not a JSON object", () => {
+    for (const body of ["null", "[]", '[{"rating":5}]', '"x"', "5", "{"]) {
+      expect(parseWebhookPayload(body)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  createGenerationJob,
+  isReviewQueued,
+} from "../models/generation-job.server";
+import { getReview, upsertImportedReview } from "../models/review.server";
+import {
+  getDefaultReplyOptions,
+  getReplyPolicy,
+} from "../models/settings.server";
+import { toImportedReview, validateImportFields } from "./index.server";
+import { IMPORT_PLATFORMS, mapRecord, type ImportPlatform } from "./platforms";
+import { createProductMatcher } from "./products.server";
+
+/** Hex or base64 HMAC-SHA256 of the raw body, optionally `sha256=` prefixed. */
+export const SIGNATURE_HEADER = "X-Review-Signature";
+
+/** The platform's ID for the delivery, repeated when it retries. */
+export const DELIVERY_HEADER = "X-Review-Delivery";
+
+export function verifySignature(
+  secret: string,
+  body: string,
+  signature: string | null,
+) {
+  if (!signature) {
+    return false;
+  }
+
+  const digest = createHmac("sha256", secret).update(body).digest();
+  const value = signature.replace(/^sha256=/, "").trim();
+  const received = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, "hex")
+    : Buffer.from(value, "base64");
+
+  return received.length === digest.length && timingSafeEqual(received, digest);
+}
+
+/** Identifies a delivery by its header, or by its body when there is none. */
+export function getDeliveryId(request: Request, body: string) {
+  return (
+    request.headers.get(DELIVERY_HEADER) ??
+    `sha256:${createHash("sha256").update(body).digest("hex")}`
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** The JSON object in a webhook body, or null when the body isn't one. */
+export function parseWebhookPayload(body: string) {
+  try {
+    const payload: unknown = JSON.parse(body);
+
+    return isRecord(payload) ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lifts nested objects one level up, so `{reviewer: {email}}` maps like a
+ * `reviewer_email` export column.
+ */
+function flatten(record: Record<string, unknown>) {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (isRecord(value)) {
+      for (const [nestedKey, nested] of Object.entries(value)) {
+        flat[`${key}_${nestedKey}`] = nested;
+      }
+    } else {
+      flat[key] = value;
+    }
+  }
+
+  return flat;
+}
+
+export type ReviewWebhookResult =
+  | { error: string }
+  | { reviewId: string | null; created: boolean; queued: boolean };
+
+/**
+ * Stores the review a platform sent and queues a reply for it if it has none.
+ * With the shop's auto-publish rule on, replies to 5-star reviews are
+ * published once they pass every check.
+ */
+export async function receiveReviewWebhook(
+  admin: AdminApiContext,
+  shop: string,
+  platform: ImportPlatform,
+  payload: Record<string, unknown>,
+): Promise<ReviewWebhookResult> {
+  const event = String(payload.event ?? payload.topic ?? "");
+  if (/delet/i.test(event)) {
+    return { reviewId: null, created: false, queued: false };
+  }
+
+  const record = isRecord(payload.review) ? payload.review : payload;
+  const fields = mapRecord(platform, flatten(record));
+  const error = validateImportFields(fields);
+  if (error) {
+    return { error };
+  }
+
+  const matchProduct = await createProductMatcher(admin, [fields]);
+  const { review, created } = await upsertImportedReview(
+    shop,
+    platform,
+    toImportedReview(fields, matchProduct(fields)),
+  );
+
+  const stored = await getReview(shop, review.id);
+  if (stored?.drafts.length || (await isReviewQueued(review.id))) {
+    return { reviewId: review.id, created, queued: false };
+  }
+
+  const policy = await getReplyPolicy(shop);
+  await createGenerationJob(
+    shop,
+    [review.id],
+    { ...getDefaultReplyOptions(policy), language: null },
+    `${IMPORT_PLATFORMS[platform]} webhook`,
+    policy.autoPublishFiveStar && review.rating === 5,
+  );
+
+  return { reviewId: review.id, created, queued: true };
+}
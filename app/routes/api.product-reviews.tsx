@@ -0,0 +1,141 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { generateReply } from "../reply-generator.server";
+import { loadReplyContext } from "../reply-context.server";
+import { QuotaExceededError, withinQuota } from "../quota.server";
+import {
+  getReview,
+  listProductReviews,
+  toReviewInput,
+} from "../models/review.server";
+import {
+  saveEditedReply,
+  saveGeneratedReply,
+  transitionReply,
+} from "../models/reply.server";
+import {
+  getDefaultReplyOptions,
+  getReplyPolicy,
+} from "../models/settings.server";
+import { canApprove } from "../approvals.server";
+import { getSessionUser } from "../session-user.server";
+
+/** Reviews shown in the product page block; the rest are in the app. */
+const REVIEW_LIMIT = 10;
+
+/**
+ * Backs the product details block in `extensions/review-replies`. Requests
+ * carry the admin session token, which `authenticate.admin` verifies, and get
+ * CORS headers so the extension can read the responses.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, cors } = await authenticate.admin(request);
+
+  const productId = new URL(request.url).searchParams.get("productId");
+  if (!productId) {
+    return cors(Response.json({ error: "Missing productId" }, { status: 400 }));
+  }
+
+  const [reviews, policy] = await Promise.all([
+    listProductReviews(session.shop, productId, REVIEW_LIMIT),
+    getReplyPolicy(session.shop),
+  ]);
+
+  return cors(
+    Response.json({
+      reviews: reviews.map((review) => ({
+        id: review.id,
+        rating: review.rating,
+        reviewerName: review.reviewerName,
+        title: review.title,
+        body: review.body,
+        draft: review.latestDraft,
+      })),
+      requireApproval: policy.requireApproval,
+      canApprove: canApprove(session, policy),
+    }),
+  );
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session, cors } = await authenticate.admin(request);
+  const { shop } = session;
+  const editedBy = getSessionUser(session);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const review = await getReview(shop, String(formData.get("reviewId") ?? ""));
+  if (!review) {
+    return cors(Response.json({ error: "Review not found" }, { status: 404 }));
+  }
+  const draft = review.drafts[0];
+
+  switch (intent) {
+    case "generate": {
+      try {
+        await withinQuota(shop, async () => {
+          const context = await loadReplyContext(admin, session, review);
+          const reply = await generateReply(toReviewInput(review), {
+            ...context,
+            options: getDefaultReplyOptions(context.policy, review.language),
+          });
+          await saveGeneratedReply(shop, review.id, reply, editedBy);
+        });
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return cors(Response.json({ error: error.message }));
+        }
+        console.error(error);
+
+        return cors(
+          Response.json({
+            error: "The reply could not be generated. Please try again.",
+          }),
+        );
+      }
+
+      return cors(Response.json({ error: null }));
+    }
+    case "save": {
+      const body = String(formData.get("body") ?? "").trim();
+      if (!draft || !body) {
+        return cors(Response.json({ error: "The reply cannot be empty" }));
+      }
+      await saveEditedReply(shop, draft.id, body, editedBy);
+
+      return cors(Response.json({ error: null }));
+    }
+    case "submit":
+    case "approve": {
+      const policy = await getReplyPolicy(shop);
+      if (intent === "approve" && !canApprove(session, policy)) {
+        return cors(
+          Response.json({ error: "Only approvers can approve replies" }),
+        );
+      }
+      if (
+        intent === "approve" &&
+        policy.requireApproval &&
+        draft?.status === "draft"
+      ) {
+        return cors(
+          Response.json({ error: "Submit the reply for approval first" }),
+        );
+      }
+      if (
+        !draft ||
+        !(await transitionReply(shop, draft.id, intent, editedBy))
+      ) {
+        return cors(
+          Response.json({
+            error: "The reply has changed. Reload and try again.",
+          }),
+        );
+      }
+
+      return cors(Response.json({ error: null }));
+    }
+    default:
+      return cors(Response.json({ error: "Unknown action" }, { status: 400 }));
+  }
+};
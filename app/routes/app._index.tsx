@@ -1,249 +1,415 @@
-import { useEffect } from "react";
 import type {
   ActionFunctionArgs,
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { useFetcher } from "react-router";
+import { useState } from "react";
+import { Form, useFetcher, useLoaderData, useLocation } from "react-router";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  parseReviewInput,
+  type ReviewInputErrors,
+} from "../reply-generator.server";
+import { parseReplyOptions } from "../llm/options";
+import {
+  createReview,
+  listReviews,
+  parseReviewFilters,
+} from "../models/review.server";
+import { FLAGS, SENTIMENTS, TOPICS } from "../classification";
+import { getQuota } from "../quota.server";
+import {
+  getReviewTotals,
+  parseAnalyticsFilters,
+} from "../models/analytics.server";
+import { createGenerationJob } from "../models/generation-job.server";
+import {
+  getDefaultReplyOptions,
+  getReplyPolicy,
+} from "../models/settings.server";
+import { getSessionUser } from "../session-user.server";
+import { ReplyOptionsFields } from "../components/ReplyOptionsFields";
+import { ReplyStatusBadge } from "../components/ReplyStatusBadge";
+import { ClassificationBadges } from "../components/ClassificationBadges";
+import { QuotaBanner } from "../components/QuotaBanner";
+import { formatDate, useMerchantLocale } from "../locale";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
-  return null;
+  const filters = parseReviewFilters(new URL(request.url).searchParams);
+  const [{ reviews, page, pageCount, total }, policy, quota, summary] =
+    await Promise.all([
+      listReviews(session.shop, filters),
+      getReplyPolicy(session.shop),
+      getQuota(session.shop),
+      getReviewTotals(
+        session.shop,
+        parseAnalyticsFilters(new URLSearchParams()),
+      ),
+    ]);
+
+  return {
+    reviews,
+    page,
+    pageCount,
+    total,
+    filters,
+    defaultOptions: getDefaultReplyOptions(policy),
+    matchReviewLanguage: policy.matchReviewLanguage,
+    quota,
+    summary,
+  };
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
-  const color = ["Red", "Orange", "Yellow", "Green"][
-    Math.floor(Math.random() * 4)
-  ];
-  const response = await admin.graphql(
-    `#graphql
-      mutation populateProduct($product: ProductCreateInput!) {
-        productCreate(product: $product) {
-          product {
-            id
-            title
-            handle
-            status
-            variants(first: 10) {
-              edges {
-                node {
-                  id
-                  price
-                  barcode
-                  createdAt
-                }
-              }
-            }
-          }
-        }
-      }`,
-    {
-      variables: {
-        product: {
-          title: `${color} Snowboard`,
-        },
-      },
-    },
-  );
-  const responseJson = await response.json();
-
-  const product = responseJson.data!.productCreate!.product!;
-  const variantId = product.variants.edges[0]!.node!.id!;
-
-  const variantResponse = await admin.graphql(
-    `#graphql
-    mutation shopifyReactRouterTemplateUpdateVariant($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
-      productVariantsBulkUpdate(productId: $productId, variants: $variants) {
-        productVariants {
-          id
-          price
-          barcode
-          createdAt
-        }
-      }
-    }`,
-    {
-      variables: {
-        productId: product.id,
-        variants: [{ id: variantId, price: "100.00" }],
+  const { session, redirect } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "batch") {
+    const reviewIds = formData.getAll("reviewId").map(String);
+    if (!reviewIds.length) {
+      const errors: ReviewInputErrors = { form: "Select at least one review" };
+
+      return { errors };
+    }
+    // Each item still takes its reply from the quota when it runs, so
+    // batches started side by side can't go over the plan together.
+    const { remaining } = await getQuota(session.shop);
+    if (reviewIds.length > remaining) {
+      const errors: ReviewInputErrors = {
+        form: `Your plan has ${remaining} replies left this month. Select fewer reviews or upgrade your plan.`,
+      };
+
+      return { errors };
+    }
+
+    const policy = await getReplyPolicy(session.shop);
+    const options = parseReplyOptions(formData, getDefaultReplyOptions(policy));
+    const job = await createGenerationJob(
+      session.shop,
+      reviewIds,
+      {
+        ...options,
+        language: formData.get("language") ? options.language : null,
       },
-    },
-  );
+      getSessionUser(session),
+    );
 
-  const variantResponseJson = await variantResponse.json();
+    return redirect(`/app/jobs/${job.id}`);
+  }
 
-  return {
-    product: responseJson!.data!.productCreate!.product,
-    variant:
-      variantResponseJson!.data!.productVariantsBulkUpdate!.productVariants,
-  };
+  const { review: input, errors } = parseReviewInput(formData);
+  if (Object.keys(errors).length) {
+    return { errors };
+  }
+
+  const review = await createReview(session.shop, input);
+  // The review page streams the reply with the options chosen here.
+  const generate = new URLSearchParams({ generate: "1" });
+  for (const name of ["tone", "length", "language"]) {
+    generate.set(name, String(formData.get(name) ?? ""));
+  }
+
+  return redirect(`/app/reviews/${review.id}?${generate}`);
 };
 
 export default function Index() {
+  const {
+    reviews,
+    page,
+    pageCount,
+    total,
+    filters,
+    defaultOptions,
+    matchReviewLanguage,
+    quota,
+    summary,
+  } = useLoaderData<typeof loader>();
+  const locale = useMerchantLocale();
+  const location = useLocation();
   const fetcher = useFetcher<typeof action>();
-
+  const batchFetcher = useFetcher<typeof action>();
   const shopify = useAppBridge();
-  const isLoading =
-    ["loading", "submitting"].includes(fetcher.state) &&
-    fetcher.formMethod === "POST";
+  const [selected, setSelected] = useState<string[]>([]);
+  const [product, setProduct] = useState<{ id: string; title: string } | null>(
+    null,
+  );
+
+  const toggleSelected = (id: string) =>
+    setSelected((current) =>
+      current.includes(id)
+        ? current.filter((selectedId) => selectedId !== id)
+        : [...current, id],
+    );
+  const selectWithoutReply = () =>
+    setSelected(
+      reviews.filter((review) => !review.latestDraft).map(({ id }) => id),
+    );
+  const pageHref = (target: number) => {
+    const params = new URLSearchParams(location.search);
+    params.set("page", String(target));
+
+    return `${location.pathname}?${params}`;
+  };
 
-  useEffect(() => {
-    if (fetcher.data?.product?.id) {
-      shopify.toast.show("Product created");
+  const selectProduct = async () => {
+    const selection = await shopify.resourcePicker({
+      type: "product",
+      action: "select",
+    });
+    if (selection?.[0]) {
+      setProduct({ id: selection[0].id, title: selection[0].title });
     }
-  }, [fetcher.data?.product?.id, shopify]);
+  };
 
-  const generateProduct = () => fetcher.submit({}, { method: "POST" });
+  const isLoading =
+    ["loading", "submitting"].includes(fetcher.state) &&
+    fetcher.formMethod === "POST";
+  const errors: ReviewInputErrors = fetcher.data?.errors ?? {};
 
   return (
-    <s-page heading="Shopify app template">
-      <s-button slot="primary-action" onClick={generateProduct}>
-        Generate a product
-      </s-button>
-
-      <s-section heading="Congrats on creating a new Shopify app 🎉">
-        <s-paragraph>
-          This embedded app template uses{" "}
-          <s-link
-            href="https://shopify.dev/docs/apps/tools/app-bridge"
-            target="_blank"
-          >
-            App Bridge
-          </s-link>{" "}
-          interface examples like an{" "}
-          <s-link href="/app/additional">additional page in the app nav</s-link>
-          , as well as an{" "}
-          <s-link
-            href="https://shopify.dev/docs/api/admin-graphql"
-            target="_blank"
-          >
-            Admin GraphQL
-          </s-link>{" "}
-          mutation demo, to provide a starting point for app development.
-        </s-paragraph>
-      </s-section>
-      <s-section heading="Get started with products">
-        <s-paragraph>
-          Generate a product with GraphQL and get the JSON output for that
-          product. Learn more about the{" "}
-          <s-link
-            href="https://shopify.dev/docs/api/admin-graphql/latest/mutations/productCreate"
-            target="_blank"
-          >
-            productCreate
-          </s-link>{" "}
-          mutation in our API references.
-        </s-paragraph>
-        <s-stack direction="inline" gap="base">
-          <s-button
-            onClick={generateProduct}
-            {...(isLoading ? { loading: true } : {})}
-          >
-            Generate a product
-          </s-button>
-          {fetcher.data?.product && (
-            <s-button
-              onClick={() => {
-                shopify.intents.invoke?.("edit:shopify/Product", {
-                  value: fetcher.data?.product?.id,
-                });
-              }}
-              target="_blank"
-              variant="tertiary"
-            >
-              Edit product
-            </s-button>
-          )}
-        </s-stack>
-        {fetcher.data?.product && (
-          <s-section heading="productCreate mutation">
+    <s-page heading="AI Review Reply Generator">
+      <QuotaBanner quota={quota} />
+      {reviews.length > 0 && (
+        <s-section heading="Generate replies in bulk">
+          <batchFetcher.Form method="post">
+            <input type="hidden" name="intent" value="batch" />
+            {selected.map((id) => (
+              <input key={id} type="hidden" name="reviewId" value={id} />
+            ))}
             <s-stack direction="block" gap="base">
-              <s-box
-                padding="base"
-                borderWidth="base"
-                borderRadius="base"
-                background="subdued"
-              >
-                <pre style={{ margin: 0 }}>
-                  <code>{JSON.stringify(fetcher.data.product, null, 2)}</code>
-                </pre>
-              </s-box>
+              {batchFetcher.data?.errors.form && (
+                <s-banner tone="critical">
+                  {batchFetcher.data.errors.form}
+                </s-banner>
+              )}
+              <s-paragraph>
+                {`${selected.length} of ${total} reviews selected. Replies are generated in the background, so you can leave this page.`}
+              </s-paragraph>
+              <ReplyOptionsFields
+                defaults={defaultOptions}
+                matchReview={matchReviewLanguage}
+              />
+              <s-stack direction="inline" gap="base">
+                <s-button
+                  type="submit"
+                  variant="primary"
+                  disabled={!selected.length}
+                  {...(batchFetcher.state !== "idle" ? { loading: true } : {})}
+                >
+                  Generate replies
+                </s-button>
+                <s-button onClick={selectWithoutReply}>
+                  Select reviews without a reply
+                </s-button>
+                <s-button variant="tertiary" onClick={() => setSelected([])}>
+                  Clear selection
+                </s-button>
+              </s-stack>
+            </s-stack>
+          </batchFetcher.Form>
+        </s-section>
+      )}
 
-              <s-heading>productVariantsBulkUpdate mutation</s-heading>
-              <s-box
-                padding="base"
-                borderWidth="base"
-                borderRadius="base"
-                background="subdued"
+      <s-section heading="Reviews" padding="none">
+        <s-box padding="base">
+          <Form method="get">
+            <s-stack direction="inline" gap="base" alignItems="end">
+              <s-select
+                name="sentiment"
+                label="Sentiment"
+                value={filters.sentiment ?? ""}
               >
-                <pre style={{ margin: 0 }}>
-                  <code>{JSON.stringify(fetcher.data.variant, null, 2)}</code>
-                </pre>
-              </s-box>
+                <s-option value="">All</s-option>
+                {SENTIMENTS.map((sentiment) => (
+                  <s-option key={sentiment} value={sentiment}>
+                    {sentiment}
+                  </s-option>
+                ))}
+              </s-select>
+              <s-select name="topic" label="Topic" value={filters.topic ?? ""}>
+                <s-option value="">All</s-option>
+                {Object.entries(TOPICS).map(([topic, label]) => (
+                  <s-option key={topic} value={topic}>
+                    {label}
+                  </s-option>
+                ))}
+              </s-select>
+              <s-select name="flag" label="Flag" value={filters.flag ?? ""}>
+                <s-option value="">Any</s-option>
+                {Object.entries(FLAGS).map(([flag, label]) => (
+                  <s-option key={flag} value={flag}>
+                    {label}
+                  </s-option>
+                ))}
+              </s-select>
+              <s-select name="sort" label="Sort" value={filters.sort}>
+                <s-option value="priority">Most urgent first</s-option>
+                <s-option value="newest">Newest first</s-option>
+              </s-select>
+              <s-button type="submit">Apply</s-button>
             </s-stack>
-          </s-section>
+          </Form>
+        </s-box>
+        {reviews.length ? (
+          <>
+            <s-table>
+              <s-table-header-row>
+                <s-table-header></s-table-header>
+                <s-table-header listSlot="primary">Reviewer</s-table-header>
+                <s-table-header>Product</s-table-header>
+                <s-table-header format="numeric">Rating</s-table-header>
+                <s-table-header>Triage</s-table-header>
+                <s-table-header listSlot="secondary">Reply</s-table-header>
+                <s-table-header>Received</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {reviews.map((review) => (
+                  <s-table-row key={review.id}>
+                    <s-table-cell>
+                      <s-checkbox
+                        accessibilityLabel={`Select review by ${review.reviewerName || "Anonymous"}`}
+                        checked={selected.includes(review.id)}
+                        onChange={() => toggleSelected(review.id)}
+                      ></s-checkbox>
+                    </s-table-cell>
+                    <s-table-cell>
+                      <s-link href={`/app/reviews/${review.id}`}>
+                        {review.reviewerName || "Anonymous"}
+                      </s-link>
+                    </s-table-cell>
+                    <s-table-cell>{review.productTitle || "—"}</s-table-cell>
+                    <s-table-cell>{review.rating}</s-table-cell>
+                    <s-table-cell>
+                      <ClassificationBadges review={review} />
+                    </s-table-cell>
+                    <s-table-cell>
+                      <ReplyStatusBadge
+                        status={review.latestDraft?.status ?? null}
+                      />
+                    </s-table-cell>
+                    <s-table-cell>
+                      {formatDate(review.createdAt, locale)}
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+            {pageCount > 1 && (
+              <s-box padding="base">
+                <s-stack direction="inline" gap="base" alignItems="center">
+                  <s-button href={pageHref(page - 1)} disabled={page <= 1}>
+                    Previous
+                  </s-button>
+                  <s-text>{`Page ${page} of ${pageCount}`}</s-text>
+                  <s-button
+                    href={pageHref(page + 1)}
+                    disabled={page >= pageCount}
+                  >
+                    Next
+                  </s-button>
+                </s-stack>
+              </s-box>
+            )}
+          </>
+        ) : (
+          <s-box padding="base">
+            <s-paragraph>
+              No reviews found. Paste one below or{" "}
+              <s-link href="/app/import">import an export</s-link> from your
+              review platform.
+            </s-paragraph>
+          </s-box>
         )}
       </s-section>
 
-      <s-section slot="aside" heading="App template specs">
-        <s-paragraph>
-          <s-text>Framework: </s-text>
-          <s-link href="https://reactrouter.com/" target="_blank">
-            React Router
-          </s-link>
-        </s-paragraph>
-        <s-paragraph>
-          <s-text>Interface: </s-text>
-          <s-link
-            href="https://shopify.dev/docs/api/app-home/using-polaris-components"
-            target="_blank"
-          >
-            Polaris web components
-          </s-link>
-        </s-paragraph>
-        <s-paragraph>
-          <s-text>API: </s-text>
-          <s-link
-            href="https://shopify.dev/docs/api/admin-graphql"
-            target="_blank"
-          >
-            GraphQL
-          </s-link>
-        </s-paragraph>
-        <s-paragraph>
-          <s-text>Database: </s-text>
-          <s-link href="https://www.prisma.io/" target="_blank">
-            Prisma
-          </s-link>
-        </s-paragraph>
+      <s-section heading="Add a review">
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="create" />
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              name="reviewerName"
+              label="Reviewer name"
+              autocomplete="off"
+            ></s-text-field>
+            {product ? (
+              <s-stack direction="inline" gap="base" alignItems="center">
+                <input type="hidden" name="productId" value={product.id} />
+                <input
+                  type="hidden"
+                  name="productTitle"
+                  value={product.title}
+                />
+                <s-text>{`Product: ${product.title}`}</s-text>
+                <s-button variant="tertiary" onClick={() => setProduct(null)}>
+                  Remove
+                </s-button>
+              </s-stack>
+            ) : (
+              <s-stack direction="inline" gap="base" alignItems="end">
+                <s-text-field
+                  name="productTitle"
+                  label="Product"
+                  details="Select a catalog product so replies can use its details"
+                  autocomplete="off"
+                ></s-text-field>
+                <s-button onClick={selectProduct}>Select product</s-button>
+              </s-stack>
+            )}
+            <s-email-field
+              name="reviewerEmail"
+              label="Reviewer email"
+              details="Optional. Used to find their order when order lookups are allowed."
+              autocomplete="off"
+            ></s-email-field>
+            <s-select name="rating" label="Rating" error={errors.rating}>
+              {[5, 4, 3, 2, 1].map((rating) => (
+                <s-option key={rating} value={String(rating)}>
+                  {`${rating} ${rating === 1 ? "star" : "stars"}`}
+                </s-option>
+              ))}
+            </s-select>
+            <s-text-field
+              name="title"
+              label="Review title"
+              autocomplete="off"
+            ></s-text-field>
+            <s-text-area
+              name="body"
+              label="Review text"
+              rows={5}
+              error={errors.body}
+            ></s-text-area>
+            <ReplyOptionsFields
+              defaults={defaultOptions}
+              matchReview={matchReviewLanguage}
+            />
+            <s-button
+              type="submit"
+              variant="primary"
+              {...(isLoading ? { loading: true } : {})}
+            >
+              Save and generate reply
+            </s-button>
+          </s-stack>
+        </fetcher.Form>
       </s-section>
 
-      <s-section slot="aside" heading="Next steps">
-        <s-unordered-list>
-          <s-list-item>
-            Build an{" "}
-            <s-link
-              href="https://shopify.dev/docs/apps/getting-started/build-app-example"
-              target="_blank"
-            >
-              example app
-            </s-link>
-          </s-list-item>
-          <s-list-item>
-            Explore Shopify&apos;s API with{" "}
-            <s-link
-              href="https://shopify.dev/docs/apps/tools/graphiql-admin-api"
-              target="_blank"
-            >
-              GraphiQL
-            </s-link>
-          </s-list-item>
-        </s-unordered-list>
+      <s-section slot="aside" heading="Last 90 days">
+        <s-stack direction="block" gap="small-200">
+          <s-text>{`${summary.reviews} reviews`}</s-text>
+          {summary.averageRating !== null && (
+            <s-text>{`Average rating ${summary.averageRating.toFixed(2)}`}</s-text>
+          )}
+          {summary.responseRate !== null && (
+            <s-text>{`${Math.round(summary.responseRate * 100)}% replied to`}</s-text>
+          )}
+          <s-link href="/app/analytics">View analytics</s-link>
+        </s-stack>
       </s-section>
     </s-page>
   );
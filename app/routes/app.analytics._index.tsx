@@ -0,0 +1,284 @@
+import { useState } from "react";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  getReviewAnalytics,
+  listReviewedProducts,
+  parseAnalyticsFilters,
+  type Granularity,
+} from "../models/analytics.server";
+import { getCandidateStats } from "../models/reply-candidate.server";
+import { formatDate, useMerchantLocale } from "../locale";
+import { downloadFile } from "../download";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const filters = parseAnalyticsFilters(new URL(request.url).searchParams);
+  const [analytics, products, styles] = await Promise.all([
+    getReviewAnalytics(session.shop, filters),
+    listReviewedProducts(session.shop),
+    getCandidateStats(session.shop, filters),
+  ]);
+
+  return { filters, analytics, products, styles };
+};
+
+const PERIOD_LABELS: Record<Granularity, string> = {
+  day: "Day",
+  week: "Week of",
+  month: "Month",
+};
+
+function formatRating(value: number | null) {
+  return value === null ? "–" : value.toFixed(2);
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function formatHours(value: number | null) {
+  if (value === null) {
+    return "–";
+  }
+
+  return value < 48
+    ? `${value.toFixed(1)} hours`
+    : `${(value / 24).toFixed(1)} days`;
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <s-box padding="base" border="base" borderRadius="base">
+      <s-stack direction="block" gap="small-200">
+        <s-text color="subdued">{label}</s-text>
+        <s-heading>{value}</s-heading>
+      </s-stack>
+    </s-box>
+  );
+}
+
+export default function AnalyticsPage() {
+  const { filters, analytics, products, styles } =
+    useLoaderData<typeof loader>();
+  const locale = useMerchantLocale();
+  const shopify = useAppBridge();
+  const [isExporting, setIsExporting] = useState(false);
+  const { totals } = analytics;
+
+  const formatPeriod = (period: string) =>
+    analytics.granularity === "month"
+      ? new Intl.DateTimeFormat(locale, {
+          month: "long",
+          year: "numeric",
+          timeZone: "UTC",
+        }).format(new Date(`${period}-01T00:00:00Z`))
+      : formatDate(`${period}T00:00:00Z`, locale);
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({
+        from: filters.from,
+        to: filters.to,
+      });
+      if (filters.productId) {
+        params.set("product", filters.productId);
+      }
+      await downloadFile(
+        `/app/analytics/export?${params}`,
+        `reviews-${filters.from}-to-${filters.to}.csv`,
+      );
+    } catch {
+      shopify.toast.show("The export could not be downloaded", {
+        isError: true,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <s-page heading="Analytics">
+      <s-button
+        slot="primary-action"
+        onClick={exportCsv}
+        {...(isExporting ? { loading: true } : {})}
+      >
+        Export CSV
+      </s-button>
+
+      <s-section>
+        <Form method="get">
+          <s-stack direction="inline" gap="base" alignItems="end">
+            <s-date-field
+              name="from"
+              label="From"
+              value={filters.from}
+            ></s-date-field>
+            <s-date-field
+              name="to"
+              label="To"
+              value={filters.to}
+            ></s-date-field>
+            <s-select
+              name="product"
+              label="Product"
+              value={filters.productId ?? ""}
+            >
+              <s-option value="">All products</s-option>
+              {products.map((product) => (
+                <s-option key={product.id} value={product.id}>
+                  {product.title}
+                </s-option>
+              ))}
+            </s-select>
+            <s-button type="submit">Apply</s-button>
+          </s-stack>
+        </Form>
+      </s-section>
+
+      <s-section heading="Overview">
+        <s-grid gridTemplateColumns="1fr 1fr 1fr 1fr" gap="base">
+          <Metric label="Reviews" value={String(totals.reviews)} />
+          <Metric
+            label="Average rating"
+            value={formatRating(totals.averageRating)}
+          />
+          <Metric
+            label="Response rate"
+            value={formatPercent(totals.responseRate)}
+          />
+          <Metric
+            label="Median time to reply"
+            value={formatHours(totals.medianHoursToReply)}
+          />
+        </s-grid>
+      </s-section>
+
+      <s-section heading="Reviews over time" padding="none">
+        {analytics.volume.length ? (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">
+                {PERIOD_LABELS[analytics.granularity]}
+              </s-table-header>
+              <s-table-header format="numeric">Reviews</s-table-header>
+              <s-table-header format="numeric">Average rating</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {analytics.volume.map((row) => (
+                <s-table-row key={row.period}>
+                  <s-table-cell>{formatPeriod(row.period)}</s-table-cell>
+                  <s-table-cell>{row.reviews}</s-table-cell>
+                  <s-table-cell>{formatRating(row.averageRating)}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        ) : (
+          <s-box padding="base">
+            <s-paragraph>No reviews in this period.</s-paragraph>
+          </s-box>
+        )}
+      </s-section>
+
+      <s-section heading="Sentiment by product" padding="none">
+        <s-table>
+          <s-table-header-row>
+            <s-table-header listSlot="primary">Product</s-table-header>
+            <s-table-header format="numeric">Reviews</s-table-header>
+            <s-table-header format="numeric">Positive</s-table-header>
+            <s-table-header format="numeric">Neutral</s-table-header>
+            <s-table-header format="numeric">Negative</s-table-header>
+          </s-table-header-row>
+          <s-table-body>
+            {analytics.products.map((product) => (
+              <s-table-row key={product.key}>
+                <s-table-cell>{product.title}</s-table-cell>
+                <s-table-cell>{product.reviews}</s-table-cell>
+                <s-table-cell>{product.sentiment.positive}</s-table-cell>
+                <s-table-cell>{product.sentiment.neutral}</s-table-cell>
+                <s-table-cell>{product.sentiment.negative}</s-table-cell>
+              </s-table-row>
+            ))}
+          </s-table-body>
+        </s-table>
+      </s-section>
+
+      <s-section heading="Sentiment by topic" padding="none">
+        <s-table>
+          <s-table-header-row>
+            <s-table-header listSlot="primary">Topic</s-table-header>
+            <s-table-header format="numeric">Positive</s-table-header>
+            <s-table-header format="numeric">Neutral</s-table-header>
+            <s-table-header format="numeric">Negative</s-table-header>
+          </s-table-header-row>
+          <s-table-body>
+            {analytics.topics.map((topic) => (
+              <s-table-row key={topic.topic}>
+                <s-table-cell>{topic.label}</s-table-cell>
+                <s-table-cell>{topic.sentiment.positive}</s-table-cell>
+                <s-table-cell>{topic.sentiment.neutral}</s-table-cell>
+                <s-table-cell>{topic.sentiment.negative}</s-table-cell>
+              </s-table-row>
+            ))}
+          </s-table-body>
+        </s-table>
+      </s-section>
+
+      <s-section heading="Reply styles" padding="none">
+        <s-table>
+          <s-table-header-row>
+            <s-table-header listSlot="primary">Style</s-table-header>
+            <s-table-header format="numeric">Offered</s-table-header>
+            <s-table-header format="numeric">Chosen</s-table-header>
+            <s-table-header format="numeric">Pick rate</s-table-header>
+          </s-table-header-row>
+          <s-table-body>
+            {styles.map((style) => (
+              <s-table-row key={style.style}>
+                <s-table-cell>{style.label}</s-table-cell>
+                <s-table-cell>{style.offered}</s-table-cell>
+                <s-table-cell>{style.chosen}</s-table-cell>
+                <s-table-cell>
+                  {formatPercent(
+                    style.offered ? style.chosen / style.offered : null,
+                  )}
+                </s-table-cell>
+              </s-table-row>
+            ))}
+          </s-table-body>
+        </s-table>
+      </s-section>
+
+      <s-section slot="aside" heading="Top complaints">
+        {analytics.complaints.length ? (
+          <s-ordered-list>
+            {analytics.complaints.map((complaint) => (
+              <s-list-item key={complaint.theme}>
+                {`${complaint.label}: ${complaint.reviews} ${complaint.reviews === 1 ? "review" : "reviews"}`}
+              </s-list-item>
+            ))}
+          </s-ordered-list>
+        ) : (
+          <s-paragraph>No complaints in this period.</s-paragraph>
+        )}
+        <s-paragraph>
+          <s-text color="subdued">
+            Topics and flags of negative reviews, or of 1 and 2 star reviews
+            that aren&apos;t classified yet.
+          </s-text>
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,61 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { csvValue } from "../csv-export.server";
+import {
+  listAnalyticsRows,
+  parseAnalyticsFilters,
+  type AnalyticsRow,
+} from "../models/analytics.server";
+
+const COLUMNS = [
+  "review_id",
+  "date",
+  "source",
+  "product_id",
+  "product",
+  "rating",
+  "sentiment",
+  "topics",
+  "flags",
+  "replied_at",
+  "hours_to_reply",
+];
+
+function toCsvRow(row: AnalyticsRow) {
+  return [
+    row.id,
+    row.date.toISOString(),
+    row.source,
+    row.productId,
+    row.productTitle,
+    row.rating,
+    row.sentiment,
+    row.topics.replace(/,/g, " "),
+    row.flags.replace(/,/g, " "),
+    row.repliedAt?.toISOString() ?? null,
+    row.repliedAt
+      ? (
+          (row.repliedAt.getTime() - row.createdAt.getTime()) /
+          (60 * 60 * 1000)
+        ).toFixed(1)
+      : null,
+  ]
+    .map(csvValue)
+    .join(",");
+}
+
+/** The dashboard's reviews as CSV, one row per review, for the same filters. */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const filters = parseAnalyticsFilters(new URL(request.url).searchParams);
+  const rows = await listAnalyticsRows(session.shop, filters);
+  const csv = [COLUMNS.join(","), ...rows.map(toCsvRow)].join("\r\n");
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="reviews-${filters.from}-to-${filters.to}.csv"`,
+    },
+  });
+};
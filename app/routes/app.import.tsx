@@ -0,0 +1,269 @@
+import { useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  importReplyExamples,
+  importReviews,
+} from "../review-import/index.server";
+import {
+  countReplyExamples,
+  deleteReplyExamples,
+} from "../models/reply-example.server";
+import { IMPORT_PLATFORMS, isImportPlatform } from "../review-import/platforms";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  return { examples: await countReplyExamples(session.shop) };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  if (intent === "deleteExamples") {
+    await deleteReplyExamples(session.shop);
+
+    return { report: null, examples: null, error: null };
+  }
+
+  const file = formData.get("file");
+  const platform = formData.get("platform");
+  if (!(file instanceof File) || !file.size) {
+    return {
+      report: null,
+      examples: null,
+      error: "Choose a CSV or JSON file to import",
+    };
+  }
+
+  if (intent === "examples") {
+    try {
+      const examples = await importReplyExamples(session.shop, file);
+
+      return { report: null, examples, error: null };
+    } catch (error) {
+      console.error(error);
+
+      return {
+        report: null,
+        examples: null,
+        error:
+          error instanceof Error ? error.message : "The file could not be read",
+      };
+    }
+  }
+
+  try {
+    const report = await importReviews(
+      admin,
+      session.shop,
+      file,
+      isImportPlatform(platform) ? platform : null,
+    );
+
+    return { report, examples: null, error: null };
+  } catch (error) {
+    console.error(error);
+
+    return {
+      report: null,
+      examples: null,
+      error:
+        error instanceof Error ? error.message : "The file could not be read",
+    };
+  }
+};
+
+export default function ImportPage() {
+  const { examples } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const examplesFetcher = useFetcher<typeof action>();
+  const [file, setFile] = useState<File | null>(null);
+  const [examplesFile, setExamplesFile] = useState<File | null>(null);
+  const [platform, setPlatform] = useState("auto");
+
+  const isImporting = fetcher.state !== "idle";
+  const report = fetcher.data?.report;
+
+  const submit = () => {
+    if (!file) {
+      return;
+    }
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("platform", platform);
+    fetcher.submit(formData, {
+      method: "POST",
+      encType: "multipart/form-data",
+    });
+  };
+
+  const submitExamples = () => {
+    if (!examplesFile) {
+      return;
+    }
+    const formData = new FormData();
+    formData.append("intent", "examples");
+    formData.append("file", examplesFile);
+    examplesFetcher.submit(formData, {
+      method: "POST",
+      encType: "multipart/form-data",
+    });
+  };
+
+  return (
+    <s-page heading="Import reviews">
+      <s-section heading="Upload an export">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Upload a CSV or JSON review export from Judge.me, Yotpo, Loox,
+            Okendo or Shopify Product Reviews. Reviews are matched to your
+            products by product ID, handle or SKU, and importing the same file
+            again updates reviews instead of duplicating them.
+          </s-paragraph>
+          {fetcher.data?.error && (
+            <s-banner tone="critical">{fetcher.data.error}</s-banner>
+          )}
+          <s-select
+            label="Exported from"
+            value={platform}
+            onChange={(e) => setPlatform(e.currentTarget.value)}
+          >
+            <s-option value="auto">Detect automatically</s-option>
+            {Object.entries(IMPORT_PLATFORMS).map(([key, label]) => (
+              <s-option key={key} value={key}>
+                {label}
+              </s-option>
+            ))}
+          </s-select>
+          <s-drop-zone
+            label="Review export"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => setFile(e.currentTarget.files[0] ?? null)}
+          >
+            {file && <s-text>{file.name}</s-text>}
+          </s-drop-zone>
+          <s-button
+            variant="primary"
+            disabled={!file}
+            onClick={submit}
+            {...(isImporting ? { loading: true } : {})}
+          >
+            Import
+          </s-button>
+        </s-stack>
+      </s-section>
+
+      {report && (
+        <s-section heading="Import results">
+          <s-stack direction="block" gap="base">
+            <s-banner tone={report.errors.length ? "warning" : "success"}>
+              {`${IMPORT_PLATFORMS[report.platform]}: ${report.created} new, ${report.updated} updated, ${report.duplicates} duplicate rows skipped, ${report.errors.length} failed out of ${report.total} rows.`}
+            </s-banner>
+            {report.examples > 0 && (
+              <s-paragraph>
+                {`${report.examples} reviews came with your reply, which new replies will use as examples of your voice.`}
+              </s-paragraph>
+            )}
+            {report.unmatchedProducts > 0 && (
+              <s-paragraph>
+                {`${report.unmatchedProducts} reviews could not be matched to a product in your store and were imported without one.`}
+              </s-paragraph>
+            )}
+            {report.errors.length > 0 && (
+              <s-table>
+                <s-table-header-row>
+                  <s-table-header format="numeric">Row</s-table-header>
+                  <s-table-header listSlot="primary">Error</s-table-header>
+                </s-table-header-row>
+                <s-table-body>
+                  {report.errors.map(({ row, message }) => (
+                    <s-table-row key={row}>
+                      <s-table-cell>{row}</s-table-cell>
+                      <s-table-cell>{message}</s-table-cell>
+                    </s-table-row>
+                  ))}
+                </s-table-body>
+              </s-table>
+            )}
+            <s-link href="/app">View reviews</s-link>
+          </s-stack>
+        </s-section>
+      )}
+
+      <s-section heading="Past replies">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            New replies are written in your voice by showing the model your
+            replies to the most similar past reviews. Upload a review export
+            with a reply column, or a CSV or JSON file with review and reply
+            columns (rating and title are optional). The pairs are only kept as
+            examples; the reviews are not added to your review list.
+          </s-paragraph>
+          {examplesFetcher.data?.error && (
+            <s-banner tone="critical">{examplesFetcher.data.error}</s-banner>
+          )}
+          {examplesFetcher.data?.examples && (
+            <s-banner
+              tone={
+                examplesFetcher.data.examples.errors.length
+                  ? "warning"
+                  : "success"
+              }
+            >
+              {`${examplesFetcher.data.examples.saved} replies saved, ${examplesFetcher.data.examples.errors.length} rows skipped out of ${examplesFetcher.data.examples.total}.`}
+            </s-banner>
+          )}
+          <s-drop-zone
+            label="Past replies"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => setExamplesFile(e.currentTarget.files[0] ?? null)}
+          >
+            {examplesFile && <s-text>{examplesFile.name}</s-text>}
+          </s-drop-zone>
+          <s-stack direction="inline" gap="base">
+            <s-button
+              disabled={!examplesFile}
+              onClick={submitExamples}
+              {...(examplesFetcher.state !== "idle" &&
+              examplesFetcher.formData?.get("intent") === "examples"
+                ? { loading: true }
+                : {})}
+            >
+              Import past replies
+            </s-button>
+            {examples > 0 && (
+              <s-button
+                tone="critical"
+                variant="tertiary"
+                onClick={() =>
+                  examplesFetcher.submit(
+                    { intent: "deleteExamples" },
+                    { method: "POST" },
+                  )
+                }
+              >
+                Delete all past replies
+              </s-button>
+            )}
+          </s-stack>
+          <s-text color="subdued">
+            {`${examples} past ${examples === 1 ? "reply" : "replies"} stored.`}
+          </s-text>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,140 @@
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData, useRevalidator } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  cancelGenerationJob,
+  getGenerationJob,
+  resumeGenerationJob,
+} from "../models/generation-job.server";
+import { JobStatusBadge } from "../components/JobStatusBadge";
+import { formatLanguage, useMerchantLocale } from "../locale";
+
+const POLL_INTERVAL_MS = 2000;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const job = await getGenerationJob(session.shop, params.id!);
+  if (!job) {
+    throw new Response("Job not found", { status: 404 });
+  }
+
+  return { job };
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const intent = (await request.formData()).get("intent");
+  if (intent === "cancel") {
+    await cancelGenerationJob(session.shop, params.id!);
+  } else if (intent === "resume") {
+    await resumeGenerationJob(session.shop, params.id!);
+  }
+
+  return null;
+};
+
+export default function JobPage() {
+  const { job } = useLoaderData<typeof loader>();
+  const locale = useMerchantLocale();
+  const fetcher = useFetcher<typeof action>();
+  const revalidator = useRevalidator();
+
+  const isRunning = job.status === "running";
+  const processed = job.completed + job.failed;
+  const canResume = !isRunning && (processed < job.total || job.failed > 0);
+
+  useEffect(() => {
+    if (!isRunning) {
+      return;
+    }
+    const interval = setInterval(() => {
+      if (revalidator.state === "idle") {
+        revalidator.revalidate();
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isRunning, revalidator]);
+
+  const submit = (intent: string) =>
+    fetcher.submit({ intent }, { method: "POST" });
+
+  return (
+    <s-page heading="Generation job">
+      <s-link slot="breadcrumb-actions" href="/app/jobs">
+        Jobs
+      </s-link>
+
+      <s-section heading="Progress">
+        <s-stack direction="block" gap="base">
+          <s-stack direction="inline" gap="small-200">
+            <JobStatusBadge status={job.status} />
+            <s-text>
+              {`${processed} of ${job.total} reviews processed · ${job.completed} generated · ${job.failed} failed`}
+            </s-text>
+          </s-stack>
+          <progress
+            max={job.total || 1}
+            value={processed}
+            style={{ inlineSize: "100%" }}
+          />
+          <s-text color="subdued">
+            {`Tone: ${job.tone} · Length: ${job.length} · Language: ${
+              job.language
+                ? formatLanguage(job.language, locale)
+                : "same as each review"
+            }`}
+          </s-text>
+          <s-stack direction="inline" gap="base">
+            {isRunning && (
+              <s-button onClick={() => submit("cancel")}>Cancel</s-button>
+            )}
+            {canResume && (
+              <s-button variant="primary" onClick={() => submit("resume")}>
+                {job.failed > 0 ? "Resume and retry failed" : "Resume"}
+              </s-button>
+            )}
+            <s-link href="/app">Back to reviews</s-link>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      {job.items.length > 0 && (
+        <s-section heading="Failed reviews" padding="none">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Review</s-table-header>
+              <s-table-header format="numeric">Attempts</s-table-header>
+              <s-table-header listSlot="secondary">Error</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {job.items.map((item) => (
+                <s-table-row key={item.id}>
+                  <s-table-cell>
+                    <s-link href={`/app/reviews/${item.review.id}`}>
+                      {`${item.review.reviewerName || "Anonymous"} (${item.review.rating}★)`}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>{item.attempts}</s-table-cell>
+                  <s-table-cell>{item.error}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,65 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { listGenerationJobs } from "../models/generation-job.server";
+import { JobStatusBadge } from "../components/JobStatusBadge";
+import { formatDateTime, useMerchantLocale } from "../locale";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  return { jobs: await listGenerationJobs(session.shop) };
+};
+
+export default function JobsPage() {
+  const { jobs } = useLoaderData<typeof loader>();
+  const locale = useMerchantLocale();
+
+  return (
+    <s-page heading="Generation jobs">
+      <s-section padding="none">
+        {jobs.length ? (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Started</s-table-header>
+              <s-table-header listSlot="secondary">Status</s-table-header>
+              <s-table-header format="numeric">Generated</s-table-header>
+              <s-table-header format="numeric">Failed</s-table-header>
+              <s-table-header>Tone</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {jobs.map((job) => (
+                <s-table-row key={job.id}>
+                  <s-table-cell>
+                    <s-link href={`/app/jobs/${job.id}`}>
+                      {formatDateTime(job.createdAt, locale)}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>
+                    <JobStatusBadge status={job.status} />
+                  </s-table-cell>
+                  <s-table-cell>{`${job.completed} / ${job.total}`}</s-table-cell>
+                  <s-table-cell>{job.failed}</s-table-cell>
+                  <s-table-cell>{job.tone}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        ) : (
+          <s-box padding="base">
+            <s-paragraph>
+              No jobs yet. Select reviews on the{" "}
+              <s-link href="/app">home page</s-link> to generate replies in
+              bulk.
+            </s-paragraph>
+          </s-box>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
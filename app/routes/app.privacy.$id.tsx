@@ -0,0 +1,20 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getComplianceExport } from "../models/compliance.server";
+
+/** The data a customer asked for, for the merchant to send on to them. */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const data = await getComplianceExport(session.shop, params.id!);
+  if (!data) {
+    throw new Response("Export not found", { status: 404 });
+  }
+
+  return new Response(data, {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="customer-data-${params.id}.json"`,
+    },
+  });
+};
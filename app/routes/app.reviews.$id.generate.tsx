@@ -0,0 +1,68 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { createEventStream } from "../event-stream.server";
+import { generateReply, getReplyFeedback } from "../reply-generator.server";
+import { loadReplyContext } from "../reply-context.server";
+import { parseReplyOptions } from "../llm/options";
+import { getReview, toReviewInput } from "../models/review.server";
+import { saveGeneratedReply } from "../models/reply.server";
+import { getDefaultReplyOptions } from "../models/settings.server";
+import { QuotaExceededError, withinQuota } from "../quota.server";
+import { getSessionUser } from "../session-user.server";
+
+/**
+ * Streams a reply to the review as server-sent events: `token` for each piece
+ * of text, then `done` with the final reply or `error`. The reply is only
+ * saved once it is complete, so a cancelled request leaves the draft as is.
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const review = await getReview(session.shop, params.id!);
+  if (!review) {
+    throw new Response("Review not found", { status: 404 });
+  }
+  const formData = await request.formData();
+  const { signal } = request;
+
+  return createEventStream(async (send) => {
+    try {
+      const reply = await withinQuota(session.shop, async () => {
+        const context = await loadReplyContext(admin, session, review);
+        const reply = await generateReply(
+          toReviewInput(review),
+          {
+            ...context,
+            feedback: getReplyFeedback(formData, review.drafts[0]),
+            options: parseReplyOptions(
+              formData,
+              getDefaultReplyOptions(context.policy, review.language),
+            ),
+          },
+          { onToken: (token) => send("token", token), signal },
+        );
+        signal.throwIfAborted();
+        await saveGeneratedReply(
+          session.shop,
+          review.id,
+          reply,
+          getSessionUser(session),
+        );
+
+        return reply;
+      });
+      send("done", reply.body);
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      if (error instanceof QuotaExceededError) {
+        send("error", error.message);
+
+        return;
+      }
+      console.error(error);
+      send("error", "The reply could not be generated. Please try again.");
+    }
+  });
+};
@@ -0,0 +1,1109 @@
+import { useEffect, useRef, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import {
+  useFetcher,
+  useLoaderData,
+  useRevalidator,
+  useSearchParams,
+} from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { getProductContext } from "../product-context.server";
+import {
+  checkReply,
+  getBlockingChecks,
+  loadReplyContext,
+} from "../reply-context.server";
+import {
+  generateCandidates,
+  getReplyFeedback,
+} from "../reply-generator.server";
+import type { OrderContext } from "../order-context.server";
+import { ORDER_SCOPES, hasScopes } from "../scopes";
+import { CANDIDATE_STYLES, parseReplyOptions } from "../llm/options";
+import {
+  getReview,
+  resetReviewClassification,
+  toReviewInput,
+} from "../models/review.server";
+import { translateText } from "../translation.server";
+import {
+  addReplyComment,
+  findPublishedReply,
+  isReplyTransition,
+  overrideReplyChecks,
+  saveEditedReply,
+  transitionReply,
+} from "../models/reply.server";
+import {
+  chooseReplyCandidate,
+  listLatestCandidates,
+  saveReplyCandidates,
+} from "../models/reply-candidate.server";
+import { listAuditEvents, type AuditAction } from "../models/audit.server";
+import {
+  findServiceDiscount,
+  releaseServiceDiscount,
+} from "../models/service-discount.server";
+import {
+  listPublications,
+  resumePublication,
+  type PublicationStatus,
+} from "../models/publication.server";
+import { getPublishPlatform, PUBLISH_PLATFORMS } from "../publishing/platforms";
+import { PublishError, publishReply } from "../publishing/index.server";
+import { canApprove } from "../approvals.server";
+import { getQuota, QuotaExceededError, withinQuota } from "../quota.server";
+import {
+  getDefaultReplyOptions,
+  getReplyPolicy,
+} from "../models/settings.server";
+import { getSessionLocale, getSessionUser } from "../session-user.server";
+import { ReplyOptionsFields } from "../components/ReplyOptionsFields";
+import { ReplyStatusBadge } from "../components/ReplyStatusBadge";
+import { QuotaBanner } from "../components/QuotaBanner";
+import { ClassificationBadges } from "../components/ClassificationBadges";
+import { readEventStream } from "../event-stream";
+import { diffWords } from "../text-diff";
+import {
+  formatDate,
+  formatDateTime,
+  formatLanguage,
+  useMerchantLocale,
+} from "../locale";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  const [review, policy, auditEvents, discount, quota, candidates] =
+    await Promise.all([
+      getReview(session.shop, params.id!),
+      getReplyPolicy(session.shop),
+      listAuditEvents(session.shop, params.id!),
+      findServiceDiscount(session.shop, params.id!),
+      getQuota(session.shop),
+      listLatestCandidates(session.shop, params.id!),
+    ]);
+  if (!review) {
+    throw new Response("Review not found", { status: 404 });
+  }
+
+  const { drafts, ...rest } = review;
+  const draft = drafts[0] ?? null;
+  const generated = draft?.revisions.find(({ kind }) => kind === "generated");
+  const [checks, publications] = draft
+    ? await Promise.all([
+        checkReply(admin, session.shop, review, draft.body),
+        listPublications(session.shop, draft.id),
+      ])
+    : [[], []];
+  const liveReply =
+    draft && draft.status !== "published"
+      ? await findPublishedReply(session.shop, review.id)
+      : null;
+
+  return {
+    review: rest,
+    draft,
+    product: await getProductContext(admin, session.shop, review.productId),
+    order: generated?.orderContext
+      ? (JSON.parse(generated.orderContext) as OrderContext)
+      : null,
+    orderAccess: hasScopes(session.scope, ORDER_SCOPES),
+    defaultOptions: getDefaultReplyOptions(policy, review.language),
+    requireApproval: policy.requireApproval,
+    canApprove: canApprove(session, policy),
+    auditEvents,
+    checks,
+    blockingChecks: draft
+      ? getBlockingChecks(checks, draft).map(({ id }) => id)
+      : [],
+    publishPlatform: getPublishPlatform(review),
+    publications,
+    liveReply,
+    discount,
+    quota,
+    candidates,
+  };
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const { shop } = session;
+  const editedBy = getSessionUser(session);
+
+  const review = await getReview(shop, params.id!);
+  if (!review) {
+    throw new Response("Review not found", { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const draftId = String(formData.get("draftId") ?? "");
+
+  switch (intent) {
+    case "candidates": {
+      try {
+        await withinQuota(shop, async () => {
+          const context = await loadReplyContext(admin, session, review);
+          const candidates = await generateCandidates(toReviewInput(review), {
+            ...context,
+            feedback: getReplyFeedback(formData, review.drafts[0]),
+            options: parseReplyOptions(
+              formData,
+              getDefaultReplyOptions(context.policy, review.language),
+            ),
+          });
+          await saveReplyCandidates(shop, review.id, candidates);
+        });
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return { intent, error: error.message };
+        }
+        console.error(error);
+
+        return {
+          intent,
+          error: "The replies could not be generated. Please try again.",
+        };
+      }
+
+      return { intent, error: null };
+    }
+    case "chooseCandidate": {
+      const candidateId = String(formData.get("candidateId") ?? "");
+      if (!(await chooseReplyCandidate(shop, candidateId, editedBy))) {
+        return {
+          intent,
+          error: "This option no longer exists. Reload the page and try again.",
+        };
+      }
+
+      return { intent, error: null };
+    }
+    case "save": {
+      const body = String(formData.get("body") ?? "").trim();
+      if (!body) {
+        return { intent, error: "The reply cannot be empty" };
+      }
+      await saveEditedReply(shop, draftId, body, editedBy);
+
+      return { intent, error: null };
+    }
+    case "transition": {
+      const transition = formData.get("transition");
+      if (transition !== "publish" && !isReplyTransition(transition)) {
+        return { intent, error: "Unknown action" };
+      }
+      // Only the review's current draft can move, so a stale page can't
+      // approve or publish a reply that has since been replaced.
+      const draft = review.drafts[0];
+      if (!draft || draft.id !== draftId) {
+        return {
+          intent,
+          error: "The reply has changed. Reload the page and try again.",
+        };
+      }
+      if (transition !== "submit") {
+        const policy = await getReplyPolicy(shop);
+        if (!canApprove(session, policy)) {
+          return { intent, error: "Only approvers can review replies" };
+        }
+        if (
+          transition === "approve" &&
+          policy.requireApproval &&
+          draft.status === "draft"
+        ) {
+          return { intent, error: "Submit the reply for approval first" };
+        }
+      }
+      if (transition === "publish" && draft.status === "approved") {
+        const checks = await checkReply(admin, shop, review, draft.body);
+        const blocking = getBlockingChecks(checks, draft);
+        if (blocking.length) {
+          const reason = String(formData.get("overrideReason") ?? "").trim();
+          if (!reason) {
+            return {
+              intent,
+              error: "Fix the failed checks or give a reason to publish anyway",
+            };
+          }
+          await overrideReplyChecks(
+            shop,
+            draft.id,
+            blocking.map(({ id }) => id),
+            reason,
+            editedBy,
+          );
+        }
+      }
+      let moved: boolean;
+      try {
+        moved =
+          transition === "publish"
+            ? await publishReply(admin, review, draft, editedBy)
+            : await transitionReply(shop, draft.id, transition, editedBy);
+      } catch (error) {
+        if (error instanceof PublishError) {
+          return { intent, error: error.message };
+        }
+        throw error;
+      }
+      if (!moved) {
+        return {
+          intent,
+          error: "The reply has changed. Reload the page and try again.",
+        };
+      }
+      if (transition === "reject") {
+        await releaseServiceDiscount(shop, review.id);
+      }
+
+      return { intent, error: null };
+    }
+    case "comment": {
+      const body = String(formData.get("body") ?? "").trim();
+      if (!body) {
+        return { intent, error: "The comment cannot be empty" };
+      }
+      await addReplyComment(shop, draftId, body, editedBy);
+
+      return { intent, error: null };
+    }
+    case "translate": {
+      const locale = getSessionLocale(session);
+      const body = String(formData.get("body") ?? "").trim();
+      try {
+        const [reviewText, replyText] = await Promise.all([
+          translateText(shop, review.body, locale),
+          body ? translateText(shop, body, locale) : "",
+        ]);
+
+        return {
+          intent,
+          error: null,
+          translation: { review: reviewText, reply: replyText },
+        };
+      } catch (error) {
+        console.error(error);
+
+        return { intent, error: "The translation failed. Please try again." };
+      }
+    }
+    case "retryPublication": {
+      const publicationId = String(formData.get("publicationId") ?? "");
+      if (!canApprove(session, await getReplyPolicy(shop))) {
+        return { intent, error: "Only approvers can publish replies" };
+      }
+      if (!(await resumePublication(shop, publicationId, editedBy))) {
+        return {
+          intent,
+          error: "Only failed publications of approved replies can be retried",
+        };
+      }
+
+      return { intent, error: null };
+    }
+    case "reclassify": {
+      await resetReviewClassification(shop, review.id);
+
+      return { intent, error: null };
+    }
+    default:
+      return { intent, error: "Unknown action" };
+  }
+};
+
+const AUDIT_LABELS: Record<AuditAction, string> = {
+  generated: "Generated",
+  edited: "Edited",
+  submitted: "Submitted for approval",
+  approved: "Approved",
+  returned: "Changes requested",
+  queued: "Queued for publishing",
+  published: "Published",
+  publish_failed: "Publishing failed",
+  rejected: "Rejected",
+  commented: "Commented",
+  overridden: "Overrode failed checks",
+};
+
+const PUBLICATION_BADGES: Record<
+  PublicationStatus,
+  { label: string; tone: "neutral" | "info" | "success" | "critical" }
+> = {
+  pending: { label: "Queued", tone: "neutral" },
+  running: { label: "Publishing", tone: "info" },
+  published: { label: "Published", tone: "success" },
+  failed: { label: "Failed", tone: "critical" },
+};
+
+function describeRevision(
+  revision: {
+    kind: string;
+    tone: string | null;
+    length: string | null;
+    instruction: string | null;
+    editedBy: string | null;
+    createdAt: string | Date;
+  },
+  locale: string,
+) {
+  const action =
+    revision.kind === "generated"
+      ? `Generated (${revision.tone}, ${revision.length})${revision.instruction ? ` asking "${revision.instruction}"` : ""}`
+      : "Edited";
+  const author = revision.editedBy ? ` by ${revision.editedBy}` : "";
+
+  return `${action}${author} · ${formatDateTime(revision.createdAt, locale)}`;
+}
+
+export default function ReviewPage() {
+  const {
+    review,
+    draft,
+    product,
+    order,
+    orderAccess,
+    defaultOptions,
+    requireApproval,
+    canApprove,
+    auditEvents,
+    checks,
+    blockingChecks,
+    publishPlatform,
+    publications,
+    liveReply,
+    discount,
+    quota,
+    candidates,
+  } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const commentFetcher = useFetcher<typeof action>();
+  const translateFetcher = useFetcher<typeof action>();
+  const revalidator = useRevalidator();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const shopify = useAppBridge();
+  const locale = useMerchantLocale();
+  const translation =
+    translateFetcher.data && "translation" in translateFetcher.data
+      ? translateFetcher.data.translation
+      : null;
+  const needsTranslation =
+    review.language !== null && review.language !== locale.split("-")[0];
+  const [reply, setReply] = useState(draft?.body ?? "");
+  const [comment, setComment] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  // The reply as it streams in; null when nothing is being generated.
+  const [streamed, setStreamed] = useState<string | null>(null);
+  const generation = useRef<AbortController | null>(null);
+  const generateForm = useRef<HTMLFormElement>(null);
+  const [instruction, setInstruction] = useState("");
+  // Revisions compared in the changes view; the latest two until one is picked.
+  const [compare, setCompare] = useState<{ from?: string; to?: string }>({});
+
+  const isGeneratingCandidates =
+    fetcher.state !== "idle" &&
+    fetcher.formData?.get("intent") === "candidates";
+
+  useEffect(() => {
+    setReply(draft?.body ?? "");
+  }, [draft?.body]);
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) {
+      return;
+    }
+    if (fetcher.data.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    } else if (fetcher.data.intent === "candidates") {
+      setInstruction("");
+    }
+  }, [fetcher.state, fetcher.data, shopify]);
+
+  useEffect(() => {
+    if (translateFetcher.state === "idle" && translateFetcher.data?.error) {
+      shopify.toast.show(translateFetcher.data.error, { isError: true });
+    }
+  }, [translateFetcher.state, translateFetcher.data, shopify]);
+
+  useEffect(() => {
+    if (commentFetcher.state !== "idle" || !commentFetcher.data) {
+      return;
+    }
+    if (commentFetcher.data.error) {
+      shopify.toast.show(commentFetcher.data.error, { isError: true });
+    } else {
+      setComment("");
+    }
+  }, [commentFetcher.state, commentFetcher.data, shopify]);
+
+  const generate = async (formData: FormData) => {
+    const controller = new AbortController();
+    generation.current = controller;
+    setStreamed("");
+    let body: string | null = null;
+    try {
+      const response = await fetch(`/app/reviews/${review.id}/generate`, {
+        method: "POST",
+        body: formData,
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Generation failed with ${response.status}`);
+      }
+      await readEventStream(response.body, (event, data) => {
+        if (event === "token") {
+          setStreamed((text) => `${text ?? ""}${data}`);
+        } else if (event === "done") {
+          body = data;
+        } else if (event === "error") {
+          shopify.toast.show(data, { isError: true });
+        }
+      });
+      if (body !== null) {
+        setStreamed(body);
+        setInstruction("");
+        await revalidator.revalidate();
+        shopify.toast.show("Reply generated");
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error(error);
+        shopify.toast.show(
+          "The reply could not be generated. Please try again.",
+          { isError: true },
+        );
+      }
+    } finally {
+      generation.current = null;
+      setStreamed(null);
+    }
+  };
+
+  const cancelGeneration = () => {
+    generation.current?.abort();
+    shopify.toast.show("Generation cancelled");
+  };
+
+  // Replies requested when the review was added start as soon as it opens.
+  const startGeneration = useRef(searchParams.has("generate"));
+  useEffect(() => {
+    if (!startGeneration.current) {
+      return;
+    }
+    startGeneration.current = false;
+    const formData = new FormData();
+    for (const name of ["tone", "length", "language"]) {
+      formData.set(name, searchParams.get(name) ?? "");
+    }
+    setSearchParams(
+      (params) => {
+        for (const name of ["generate", "tone", "length", "language"]) {
+          params.delete(name);
+        }
+
+        return params;
+      },
+      { replace: true },
+    );
+    generate(formData);
+    // Runs once on mount; later changes to the params are our own.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const generateCandidateReplies = () => {
+    const formData = new FormData(generateForm.current ?? undefined);
+    formData.set("intent", "candidates");
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  const revisions = draft?.revisions ?? [];
+  const fromRevision =
+    revisions.find(({ id }) => id === compare.from) ?? revisions[1];
+  const toRevision =
+    revisions.find(({ id }) => id === compare.to) ?? revisions[0];
+  const changes =
+    fromRevision && toRevision
+      ? diffWords(fromRevision.body, toRevision.body)
+      : [];
+
+  const submit = (data: Record<string, string>) =>
+    fetcher.submit({ draftId: draft?.id ?? "", ...data }, { method: "POST" });
+
+  const transition = (name: string) =>
+    submit({ intent: "transition", transition: name });
+
+  const copyReply = async () => {
+    await navigator.clipboard.writeText(reply);
+    shopify.toast.show("Reply copied");
+  };
+
+  return (
+    <s-page
+      heading={
+        review.title || `Review by ${review.reviewerName || "Anonymous"}`
+      }
+    >
+      <s-link slot="breadcrumb-actions" href="/app">
+        Reviews
+      </s-link>
+
+      <s-section heading="Review">
+        <s-stack direction="block" gap="small-200">
+          <s-text>
+            {`${review.rating} out of 5 · ${review.reviewerName || "Anonymous"}${
+              review.productTitle ? ` · ${review.productTitle}` : ""
+            }`}
+          </s-text>
+          <s-paragraph>{review.body}</s-paragraph>
+          <s-stack direction="inline" gap="base" alignItems="center">
+            {review.language && (
+              <s-badge>{formatLanguage(review.language, locale)}</s-badge>
+            )}
+            <ClassificationBadges review={review} />
+            {review.classifiedAt && (
+              <s-button
+                variant="tertiary"
+                onClick={() => submit({ intent: "reclassify" })}
+              >
+                Reclassify
+              </s-button>
+            )}
+            {needsTranslation && (
+              <s-button
+                variant="tertiary"
+                onClick={() =>
+                  translateFetcher.submit(
+                    { intent: "translate", body: reply },
+                    { method: "POST" },
+                  )
+                }
+                {...(translateFetcher.state !== "idle"
+                  ? { loading: true }
+                  : {})}
+              >
+                {`Show translation in ${formatLanguage(locale, locale)}`}
+              </s-button>
+            )}
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      {translation && (
+        <s-section heading="Translation">
+          <s-grid gridTemplateColumns="1fr 1fr" gap="base">
+            <s-heading>Original</s-heading>
+            <s-heading>{formatLanguage(locale, locale)}</s-heading>
+            <s-paragraph>{review.body}</s-paragraph>
+            <s-paragraph>{translation.review}</s-paragraph>
+            {translation.reply && (
+              <>
+                <s-paragraph>{reply}</s-paragraph>
+                <s-paragraph>{translation.reply}</s-paragraph>
+              </>
+            )}
+          </s-grid>
+        </s-section>
+      )}
+
+      <s-section heading="Reply">
+        <s-stack direction="block" gap="base">
+          <QuotaBanner quota={quota} />
+          <form
+            ref={generateForm}
+            onSubmit={(event) => {
+              event.preventDefault();
+              generate(new FormData(event.currentTarget));
+            }}
+          >
+            <s-stack direction="block" gap="base">
+              <ReplyOptionsFields defaults={defaultOptions} />
+              <s-text-field
+                name="instruction"
+                label="Instruction"
+                details='Optional. For example "mention our 30-day return policy" or "shorter".'
+                value={instruction}
+                onInput={(e) => setInstruction(e.currentTarget.value)}
+                autocomplete="off"
+              ></s-text-field>
+              <s-stack direction="inline" gap="base">
+                <s-button
+                  type="submit"
+                  {...(streamed !== null ? { loading: true } : {})}
+                >
+                  {draft ? "Regenerate reply" : "Generate reply"}
+                </s-button>
+                <s-button
+                  disabled={streamed !== null}
+                  onClick={generateCandidateReplies}
+                  {...(isGeneratingCandidates ? { loading: true } : {})}
+                >
+                  {`Write ${Object.keys(CANDIDATE_STYLES).length} options`}
+                </s-button>
+                {streamed !== null && (
+                  <s-button variant="tertiary" onClick={cancelGeneration}>
+                    Cancel
+                  </s-button>
+                )}
+              </s-stack>
+            </s-stack>
+          </form>
+
+          {streamed !== null ? (
+            <s-text-area
+              label="Writing the reply"
+              rows={8}
+              value={streamed}
+              readOnly
+            ></s-text-area>
+          ) : (
+            draft && (
+              <>
+                <s-stack direction="inline" gap="small-200">
+                  <s-text>Status:</s-text>
+                  <ReplyStatusBadge status={draft.status} />
+                </s-stack>
+                {liveReply && (
+                  <s-banner tone="info">
+                    {`The reply published ${formatDateTime(liveReply.updatedAt, locale)} stays live until this one is published: "${liveReply.body}"`}
+                  </s-banner>
+                )}
+                <s-text-area
+                  label="Edit the reply before posting it"
+                  details={
+                    draft.status === "published" ||
+                    draft.status === "publishing"
+                      ? "Saving starts a new draft. The published reply stays live until the new one is published."
+                      : undefined
+                  }
+                  rows={8}
+                  value={reply}
+                  onInput={(e) => setReply(e.currentTarget.value)}
+                ></s-text-area>
+                <s-stack direction="inline" gap="base">
+                  <s-button
+                    disabled={reply === draft.body}
+                    onClick={() => submit({ intent: "save", body: reply })}
+                  >
+                    Save edits
+                  </s-button>
+                  {draft.status === "draft" && requireApproval && (
+                    <s-button
+                      variant="primary"
+                      onClick={() => transition("submit")}
+                    >
+                      Submit for approval
+                    </s-button>
+                  )}
+                  {((draft.status === "draft" && !requireApproval) ||
+                    draft.status === "pending_approval") && (
+                    <s-button
+                      variant="primary"
+                      disabled={!canApprove}
+                      onClick={() => transition("approve")}
+                    >
+                      Approve
+                    </s-button>
+                  )}
+                  {draft.status === "approved" && !blockingChecks.length && (
+                    <s-button
+                      variant="primary"
+                      disabled={!canApprove}
+                      onClick={() => transition("publish")}
+                    >
+                      {publishPlatform
+                        ? `Publish to ${PUBLISH_PLATFORMS[publishPlatform]}`
+                        : "Mark as published"}
+                    </s-button>
+                  )}
+                  {(draft.status === "pending_approval" ||
+                    draft.status === "approved") && (
+                    <s-button
+                      disabled={!canApprove}
+                      onClick={() => transition("return")}
+                    >
+                      Request changes
+                    </s-button>
+                  )}
+                  {(draft.status === "draft" ||
+                    draft.status === "pending_approval" ||
+                    draft.status === "approved") && (
+                    <s-button
+                      tone="critical"
+                      disabled={!canApprove}
+                      onClick={() => transition("reject")}
+                    >
+                      Reject
+                    </s-button>
+                  )}
+                  <s-button variant="tertiary" onClick={copyReply}>
+                    Copy reply
+                  </s-button>
+                </s-stack>
+              </>
+            )
+          )}
+        </s-stack>
+      </s-section>
+
+      {candidates.length > 0 && (
+        <s-section heading="Options">
+          <s-stack direction="block" gap="base">
+            {candidates[0].instruction && (
+              <s-text color="subdued">
+                {`Written for "${candidates[0].instruction}"`}
+              </s-text>
+            )}
+            <s-grid gridTemplateColumns="1fr 1fr 1fr" gap="base">
+              {candidates.map((candidate) => (
+                <s-box
+                  key={candidate.id}
+                  padding="base"
+                  border="base"
+                  borderRadius="base"
+                >
+                  <s-stack direction="block" gap="small-200">
+                    <s-stack direction="inline" gap="small-200">
+                      <s-heading>
+                        {CANDIDATE_STYLES[
+                          candidate.style as keyof typeof CANDIDATE_STYLES
+                        ]?.label ?? candidate.style}
+                      </s-heading>
+                      {candidate.chosenAt && (
+                        <s-badge tone="success">Used</s-badge>
+                      )}
+                    </s-stack>
+                    <s-paragraph>{candidate.body}</s-paragraph>
+                    <s-button
+                      onClick={() =>
+                        submit({
+                          intent: "chooseCandidate",
+                          candidateId: candidate.id,
+                        })
+                      }
+                    >
+                      Use this reply
+                    </s-button>
+                  </s-stack>
+                </s-box>
+              ))}
+            </s-grid>
+          </s-stack>
+        </s-section>
+      )}
+
+      {fromRevision && toRevision && (
+        <s-section heading="Changes">
+          <s-stack direction="block" gap="base">
+            <s-grid gridTemplateColumns="1fr 1fr" gap="base">
+              <s-select
+                label="From"
+                value={fromRevision.id}
+                onChange={(e) =>
+                  setCompare({ ...compare, from: e.currentTarget.value })
+                }
+              >
+                {revisions.map((revision) => (
+                  <s-option key={revision.id} value={revision.id}>
+                    {describeRevision(revision, locale)}
+                  </s-option>
+                ))}
+              </s-select>
+              <s-select
+                label="To"
+                value={toRevision.id}
+                onChange={(e) =>
+                  setCompare({ ...compare, to: e.currentTarget.value })
+                }
+              >
+                {revisions.map((revision) => (
+                  <s-option key={revision.id} value={revision.id}>
+                    {describeRevision(revision, locale)}
+                  </s-option>
+                ))}
+              </s-select>
+            </s-grid>
+            {changes.some(({ type }) => type !== "same") ? (
+              <s-paragraph>
+                {changes.map((part, index) =>
+                  part.type === "added" ? (
+                    <ins key={index}>
+                      <s-text tone="success">{part.text}</s-text>
+                    </ins>
+                  ) : part.type === "removed" ? (
+                    <del key={index}>
+                      <s-text tone="critical">{part.text}</s-text>
+                    </del>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  ),
+                )}
+              </s-paragraph>
+            ) : (
+              <s-paragraph>The two versions are the same.</s-paragraph>
+            )}
+          </s-stack>
+        </s-section>
+      )}
+
+      {draft && (
+        <s-section heading="Checks">
+          <s-stack direction="block" gap="base">
+            <s-unordered-list>
+              {checks.map((check) => (
+                <s-list-item key={check.id}>
+                  <s-stack direction="inline" gap="small-200">
+                    <s-badge tone={check.passed ? "success" : "critical"}>
+                      {check.passed ? "Passed" : "Failed"}
+                    </s-badge>
+                    <s-text>{check.message ?? check.label}</s-text>
+                  </s-stack>
+                </s-list-item>
+              ))}
+            </s-unordered-list>
+            {draft.overrideReason && (
+              <s-banner tone="warning">
+                {`Failed checks overridden by ${draft.overriddenBy ?? "Unknown user"}: ${draft.overrideReason}`}
+              </s-banner>
+            )}
+            {draft.status === "approved" && blockingChecks.length > 0 && (
+              <>
+                <s-paragraph>
+                  This reply can&apos;t be published until the failed checks are
+                  fixed, or you give a reason to publish it anyway.
+                </s-paragraph>
+                <s-text-area
+                  label="Reason for publishing anyway"
+                  rows={2}
+                  value={overrideReason}
+                  onInput={(e) => setOverrideReason(e.currentTarget.value)}
+                ></s-text-area>
+                <s-button
+                  tone="critical"
+                  disabled={!canApprove || !overrideReason.trim()}
+                  onClick={() =>
+                    submit({
+                      intent: "transition",
+                      transition: "publish",
+                      overrideReason,
+                    })
+                  }
+                >
+                  Publish anyway
+                </s-button>
+              </>
+            )}
+          </s-stack>
+        </s-section>
+      )}
+
+      {draft && (
+        <s-section heading="Comments">
+          <s-stack direction="block" gap="base">
+            {draft.comments.map((entry) => (
+              <s-box key={entry.id} padding="small" background="subdued">
+                <s-stack direction="block" gap="small-200">
+                  <s-text color="subdued">
+                    {`${entry.author ?? "Unknown user"} · ${formatDateTime(entry.createdAt, locale)}`}
+                  </s-text>
+                  <s-paragraph>{entry.body}</s-paragraph>
+                </s-stack>
+              </s-box>
+            ))}
+            <s-text-area
+              label="Add a comment"
+              rows={3}
+              value={comment}
+              onInput={(e) => setComment(e.currentTarget.value)}
+            ></s-text-area>
+            <s-button
+              disabled={!comment.trim()}
+              onClick={() =>
+                commentFetcher.submit(
+                  { intent: "comment", draftId: draft.id, body: comment },
+                  { method: "POST" },
+                )
+              }
+              {...(commentFetcher.state !== "idle" ? { loading: true } : {})}
+            >
+              Comment
+            </s-button>
+          </s-stack>
+        </s-section>
+      )}
+
+      {auditEvents.length > 0 && (
+        <s-section heading="Audit log" padding="none">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Action</s-table-header>
+              <s-table-header>By</s-table-header>
+              <s-table-header listSlot="secondary">When</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {auditEvents.map((event) => (
+                <s-table-row key={event.id}>
+                  <s-table-cell>
+                    {event.detail
+                      ? `${AUDIT_LABELS[event.action as AuditAction] ?? event.action} (${event.detail})`
+                      : (AUDIT_LABELS[event.action as AuditAction] ??
+                        event.action)}
+                  </s-table-cell>
+                  <s-table-cell>{event.actor ?? "Unknown user"}</s-table-cell>
+                  <s-table-cell>
+                    {formatDateTime(event.createdAt, locale)}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      {product && (
+        <s-section slot="aside" heading="Product context">
+          <s-stack direction="block" gap="small-200">
+            <s-text>{product.title}</s-text>
+            <s-text color="subdued">
+              Generated replies can draw on these catalog details.
+            </s-text>
+            <s-unordered-list>
+              {product.productType && (
+                <s-list-item>{`Type: ${product.productType}`}</s-list-item>
+              )}
+              <s-list-item>
+                {`${product.variants.length} ${product.variants.length === 1 ? "variant" : "variants"}`}
+              </s-list-item>
+              {product.description && <s-list-item>Description</s-list-item>}
+              {product.metafields.map(({ key }) => (
+                <s-list-item key={key}>{key}</s-list-item>
+              ))}
+            </s-unordered-list>
+          </s-stack>
+        </s-section>
+      )}
+
+      {order && (
+        <s-section slot="aside" heading="Order context">
+          <s-stack direction="block" gap="small-200">
+            <s-text>{`Order ${order.name}`}</s-text>
+            <s-text color="subdued">
+              The latest generated reply was written with these order details.
+            </s-text>
+            <s-unordered-list>
+              <s-list-item>
+                {`Placed ${formatDate(order.createdAt, locale)}`}
+              </s-list-item>
+              <s-list-item>
+                {`Fulfillment: ${order.fulfillmentStatus.toLowerCase().replace(/_/g, " ")}`}
+              </s-list-item>
+              {order.deliveredAt && (
+                <s-list-item>
+                  {`Delivered ${formatDate(order.deliveredAt, locale)}`}
+                </s-list-item>
+              )}
+              {order.lineItems.map((item, index) => (
+                <s-list-item key={index}>
+                  {`${item.quantity} × ${item.title}${item.variantTitle ? ` (${item.variantTitle})` : ""}`}
+                </s-list-item>
+              ))}
+            </s-unordered-list>
+          </s-stack>
+        </s-section>
+      )}
+
+      {!orderAccess && review.reviewerEmail && (
+        <s-section slot="aside" heading="Order context">
+          <s-paragraph>
+            Replies can take the reviewer&apos;s order into account once you{" "}
+            <s-link href="/app/settings">allow order lookups</s-link>.
+          </s-paragraph>
+        </s-section>
+      )}
+
+      {discount && (
+        <s-section slot="aside" heading="Discount code">
+          <s-stack direction="block" gap="small-200">
+            <s-text>{discount.code}</s-text>
+            <s-text color="subdued">
+              {discount.discountId
+                ? `${discount.amount} ${discount.currencyCode} off, created ${formatDate(discount.createdAt, locale)}. ${discount.redeemedAt ? "Redeemed" : "Not redeemed yet"}.`
+                : `${discount.amount} ${discount.currencyCode} off. Reserved for this review; the code is created when a reply quoting it is published.`}
+            </s-text>
+          </s-stack>
+        </s-section>
+      )}
+
+      {publications.length > 0 && (
+        <s-section slot="aside" heading="Publishing">
+          <s-stack direction="block" gap="base">
+            {publications.map((publication) => {
+              const badge =
+                PUBLICATION_BADGES[publication.status as PublicationStatus];
+
+              return (
+                <s-stack key={publication.id} direction="block" gap="small-200">
+                  <s-stack direction="inline" gap="small-200">
+                    <s-text>
+                      {PUBLISH_PLATFORMS[
+                        publication.platform as keyof typeof PUBLISH_PLATFORMS
+                      ] ?? publication.platform}
+                    </s-text>
+                    <s-badge tone={badge?.tone}>
+                      {badge?.label ?? publication.status}
+                    </s-badge>
+                  </s-stack>
+                  <s-text color="subdued">
+                    {publication.publishedAt
+                      ? `Published ${formatDateTime(publication.publishedAt, locale)}${publication.remoteId ? ` · ID ${publication.remoteId}` : ""}`
+                      : `Queued ${formatDateTime(publication.createdAt, locale)} · ${publication.attempts} ${publication.attempts === 1 ? "attempt" : "attempts"}`}
+                  </s-text>
+                  {publication.error && publication.status !== "published" && (
+                    <s-text tone="critical">{publication.error}</s-text>
+                  )}
+                  {publication.status === "failed" &&
+                    draft?.status === "approved" && (
+                      <s-button
+                        variant="tertiary"
+                        disabled={!canApprove}
+                        onClick={() =>
+                          submit({
+                            intent: "retryPublication",
+                            publicationId: publication.id,
+                          })
+                        }
+                      >
+                        Retry
+                      </s-button>
+                    )}
+                </s-stack>
+              );
+            })}
+          </s-stack>
+        </s-section>
+      )}
+
+      {draft && (
+        <s-section slot="aside" heading="History">
+          <s-unordered-list>
+            {draft.revisions.map((revision) => (
+              <s-list-item key={revision.id}>
+                {describeRevision(revision, locale)}
+              </s-list-item>
+            ))}
+          </s-unordered-list>
+        </s-section>
+      )}
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,509 @@
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData, useRevalidator } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { REPLY_LANGUAGES } from "../llm/options";
+import { DISCOUNT_SCOPES, ORDER_SCOPES, hasScopes } from "../scopes";
+import { refreshDiscountRedemptions } from "../service-discount.server";
+import { getDiscountSummary } from "../models/service-discount.server";
+import {
+  COMPLIANCE_TOPICS,
+  listComplianceRequests,
+  type ComplianceTopic,
+} from "../models/compliance.server";
+import { formatDateTime, useMerchantLocale } from "../locale";
+import { downloadFile } from "../download";
+import { isConnectedPlatform } from "../publishing/platforms";
+import { canApprove, guardApprovalSettings } from "../approvals.server";
+import { IMPORT_PLATFORMS } from "../review-import/platforms";
+import {
+  getWebhookSecret,
+  rotateWebhookSecret,
+} from "../models/review-webhook.server";
+import {
+  deletePublishingConnection,
+  listConnectedPlatforms,
+  savePublishingConnection,
+} from "../models/publishing-connection.server";
+import {
+  getReplyPolicy,
+  parseReplyPolicy,
+  saveReplyPolicy,
+  type ReplyPolicyErrors,
+} from "../models/settings.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, scopes, session } = await authenticate.admin(request);
+
+  await refreshDiscountRedemptions(admin, session.shop);
+  const [
+    policy,
+    { granted },
+    connected,
+    webhookSecret,
+    discountSummary,
+    complianceRequests,
+  ] = await Promise.all([
+    getReplyPolicy(session.shop),
+    scopes.query(),
+    listConnectedPlatforms(session.shop),
+    getWebhookSecret(session.shop),
+    getDiscountSummary(session.shop),
+    listComplianceRequests(session.shop),
+  ]);
+
+  return {
+    policy,
+    canEditApprovals: canApprove(session, policy),
+    orderAccess: hasScopes(granted, ORDER_SCOPES),
+    discountAccess: hasScopes(granted, DISCOUNT_SCOPES),
+    discountSummary,
+    complianceRequests,
+    connected,
+    webhookSecret,
+    webhookUrl: `${process.env.SHOPIFY_APP_URL ?? ""}/webhooks/reviews/{platform}?shop=${session.shop}`,
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { scopes, session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  if (formData.get("intent") === "revokeOrderAccess") {
+    await scopes.revoke(ORDER_SCOPES);
+
+    return { errors: {}, saved: false };
+  }
+
+  if (formData.get("intent") === "rotateWebhookSecret") {
+    await rotateWebhookSecret(session.shop);
+
+    return { errors: {}, saved: false };
+  }
+
+  const platform = formData.get("platform");
+  if (formData.get("intent") === "connect" && isConnectedPlatform(platform)) {
+    const apiKey = String(formData.get("apiKey") ?? "").trim();
+    const apiSecret = String(formData.get("apiSecret") ?? "").trim();
+    if (!apiKey || (platform === "yotpo" && !apiSecret)) {
+      return {
+        errors: {},
+        saved: false,
+        connectionError: "Enter the credentials to connect",
+      };
+    }
+    await savePublishingConnection(session.shop, platform, apiKey, apiSecret);
+
+    return { errors: {}, saved: true };
+  }
+  if (
+    formData.get("intent") === "disconnect" &&
+    isConnectedPlatform(platform)
+  ) {
+    await deletePublishingConnection(session.shop, platform);
+
+    return { errors: {}, saved: false };
+  }
+
+  const { policy, errors } = parseReplyPolicy(formData);
+  if (Object.keys(errors).length) {
+    return { errors, saved: false };
+  }
+
+  await saveReplyPolicy(
+    session.shop,
+    guardApprovalSettings(session, await getReplyPolicy(session.shop), policy),
+  );
+
+  return { errors: {}, saved: true };
+};
+
+export default function SettingsPage() {
+  const {
+    policy,
+    canEditApprovals,
+    orderAccess,
+    discountAccess,
+    discountSummary,
+    complianceRequests,
+    connected,
+    webhookSecret,
+    webhookUrl,
+  } = useLoaderData<typeof loader>();
+  const locale = useMerchantLocale();
+  const fetcher = useFetcher<typeof action>();
+  const scopesFetcher = useFetcher<typeof action>();
+  const connectionFetcher = useFetcher<typeof action>();
+  const revalidator = useRevalidator();
+  const shopify = useAppBridge();
+
+  const allowOrderLookups = async () => {
+    const { result } = await shopify.scopes.request(ORDER_SCOPES);
+    if (result === "granted-all") {
+      shopify.toast.show("Order lookups allowed");
+      revalidator.revalidate();
+    }
+  };
+
+  const isSaving = fetcher.state !== "idle";
+  const errors: ReplyPolicyErrors = fetcher.data?.errors ?? {};
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.saved) {
+      shopify.toast.show("Settings saved");
+    }
+  }, [fetcher.state, fetcher.data, shopify]);
+
+  useEffect(() => {
+    if (connectionFetcher.state !== "idle" || !connectionFetcher.data) {
+      return;
+    }
+    const { connectionError, saved } = connectionFetcher.data;
+    if (connectionError) {
+      shopify.toast.show(connectionError, { isError: true });
+    } else if (saved) {
+      shopify.toast.show("Connected");
+    }
+  }, [connectionFetcher.state, connectionFetcher.data, shopify]);
+
+  const downloadExport = (id: string) =>
+    downloadFile(`/app/privacy/${id}`, `customer-data-${id}.json`).catch(() =>
+      shopify.toast.show("The export could not be downloaded", {
+        isError: true,
+      }),
+    );
+
+  const disconnect = (platform: string) =>
+    connectionFetcher.submit(
+      { intent: "disconnect", platform },
+      { method: "POST" },
+    );
+
+  return (
+    <s-page heading="Settings">
+      <fetcher.Form method="post">
+        <s-section heading="Brand voice">
+          <s-stack direction="block" gap="base">
+            <s-text-area
+              name="brandVoice"
+              label="How should replies sound?"
+              details="For example: warm and playful, first names, no corporate jargon."
+              rows={4}
+              defaultValue={policy.brandVoice}
+            ></s-text-area>
+            <s-text-field
+              name="signOff"
+              label="Sign-off"
+              details="Added to the end of every reply, e.g. “— The Acme Team”."
+              defaultValue={policy.signOff}
+            ></s-text-field>
+            <s-text-area
+              name="bannedPhrases"
+              label="Banned phrases"
+              details="One per line. Replies are told never to use them."
+              rows={4}
+              defaultValue={policy.bannedPhrases}
+            ></s-text-area>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Reply policy">
+          <s-stack direction="block" gap="base">
+            <s-checkbox
+              name="allowDiscounts"
+              label="Replies may offer a discount code"
+              defaultChecked={policy.allowDiscounts}
+            ></s-checkbox>
+            <s-checkbox
+              name="serviceDiscounts"
+              label="Create a single-use discount code for replies to 1 and 2 star reviews"
+              details="Codes are valid for 60 days and are offered in the reply as an apology."
+              defaultChecked={policy.serviceDiscounts}
+              error={errors.serviceDiscounts}
+            ></s-checkbox>
+            <s-grid gridTemplateColumns="1fr 1fr" gap="base">
+              <s-number-field
+                name="serviceDiscountAmount"
+                label="Amount off each code"
+                details="In your store's currency."
+                min={1}
+                max={1000}
+                defaultValue={String(policy.serviceDiscountAmount)}
+                error={errors.serviceDiscountAmount}
+              ></s-number-field>
+              <s-number-field
+                name="serviceDiscountMonthlyBudget"
+                label="Monthly budget"
+                details="No more codes are created once their total value reaches it."
+                min={1}
+                defaultValue={String(policy.serviceDiscountMonthlyBudget)}
+                error={errors.serviceDiscountMonthlyBudget}
+              ></s-number-field>
+            </s-grid>
+            {policy.serviceDiscounts && (
+              <s-text color="subdued">
+                {discountAccess
+                  ? `This month: ${discountSummary.created} codes worth ${discountSummary.spent} of ${policy.serviceDiscountMonthlyBudget}, ${discountSummary.redeemed} redeemed.`
+                  : "Approve the app's access to discounts in your Shopify admin to create codes."}
+              </s-text>
+            )}
+            <s-checkbox
+              name="allowRefunds"
+              label="Replies may offer a refund or replacement"
+              defaultChecked={policy.allowRefunds}
+            ></s-checkbox>
+            <s-text-area
+              name="competitors"
+              label="Competitors"
+              details="One per line. Replies that mention them are held back from publishing."
+              rows={3}
+              defaultValue={policy.competitors}
+            ></s-text-area>
+            <s-number-field
+              name="maxLength"
+              label="Maximum reply length"
+              suffix="characters"
+              min={100}
+              max={5000}
+              defaultValue={String(policy.maxLength)}
+              error={errors.maxLength}
+            ></s-number-field>
+            <s-checkbox
+              name="matchReviewLanguage"
+              label="Reply in the reviewer's language"
+              details="German, French, Spanish and Dutch reviews are answered in their own language. Other reviews use the default language."
+              defaultChecked={policy.matchReviewLanguage}
+            ></s-checkbox>
+            <s-select
+              name="defaultLanguage"
+              label="Default reply language"
+              value={policy.defaultLanguage}
+              error={errors.defaultLanguage}
+            >
+              {Object.entries(REPLY_LANGUAGES).map(([code, label]) => (
+                <s-option key={code} value={code}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Approvals">
+          <s-stack direction="block" gap="base">
+            {!canEditApprovals && (
+              <s-paragraph>
+                Only the store owner and approvers can change these settings.
+              </s-paragraph>
+            )}
+            <s-checkbox
+              name="requireApproval"
+              label="Replies must be approved before they are published"
+              details="Staff submit drafts for approval instead of approving them directly."
+              defaultChecked={policy.requireApproval}
+              disabled={!canEditApprovals}
+            ></s-checkbox>
+            <s-text-area
+              name="approvers"
+              label="Approvers"
+              details="Staff emails, one per line. The store owner can always approve."
+              rows={4}
+              defaultValue={policy.approvers}
+              error={errors.approvers}
+              disabled={!canEditApprovals}
+            ></s-text-area>
+            <s-checkbox
+              name="autoPublishFiveStar"
+              label="Publish replies to 5-star reviews from review webhooks automatically"
+              details="Skips approval. Replies that fail a publishing check wait for review instead."
+              defaultChecked={policy.autoPublishFiveStar}
+              disabled={!canEditApprovals}
+            ></s-checkbox>
+            <s-button
+              type="submit"
+              variant="primary"
+              {...(isSaving ? { loading: true } : {})}
+            >
+              Save
+            </s-button>
+          </s-stack>
+        </s-section>
+      </fetcher.Form>
+
+      <s-section heading="Order context">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            When a review includes the reviewer&apos;s email, replies can take
+            their latest order into account, such as late deliveries or the size
+            they bought. Order details are never quoted in replies. This needs
+            access to your customers and orders.
+          </s-paragraph>
+          {orderAccess ? (
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <s-badge tone="success">Allowed</s-badge>
+              <s-button
+                onClick={() =>
+                  scopesFetcher.submit(
+                    { intent: "revokeOrderAccess" },
+                    { method: "POST" },
+                  )
+                }
+                {...(scopesFetcher.state !== "idle" ? { loading: true } : {})}
+              >
+                Stop order lookups
+              </s-button>
+            </s-stack>
+          ) : (
+            <s-button onClick={allowOrderLookups}>Allow order lookups</s-button>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Review webhooks">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Review platforms can send new and updated reviews to the app as they
+            are written. A reply draft is generated for each review that does
+            not have one.
+          </s-paragraph>
+          <s-text-field
+            label="Webhook URL"
+            details={`Replace {platform} with one of: ${Object.keys(IMPORT_PLATFORMS).join(", ")}.`}
+            value={webhookUrl}
+            readOnly
+          ></s-text-field>
+          {webhookSecret && (
+            <s-text-field
+              label="Signing secret"
+              details="Sign each request body with HMAC-SHA256 and send it in the X-Review-Signature header."
+              value={webhookSecret}
+              readOnly
+            ></s-text-field>
+          )}
+          <s-button
+            onClick={() =>
+              scopesFetcher.submit(
+                { intent: "rotateWebhookSecret" },
+                { method: "POST" },
+              )
+            }
+          >
+            {webhookSecret ? "Replace signing secret" : "Create signing secret"}
+          </s-button>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Publishing">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Published replies to imported reviews are posted back to the
+            platform they came from. Replies to other reviews with a product are
+            added to the product&apos;s reviews metafield.
+          </s-paragraph>
+          <s-heading>Judge.me</s-heading>
+          {connected.includes("judgeme") ? (
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <s-badge tone="success">Connected</s-badge>
+              <s-button onClick={() => disconnect("judgeme")}>
+                Disconnect
+              </s-button>
+            </s-stack>
+          ) : (
+            <connectionFetcher.Form method="post">
+              <input type="hidden" name="intent" value="connect" />
+              <input type="hidden" name="platform" value="judgeme" />
+              <s-stack direction="block" gap="base">
+                <s-password-field
+                  name="apiKey"
+                  label="Private API token"
+                ></s-password-field>
+                <s-button type="submit">Connect Judge.me</s-button>
+              </s-stack>
+            </connectionFetcher.Form>
+          )}
+          <s-heading>Yotpo</s-heading>
+          {connected.includes("yotpo") ? (
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <s-badge tone="success">Connected</s-badge>
+              <s-button onClick={() => disconnect("yotpo")}>
+                Disconnect
+              </s-button>
+            </s-stack>
+          ) : (
+            <connectionFetcher.Form method="post">
+              <input type="hidden" name="intent" value="connect" />
+              <input type="hidden" name="platform" value="yotpo" />
+              <s-stack direction="block" gap="base">
+                <s-text-field name="apiKey" label="App key"></s-text-field>
+                <s-password-field
+                  name="apiSecret"
+                  label="Secret key"
+                ></s-password-field>
+                <s-button type="submit">Connect Yotpo</s-button>
+              </s-stack>
+            </connectionFetcher.Form>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Privacy requests" padding="none">
+        {complianceRequests.length ? (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Request</s-table-header>
+              <s-table-header>Received</s-table-header>
+              <s-table-header format="numeric">Reviews</s-table-header>
+              <s-table-header></s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {complianceRequests.map((request) => (
+                <s-table-row key={request.id}>
+                  <s-table-cell>
+                    {COMPLIANCE_TOPICS[request.topic as ComplianceTopic] ??
+                      request.topic}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {formatDateTime(request.createdAt, locale)}
+                  </s-table-cell>
+                  <s-table-cell>{request.reviews}</s-table-cell>
+                  <s-table-cell>
+                    {request.hasExport ? (
+                      <s-button
+                        variant="tertiary"
+                        onClick={() => downloadExport(request.id)}
+                      >
+                        Download data
+                      </s-button>
+                    ) : (
+                      request.topic === "customers/data_request" && (
+                        <s-text color="subdued">Erased</s-text>
+                      )
+                    )}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        ) : (
+          <s-box padding="base">
+            <s-paragraph>
+              Customer data requests and erasure requests sent by Shopify are
+              listed here. Data requests can be downloaded to send on to the
+              customer.
+            </s-paragraph>
+          </s-box>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  deleteReplyTemplate,
+  getReplyTemplate,
+  getVariantStats,
+  parseReplyTemplate,
+  saveReplyTemplate,
+  type ReplyTemplateErrors,
+} from "../models/reply-template.server";
+import { TOPICS } from "../classification";
+import { REPLY_LANGUAGES } from "../llm/options";
+import { TEMPLATE_MODES, TEMPLATE_VARIABLES } from "../reply-templates";
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  if (params.id === "new") {
+    return { template: null, stats: {} };
+  }
+
+  const template = await getReplyTemplate(session.shop, params.id!);
+  if (!template) {
+    throw new Response("Template not found", { status: 404 });
+  }
+
+  return {
+    template,
+    stats: await getVariantStats(
+      session.shop,
+      template.variants.map(({ id }) => id),
+    ),
+  };
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session, redirect } = await authenticate.admin(request);
+  const id = params.id === "new" ? null : params.id!;
+
+  const formData = await request.formData();
+  if (formData.get("intent") === "delete") {
+    if (id) {
+      await deleteReplyTemplate(session.shop, id);
+    }
+
+    return redirect("/app/templates");
+  }
+
+  const { template: input, errors } = parseReplyTemplate(formData);
+  if (Object.keys(errors).length) {
+    return { errors, saved: false };
+  }
+
+  const template = await saveReplyTemplate(session.shop, id, input);
+  if (!template) {
+    throw new Response("Template not found", { status: 404 });
+  }
+  if (!id) {
+    return redirect(`/app/templates/${template.id}`);
+  }
+
+  return { errors: {}, saved: true };
+};
+
+let nextKey = 0;
+
+function toVariantFields(variants: { id: string; body: string }[]) {
+  const fields = variants.map(({ id, body }) => ({
+    key: nextKey++,
+    id,
+    body,
+  }));
+
+  return fields.length ? fields : [{ key: nextKey++, id: "", body: "" }];
+}
+
+export default function TemplatePage() {
+  const { template, stats } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const deleteFetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+  const [variants, setVariants] = useState(() =>
+    toVariantFields(template?.variants ?? []),
+  );
+
+  useEffect(() => {
+    setVariants(toVariantFields(template?.variants ?? []));
+  }, [template]);
+
+  const isSaving = fetcher.state !== "idle";
+  const errors: ReplyTemplateErrors = fetcher.data?.errors ?? {};
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.saved) {
+      shopify.toast.show("Template saved");
+    }
+  }, [fetcher.state, fetcher.data, shopify]);
+
+  const labels = new Map(
+    (template?.variants ?? []).map(({ id, label }) => [id, label]),
+  );
+
+  return (
+    <s-page heading={template?.name ?? "New template"}>
+      <fetcher.Form method="post">
+        <s-section heading="Template">
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              name="name"
+              label="Name"
+              defaultValue={template?.name ?? ""}
+              error={errors.name}
+            ></s-text-field>
+            <s-select
+              name="mode"
+              label="How replies use it"
+              details="Personalised replies keep the template's message but are reworded to fit each review."
+              value={template?.mode ?? "seed"}
+            >
+              {Object.entries(TEMPLATE_MODES).map(([mode, label]) => (
+                <s-option key={mode} value={mode}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+            <s-checkbox
+              name="active"
+              label="Use this template for new replies"
+              defaultChecked={template?.active ?? true}
+            ></s-checkbox>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Use for reviews that match">
+          <s-stack direction="block" gap="base">
+            <s-grid gridTemplateColumns="1fr 1fr" gap="base">
+              <s-select
+                name="minRating"
+                label="From"
+                value={String(template?.minRating ?? 1)}
+                error={errors.rating}
+              >
+                {RATINGS.map((rating) => (
+                  <s-option key={rating} value={String(rating)}>
+                    {`${rating} stars`}
+                  </s-option>
+                ))}
+              </s-select>
+              <s-select
+                name="maxRating"
+                label="To"
+                value={String(template?.maxRating ?? 5)}
+              >
+                {RATINGS.map((rating) => (
+                  <s-option key={rating} value={String(rating)}>
+                    {`${rating} stars`}
+                  </s-option>
+                ))}
+              </s-select>
+            </s-grid>
+            <s-select name="topic" label="Topic" value={template?.topic ?? ""}>
+              <s-option value="">Any topic</s-option>
+              {Object.entries(TOPICS).map(([topic, label]) => (
+                <s-option key={topic} value={topic}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+            <s-text-field
+              name="productTag"
+              label="Product tag"
+              details="Only reviews of products with this tag. Leave empty for all products."
+              defaultValue={template?.productTag ?? ""}
+            ></s-text-field>
+            <s-select
+              name="language"
+              label="Reply language"
+              value={template?.language ?? ""}
+            >
+              <s-option value="">Any language</s-option>
+              {Object.entries(REPLY_LANGUAGES).map(([code, label]) => (
+                <s-option key={code} value={code}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+            <s-paragraph>
+              When several templates match, the one with the most conditions is
+              used.
+            </s-paragraph>
+          </s-stack>
+        </s-section>
+
+        <s-section heading="Variants">
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              Each reply uses one variant at random, so you can compare how they
+              do. Variables:{" "}
+              {Object.entries(TEMPLATE_VARIABLES)
+                .map(([name, label]) => `{{${name}}} (${label.toLowerCase()})`)
+                .join(", ")}
+              . A variant is skipped when a variable has no value.
+            </s-paragraph>
+            {errors.variants && (
+              <s-text tone="critical">{errors.variants}</s-text>
+            )}
+            {variants.map((variant, index) => (
+              <s-stack key={variant.key} direction="block" gap="small-200">
+                <input type="hidden" name="variantId" value={variant.id} />
+                <s-text-area
+                  name="variantBody"
+                  label={`Variant ${labels.get(variant.id) ?? index + 1}`}
+                  rows={4}
+                  value={variant.body}
+                  onInput={(e) => {
+                    const body = e.currentTarget.value;
+                    setVariants((current) =>
+                      current.map((field) =>
+                        field.key === variant.key ? { ...field, body } : field,
+                      ),
+                    );
+                  }}
+                ></s-text-area>
+                {variants.length > 1 && (
+                  <s-button
+                    variant="tertiary"
+                    tone="critical"
+                    onClick={() =>
+                      setVariants((current) =>
+                        current.filter(({ key }) => key !== variant.key),
+                      )
+                    }
+                  >
+                    Remove variant
+                  </s-button>
+                )}
+              </s-stack>
+            ))}
+            <s-stack direction="inline" gap="base">
+              <s-button
+                onClick={() =>
+                  setVariants((current) => [
+                    ...current,
+                    { key: nextKey++, id: "", body: "" },
+                  ])
+                }
+              >
+                Add variant
+              </s-button>
+              <s-button
+                type="submit"
+                variant="primary"
+                {...(isSaving ? { loading: true } : {})}
+              >
+                Save
+              </s-button>
+            </s-stack>
+          </s-stack>
+        </s-section>
+      </fetcher.Form>
+
+      {template && (
+        <s-section heading="Results" slot="aside">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Variant</s-table-header>
+              <s-table-header format="numeric">Used</s-table-header>
+              <s-table-header format="numeric">Published</s-table-header>
+              <s-table-header format="numeric">Unedited</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {template.variants.map((variant) => (
+                <s-table-row key={variant.id}>
+                  <s-table-cell>{variant.label}</s-table-cell>
+                  <s-table-cell>{stats[variant.id]?.used ?? 0}</s-table-cell>
+                  <s-table-cell>
+                    {stats[variant.id]?.published ?? 0}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {stats[variant.id]?.publishedUnedited ?? 0}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      {template && (
+        <s-section heading="Delete" slot="aside">
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              Replies already written from this template are kept.
+            </s-paragraph>
+            <s-button
+              tone="critical"
+              onClick={() =>
+                deleteFetcher.submit({ intent: "delete" }, { method: "POST" })
+              }
+            >
+              Delete template
+            </s-button>
+          </s-stack>
+        </s-section>
+      )}
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,102 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { listReplyTemplates } from "../models/reply-template.server";
+import { TOPICS, type Topic } from "../classification";
+import { REPLY_LANGUAGES, type ReplyLanguage } from "../llm/options";
+import { TEMPLATE_MODES, type TemplateMode } from "../reply-templates";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  return { templates: await listReplyTemplates(session.shop) };
+};
+
+function describeRules(template: {
+  minRating: number;
+  maxRating: number;
+  topic: string | null;
+  productTag: string | null;
+  language: string | null;
+}) {
+  const rules = [
+    template.minRating === template.maxRating
+      ? `${template.minRating} stars`
+      : `${template.minRating}–${template.maxRating} stars`,
+  ];
+  if (template.topic) {
+    rules.push(TOPICS[template.topic as Topic] ?? template.topic);
+  }
+  if (template.productTag) {
+    rules.push(`tagged “${template.productTag}”`);
+  }
+  if (template.language) {
+    rules.push(
+      REPLY_LANGUAGES[template.language as ReplyLanguage] ?? template.language,
+    );
+  }
+
+  return rules.join(", ");
+}
+
+export default function TemplatesPage() {
+  const { templates } = useLoaderData<typeof loader>();
+
+  return (
+    <s-page heading="Reply templates">
+      <s-button slot="primary-action" href="/app/templates/new">
+        New template
+      </s-button>
+      <s-section padding="none">
+        {templates.length ? (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Name</s-table-header>
+              <s-table-header listSlot="secondary">Status</s-table-header>
+              <s-table-header>Used for</s-table-header>
+              <s-table-header>Mode</s-table-header>
+              <s-table-header format="numeric">Variants</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {templates.map((template) => (
+                <s-table-row key={template.id}>
+                  <s-table-cell>
+                    <s-link href={`/app/templates/${template.id}`}>
+                      {template.name}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {template.active ? (
+                      <s-badge tone="success">Active</s-badge>
+                    ) : (
+                      <s-badge>Paused</s-badge>
+                    )}
+                  </s-table-cell>
+                  <s-table-cell>{describeRules(template)}</s-table-cell>
+                  <s-table-cell>
+                    {TEMPLATE_MODES[template.mode as TemplateMode] ??
+                      template.mode}
+                  </s-table-cell>
+                  <s-table-cell>{template._count.variants}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        ) : (
+          <s-box padding="base">
+            <s-paragraph>
+              No templates yet. Templates give replies to matching reviews a
+              consistent message, either word for word or as a starting point
+              that is personalised for each review.
+            </s-paragraph>
+          </s-box>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -4,12 +4,16 @@ import { boundary } from "@shopify/shopify-app-react-router/server";
 import { AppProvider } from "@shopify/shopify-app-react-router/react";
 
 import { authenticate } from "../shopify.server";
+import { getSessionLocale } from "../session-user.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
   // eslint-disable-next-line no-undef
-  return { apiKey: process.env.SHOPIFY_API_KEY || "" };
+  return {
+    apiKey: process.env.SHOPIFY_API_KEY || "",
+    locale: getSessionLocale(session),
+  };
 };
 
 export default function App() {
@@ -19,7 +23,12 @@ export default function App() {
     <AppProvider embedded apiKey={apiKey}>
       <s-app-nav>
         <s-link href="/app">Home</s-link>
-        <s-link href="/app/additional">Additional page</s-link>
+        <s-link href="/app/import">Import reviews</s-link>
+        <s-link href="/app/jobs">Jobs</s-link>
+        <s-link href="/app/analytics">Analytics</s-link>
+        <s-link href="/app/templates">Templates</s-link>
+        <s-link href="/app/usage">Usage</s-link>
+        <s-link href="/app/settings">Settings</s-link>
       </s-app-nav>
       <Outlet />
     </AppProvider>
@@ -0,0 +1,185 @@
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { authenticate, isTestBilling } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import {
+  FREE_PLAN,
+  PAID_PLANS,
+  PLANS,
+  getPlan,
+  isPaidPlan,
+  type Plan,
+} from "../billing";
+import {
+  getMonthlyUsage,
+  listUsageHistory,
+  saveShopPlan,
+} from "../models/usage.server";
+import { useMerchantLocale } from "../locale";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  // Billing is the source of truth; the stored plan is what quotas read.
+  const { appSubscriptions } = await billing.check({
+    plans: [...PAID_PLANS],
+    isTest: isTestBilling,
+  });
+  const [subscription] = appSubscriptions;
+  const plan = getPlan(subscription?.name);
+  await saveShopPlan(session.shop, plan, subscription?.id ?? null);
+
+  const [usage, history] = await Promise.all([
+    getMonthlyUsage(session.shop),
+    listUsageHistory(session.shop),
+  ]);
+
+  return { plan, usage, history };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const plan = formData.get("plan");
+  if (formData.get("intent") === "subscribe" && isPaidPlan(plan)) {
+    const store = session.shop.replace(".myshopify.com", "");
+
+    // Redirects the merchant to Shopify to approve the charge.
+    return billing.request({
+      plan,
+      isTest: isTestBilling,
+      returnUrl: `https://admin.shopify.com/store/${store}/apps/${process.env.SHOPIFY_API_KEY}/app/usage`,
+    });
+  }
+
+  if (formData.get("intent") === "cancel") {
+    const { appSubscriptions } = await billing.check({
+      plans: [...PAID_PLANS],
+      isTest: isTestBilling,
+    });
+    for (const subscription of appSubscriptions) {
+      await billing.cancel({
+        subscriptionId: subscription.id,
+        isTest: isTestBilling,
+        prorate: true,
+      });
+    }
+    await saveShopPlan(session.shop, FREE_PLAN, null);
+  }
+
+  return null;
+};
+
+function formatMonth(month: string, locale: string) {
+  return new Intl.DateTimeFormat(locale, {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(new Date(`${month}-01T00:00:00Z`));
+}
+
+export default function UsagePage() {
+  const { plan, usage, history } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const locale = useMerchantLocale();
+  const number = new Intl.NumberFormat(locale);
+  const limit = PLANS[plan].replies;
+
+  const choose = (next: Plan) =>
+    fetcher.submit(
+      isPaidPlan(next)
+        ? { intent: "subscribe", plan: next }
+        : { intent: "cancel" },
+      { method: "POST" },
+    );
+
+  return (
+    <s-page heading="Plan and usage">
+      <s-section heading={formatMonth(usage.month, locale)}>
+        <s-stack direction="block" gap="small-200">
+          <s-text>
+            {`${number.format(usage.generations)} of ${number.format(limit)} replies used on the ${plan} plan`}
+          </s-text>
+          <s-text color="subdued">
+            {`${number.format(usage.inputTokens)} input and ${number.format(usage.outputTokens)} output tokens. Replies written from a template as-is use no tokens but still count.`}
+          </s-text>
+          {usage.generations >= limit && (
+            <s-text tone="critical">
+              Reply generation is paused until next month or until you upgrade.
+            </s-text>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Plans">
+        <s-grid gridTemplateColumns="1fr 1fr 1fr" gap="base">
+          {(Object.keys(PLANS) as Plan[]).map((name) => (
+            <s-box key={name} padding="base" border="base" borderRadius="base">
+              <s-stack direction="block" gap="small-200">
+                <s-heading>{name}</s-heading>
+                <s-text>
+                  {PLANS[name].price
+                    ? `$${PLANS[name].price} every 30 days`
+                    : "Free"}
+                </s-text>
+                <s-text color="subdued">
+                  {`${number.format(PLANS[name].replies)} replies a month`}
+                </s-text>
+                {name === plan ? (
+                  <s-badge tone="success">Current plan</s-badge>
+                ) : (
+                  <s-button
+                    onClick={() => choose(name)}
+                    {...(fetcher.state !== "idle" ? { loading: true } : {})}
+                  >
+                    {PLANS[name].replies > limit ? "Upgrade" : "Downgrade"}
+                  </s-button>
+                )}
+              </s-stack>
+            </s-box>
+          ))}
+        </s-grid>
+      </s-section>
+
+      {history.length > 0 && (
+        <s-section heading="History" padding="none">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Month</s-table-header>
+              <s-table-header format="numeric">Replies</s-table-header>
+              <s-table-header format="numeric">Input tokens</s-table-header>
+              <s-table-header format="numeric">Output tokens</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {history.map((month) => (
+                <s-table-row key={month.month}>
+                  <s-table-cell>
+                    {formatMonth(month.month, locale)}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {number.format(month.generations)}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {number.format(month.inputTokens)}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {number.format(month.outputTokens)}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
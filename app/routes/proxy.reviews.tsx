@@ -0,0 +1,39 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { listStorefrontReviews } from "../models/review.server";
+import { parseStorefrontReviewQuery } from "../storefront-reviews.server";
+
+/** How long browsers and the storefront CDN may reuse a page of reviews. */
+const CACHE_SECONDS = 300;
+
+function toProductGid(id: string) {
+  return id.startsWith("gid://") ? id : `gid://shopify/Product/${id}`;
+}
+
+/**
+ * Serves a product's reviews and published replies to the storefront reviews
+ * block, at `/apps/review-replies` on the shop's domain. Shopify signs app
+ * proxy requests, and `authenticate.public.appProxy` rejects unsigned ones.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.public.appProxy(request);
+  if (!session) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const productId = params.get("product_id");
+  if (!productId) {
+    return Response.json({ error: "Missing product_id" }, { status: 400 });
+  }
+
+  const result = await listStorefrontReviews(
+    session.shop,
+    toProductGid(productId),
+    parseStorefrontReviewQuery(params),
+  );
+
+  return Response.json(result, {
+    headers: { "Cache-Control": `public, max-age=${CACHE_SECONDS}` },
+  });
+};
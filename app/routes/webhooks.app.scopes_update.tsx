@@ -1,6 +1,8 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { clearOrderContext } from "../models/reply.server";
+import { ORDER_SCOPES, hasScopes } from "../scopes";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
     const { payload, session, topic, shop } = await authenticate.webhook(request);
@@ -8,14 +10,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const current = payload.current as string[];
     if (session) {
-        await db.session.update({   
+        // Online sessions for staff members share the shop's granted scopes.
+        await db.session.updateMany({   
             where: {
-                id: session.id
+                shop
             },
             data: {
                 scope: current.toString(),
             },
         });
     }
+    // Order details stored with past replies go once the merchant withdraws access.
+    if (!hasScopes(current, ORDER_SCOPES)) {
+        await clearOrderContext(shop);
+    }
     return new Response();
 };
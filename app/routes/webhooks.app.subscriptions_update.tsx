@@ -0,0 +1,31 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { isPaidPlan } from "../billing";
+import { endShopSubscription, saveShopPlan } from "../models/usage.server";
+
+interface SubscriptionPayload {
+  app_subscription: {
+    admin_graphql_api_id: string;
+    name: string;
+    status: string;
+  };
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Keeps quotas right when a charge is approved or cancelled outside the app.
+  const { app_subscription: subscription } = payload as SubscriptionPayload;
+  if (subscription.status === "ACTIVE" && isPaidPlan(subscription.name)) {
+    await saveShopPlan(
+      shop,
+      subscription.name,
+      subscription.admin_graphql_api_id,
+    );
+  } else if (!["PENDING", "ACCEPTED"].includes(subscription.status)) {
+    await endShopSubscription(shop, subscription.admin_graphql_api_id);
+  }
+
+  return new Response();
+};
@@ -0,0 +1,28 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  exportCustomerData,
+  recordComplianceRequest,
+} from "../models/compliance.server";
+
+interface DataRequestPayload {
+  customer: { id: number; email: string | null };
+  data_request: { id: number };
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // The export is kept for the merchant to download and pass on to the customer.
+  const { customer } = payload as DataRequestPayload;
+  const reviews = await exportCustomerData(shop, customer.email);
+  await recordComplianceRequest(shop, "customers/data_request", {
+    customerId: String(customer.id),
+    reviews: reviews.length,
+    export: JSON.stringify({ customerId: customer.id, reviews }, null, 2),
+  });
+  console.log(`Exported ${reviews.length} reviews for a customer of ${shop}`);
+
+  return new Response();
+};
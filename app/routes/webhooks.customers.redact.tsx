@@ -0,0 +1,29 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  recordComplianceRequest,
+  redactCustomerData,
+} from "../models/compliance.server";
+
+interface CustomerRedactPayload {
+  customer: { id: number; email: string | null };
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const { customer } = payload as CustomerRedactPayload;
+  const reviews = await redactCustomerData(
+    shop,
+    String(customer.id),
+    customer.email,
+  );
+  await recordComplianceRequest(shop, "customers/redact", {
+    customerId: String(customer.id),
+    reviews,
+  });
+  console.log(`Deleted ${reviews} reviews for a customer of ${shop}`);
+
+  return new Response();
+};
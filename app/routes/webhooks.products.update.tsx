@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { deleteProductSnapshot } from "../models/product-snapshot.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Drop the cached reply context so the next draft sees the new details.
+  await deleteProductSnapshot(shop, payload.admin_graphql_api_id as string);
+
+  return new Response();
+};
@@ -0,0 +1,69 @@
+import type { ActionFunctionArgs } from "react-router";
+import { unauthenticated } from "../shopify.server";
+import { isImportPlatform } from "../review-import/platforms";
+import {
+  getDeliveryId,
+  parseWebhookPayload,
+  receiveReviewWebhook,
+  SIGNATURE_HEADER,
+  verifySignature,
+} from "../review-import/webhook.server";
+import {
+  forgetWebhookDelivery,
+  getWebhookSecret,
+  recordWebhookDelivery,
+} from "../models/review-webhook.server";
+
+/**
+ * Receives reviews pushed by review platforms, at
+ * `/webhooks/reviews/<platform>?shop=<shop domain>`. Requests are signed with
+ * the shop's secret from the settings page.
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const shop = new URL(request.url).searchParams.get("shop");
+  if (!isImportPlatform(params.platform) || !shop) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const body = await request.text();
+  const secret = await getWebhookSecret(shop);
+  if (
+    !secret ||
+    !verifySignature(secret, body, request.headers.get(SIGNATURE_HEADER))
+  ) {
+    return new Response("Invalid signature", { status: 401 });
+  }
+
+  const payload = parseWebhookPayload(body);
+  if (!payload) {
+    return new Response("The body must be a JSON object", { status: 400 });
+  }
+
+  const deliveryId = getDeliveryId(request, body);
+  if (!(await recordWebhookDelivery(shop, deliveryId))) {
+    console.log(`Skipped duplicate review webhook ${deliveryId} for ${shop}`);
+
+    return new Response();
+  }
+
+  console.log(`Received ${params.platform} review webhook for ${shop}`);
+
+  try {
+    const { admin } = await unauthenticated.admin(shop);
+    const result = await receiveReviewWebhook(
+      admin,
+      shop,
+      params.platform,
+      payload,
+    );
+    if ("error" in result) {
+      return Response.json(result, { status: 422 });
+    }
+
+    return Response.json(result);
+  } catch (error) {
+    // Let the platform's retry run again instead of being skipped as a duplicate.
+    await forgetWebhookDelivery(shop, deliveryId);
+    throw error;
+  }
+};
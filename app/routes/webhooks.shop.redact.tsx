@@ -0,0 +1,18 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  purgeShopData,
+  recordComplianceRequest,
+} from "../models/compliance.server";
+
+/** Sent 48 hours after a shop uninstalls the app. */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { topic, shop } = await authenticate.webhook(request);
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const reviews = await purgeShopData(shop);
+  await recordComplianceRequest(shop, "shop/redact", { reviews });
+  console.log(`Purged all data for ${shop}, including ${reviews} reviews`);
+
+  return new Response();
+};
@@ -0,0 +1,18 @@
+/** Optional scopes that let replies draw on the reviewer's orders. */
+export const ORDER_SCOPES = ["read_orders", "read_customers"];
+
+/**
+ * Needed to create service-recovery discount codes. Requested at install, but
+ * shops that installed earlier may not have approved it yet.
+ */
+export const DISCOUNT_SCOPES = ["write_discounts"];
+
+/** Accepts a session's comma-separated scope string or a list of scopes. */
+export function hasScopes(
+  granted: string | string[] | undefined,
+  scopes: string[],
+) {
+  const list = Array.isArray(granted) ? granted : (granted ?? "").split(",");
+
+  return scopes.every((scope) => list.includes(scope));
+}
@@ -0,0 +1,258 @@
+import { randomInt } from "node:crypto";
+import type {
+  AdminApiContext,
+  Session,
+} from "@shopify/shopify-app-react-router/server";
+import {
+  activateServiceDiscount,
+  findServiceDiscount,
+  listUnredeemedDiscounts,
+  recordDiscountUsage,
+  releaseServiceDiscount,
+  reserveServiceDiscount,
+} from "./models/service-discount.server";
+import type { ReplyPolicy } from "./models/settings.server";
+import { DISCOUNT_SCOPES, hasScopes } from "./scopes";
+
+/** Reviews at or below this rating get a code when the shop enables them. */
+export const SERVICE_DISCOUNT_MAX_RATING = 2;
+
+const VALID_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** No 0/O or 1/I, so codes read back correctly from an email or a reply. */
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export interface ServiceDiscountOffer {
+  code: string;
+  /** The amount off, formatted in the shop's currency. */
+  value: string;
+  /** Last day the code can be used, as YYYY-MM-DD. */
+  expiresOn: string;
+}
+
+function generateCode() {
+  const suffix = Array.from(
+    { length: 8 },
+    () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+  ).join("");
+
+  return `SORRY-${suffix}`;
+}
+
+function toOffer(discount: {
+  code: string;
+  amount: number;
+  currencyCode: string;
+  createdAt: Date;
+}): ServiceDiscountOffer {
+  return {
+    code: discount.code,
+    value: new Intl.NumberFormat("en", {
+      style: "currency",
+      currency: discount.currencyCode,
+    }).format(discount.amount),
+    expiresOn: new Date(discount.createdAt.getTime() + VALID_DAYS * DAY_MS)
+      .toISOString()
+      .slice(0, 10),
+  };
+}
+
+async function getShopCurrency(admin: AdminApiContext) {
+  const response = await admin.graphql(
+    `#graphql
+    query shopCurrency {
+      shop {
+        currencyCode
+      }
+    }`,
+  );
+  const { data } = await response.json();
+
+  return data.shop.currencyCode as string;
+}
+
+async function createDiscountCode(
+  admin: AdminApiContext,
+  discount: { code: string; amount: number; createdAt: Date },
+) {
+  const response = await admin.graphql(
+    `#graphql
+    mutation createServiceDiscount($basicCodeDiscount: DiscountCodeBasicInput!) {
+      discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
+        codeDiscountNode {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: {
+        basicCodeDiscount: {
+          title: `Review reply ${discount.code}`,
+          code: discount.code,
+          startsAt: new Date().toISOString(),
+          endsAt: new Date(
+            discount.createdAt.getTime() + VALID_DAYS * DAY_MS,
+          ).toISOString(),
+          usageLimit: 1,
+          appliesOncePerCustomer: true,
+          context: { all: "ALL" },
+          customerGets: {
+            value: {
+              discountAmount: {
+                amount: discount.amount,
+                appliesOnEachItem: false,
+              },
+            },
+            items: { all: true },
+          },
+        },
+      },
+    },
+  );
+  const { data } = await response.json();
+  const [userError] = data?.discountCodeBasicCreate?.userErrors ?? [];
+  if (userError) {
+    throw new Error(userError.message);
+  }
+
+  return data.discountCodeBasicCreate.codeDiscountNode.id as string;
+}
+
+/**
+ * Returns the single-use code offered in replies to this review, reserving
+ * one when the shop has service-recovery codes enabled, the review is rated
+ * low enough and this month's budget allows it. Reserving only records the
+ * code; it is created in Shopify by `issueServiceDiscount` when a reply
+ * quoting it is published, so generations that are cancelled, discarded or
+ * rejected never create one. A review keeps its code across regenerations.
+ * Failures are logged and the reply is written without a code.
+ */
+export async function getServiceDiscount(
+  admin: AdminApiContext,
+  session: Session,
+  review: { id: string; rating: number },
+  policy: ReplyPolicy,
+): Promise<ServiceDiscountOffer | null> {
+  if (
+    !policy.allowDiscounts ||
+    !policy.serviceDiscounts ||
+    review.rating > SERVICE_DISCOUNT_MAX_RATING ||
+    !hasScopes(session.scope, DISCOUNT_SCOPES)
+  ) {
+    return null;
+  }
+
+  const { shop } = session;
+  const existing = await findServiceDiscount(shop, review.id);
+  if (existing) {
+    return toOffer(existing);
+  }
+
+  try {
+    const discount = await reserveServiceDiscount(
+      shop,
+      {
+        reviewId: review.id,
+        code: generateCode(),
+        amount: policy.serviceDiscountAmount,
+        currencyCode: await getShopCurrency(admin),
+      },
+      policy.serviceDiscountMonthlyBudget,
+    );
+
+    return discount && toOffer(discount);
+  } catch (error) {
+    console.error(`Could not reserve a discount code for ${review.id}`, error);
+
+    return null;
+  }
+}
+
+/**
+ * Creates the review's reserved code in Shopify when the reply being
+ * published quotes it. Codes already created are left alone, so publishing
+ * again never creates a second one. A reserved code the reply does not quote
+ * is released. Throws when Shopify rejects the code, so the reply is not
+ * published with a code that does not work.
+ */
+export async function issueServiceDiscount(
+  admin: AdminApiContext,
+  shop: string,
+  reviewId: string,
+  body: string,
+) {
+  const discount = await findServiceDiscount(shop, reviewId);
+  if (!discount || discount.discountId) {
+    return;
+  }
+  if (!body.includes(discount.code)) {
+    await releaseServiceDiscount(shop, reviewId);
+
+    return;
+  }
+
+  await activateServiceDiscount(
+    discount.id,
+    await createDiscountCode(admin, discount),
+  );
+}
+
+/**
+ * Updates the usage of codes that have not been redeemed yet. Shopify counts
+ * usage asynchronously, so a redemption can take a moment to show up.
+ */
+export async function refreshDiscountRedemptions(
+  admin: AdminApiContext,
+  shop: string,
+) {
+  const discounts = await listUnredeemedDiscounts(
+    shop,
+    new Date(Date.now() - VALID_DAYS * DAY_MS),
+  );
+  if (!discounts.length) {
+    return;
+  }
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+      query serviceDiscountUsage($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on DiscountCodeNode {
+            id
+            codeDiscount {
+              ... on DiscountCodeBasic {
+                asyncUsageCount
+              }
+            }
+          }
+        }
+      }`,
+      { variables: { ids: discounts.map(({ discountId }) => discountId!) } },
+    );
+    const { data } = await response.json();
+    const usage = new Map<string, number>(
+      (data?.nodes ?? [])
+        .filter(Boolean)
+        .map(
+          (node: {
+            id: string;
+            codeDiscount: { asyncUsageCount?: number };
+          }) => [node.id, node.codeDiscount.asyncUsageCount ?? 0],
+        ),
+    );
+
+    for (const discount of discounts) {
+      const count = usage.get(discount.discountId!) ?? 0;
+      if (count !== discount.usageCount) {
+        await recordDiscountUsage(discount.id, count);
+      }
+    }
+  } catch (error) {
+    console.error(`Could not check discount usage for ${shop}`, error);
+  }
+}
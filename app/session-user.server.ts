@@ -0,0 +1,19 @@
+import type { Session } from "@shopify/shopify-app-react-router/server";
+
+/**
+ * Identifies the staff member behind a request for attribution. Only online
+ * sessions carry user details, so offline sessions fall back to `null`.
+ */
+export function getSessionUser(session: Session): string | null {
+  const user = session.onlineAccessInfo?.associated_user;
+  if (!user) {
+    return null;
+  }
+
+  return user.email || String(user.id);
+}
+
+/** The staff member's admin language, used for merchant-facing text. */
+export function getSessionLocale(session: Session) {
+  return session.onlineAccessInfo?.associated_user.locale || "en";
+}
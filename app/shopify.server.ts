@@ -2,10 +2,24 @@ import "@shopify/shopify-app-react-router/adapters/node";
 import {
   ApiVersion,
   AppDistribution,
+  BillingInterval,
   shopifyApp,
 } from "@shopify/shopify-app-react-router/server";
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "./db.server";
+import { PLANS, type PaidPlan } from "./billing";
+
+function recurringPlan(plan: PaidPlan) {
+  return {
+    lineItems: [
+      {
+        amount: PLANS[plan].price,
+        currencyCode: "USD",
+        interval: BillingInterval.Every30Days as const,
+      },
+    ],
+  };
+}
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -16,6 +30,12 @@ const shopify = shopifyApp({
   authPathPrefix: "/auth",
   sessionStorage: new PrismaSessionStorage(prisma),
   distribution: AppDistribution.AppStore,
+  billing: {
+    Starter: recurringPlan("Starter"),
+    Growth: recurringPlan("Growth"),
+  },
+  // Online sessions identify the staff member, which approvals depend on.
+  useOnlineTokens: true,
   future: {
     expiringOfflineAccessTokens: true,
   },
@@ -28,6 +48,8 @@ export default shopify;
 export const apiVersion = ApiVersion.October25;
 export const addDocumentResponseHeaders = shopify.addDocumentResponseHeaders;
 export const authenticate = shopify.authenticate;
+/** Test charges everywhere but production, where shops are really billed. */
+export const isTestBilling = process.env.NODE_ENV !== "production";
 export const unauthenticated = shopify.unauthenticated;
 export const login = shopify.login;
 export const registerWebhooks = shopify.registerWebhooks;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseStorefrontReviewQuery } from "./storefront-reviews.server";
+
+function parse(query: string) {
+  return parseStorefrontReviewQuery(new URLSearchParams(query));
+}
+
+describe("parseStorefrontReviewQuery", () => {
+  it("uses the defaults when nothing is asked for", () => {
+    expect(parse("")).toEqual({ page: 1, pageSize: 5, rating: null });
+  });
+
+  it("uses the defaults for empty values", () => {
+    expect(parse("page=&page_size=&rating=")).toEqual({
+      page: 1,
+      pageSize: 5,
+      rating: null,
+    });
+  });
+
+  it("reads the page, page size and rating", () => {
+    expect(parse("page=3&page_size=10&rating=4")).toEqual({
+      page: 3,
+      pageSize: 10,
+      rating: 4,
+    });
+  });
+
+  it("brings out-of-range values into range", () => {
+    expect(parse("page=0&page_size=500")).toMatchObject({
+      page: 1,
+      pageSize: 20,
+    });
+    expect(parse("page_size=0").pageSize).toBe(1);
+  });
+
+  it("ignores values that aren't whole numbers", () => {
+    expect(parse("page=two&page_size=2.5&rating=6")).toEqual({
+      page: 1,
+      pageSize: 5,
+      rating: null,
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import type { StorefrontReviewQuery } from "./models/review.server";
+
+const DEFAULT_PAGE_SIZE = 5;
+const MAX_PAGE_SIZE = 20;
+
+/** Reads a whole number from `name`, or NaN when it is missing or empty. */
+function readNumber(params: URLSearchParams, name: string) {
+  const value = params.get(name)?.trim();
+
+  return value ? Number(value) : NaN;
+}
+
+function clamp(value: number, min: number, max: number, fallback: number) {
+  return Number.isInteger(value)
+    ? Math.min(Math.max(value, min), max)
+    : fallback;
+}
+
+/**
+ * Reads the page, page size and star filter the storefront reviews block
+ * asks for. Missing or malformed values fall back to the defaults, and
+ * out-of-range ones are brought into range.
+ */
+export function parseStorefrontReviewQuery(
+  params: URLSearchParams,
+): StorefrontReviewQuery {
+  const rating = readNumber(params, "rating");
+
+  return {
+    page: clamp(readNumber(params, "page"), 1, Infinity, 1),
+    pageSize: clamp(
+      readNumber(params, "page_size"),
+      1,
+      MAX_PAGE_SIZE,
+      DEFAULT_PAGE_SIZE,
+    ),
+    rating:
+      Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : null,
+  };
+}
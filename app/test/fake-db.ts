@@ -0,0 +1,664 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+/**
+ * An in-memory stand-in for the Prisma client, for tests of the models that
+ * run without a database. Mock `db.server` with this module:
+ *
+ *     vi.mock("../db.server", () => import("../test/fake-db"));
+ *
+ * Defaults, unique constraints and relations come from the Prisma schema.
+ * Each call completes in one step, as a single SQL statement would, so two
+ * calls made concurrently interleave only between statements. That makes it
+ * suitable for checking that a model doesn't check and write in separate
+ * steps. Transactions are not isolated, and nested writes are not supported.
+ */
+
+type Row = Record<string, unknown>;
+type Args = Record<string, unknown>;
+type Field = Prisma.DMMF.Field;
+
+const models = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [model.name, model]),
+);
+const tables = new Map<string, Row[]>();
+let nextId = 1;
+
+function modelName(delegate: string) {
+  return delegate[0].toUpperCase() + delegate.slice(1);
+}
+
+function getModel(name: string) {
+  const model = models.get(name);
+  if (!model) {
+    throw new Error(`Unknown model ${name}`);
+  }
+
+  return model;
+}
+
+function table(name: string) {
+  let rows = tables.get(name);
+  if (!rows) {
+    rows = [];
+    tables.set(name, rows);
+  }
+
+  return rows;
+}
+
+function knownError(code: string, message: string) {
+  return new Prisma.PrismaClientKnownRequestError(message, {
+    code,
+    clientVersion: Prisma.prismaVersion.client,
+  });
+}
+
+function isPlainObject(value: unknown): value is Args {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function compare(a: unknown, b: unknown) {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (left === right) {
+    return 0;
+  }
+  if (left === null || left === undefined) {
+    return -1;
+  }
+  if (right === null || right === undefined) {
+    return 1;
+  }
+
+  return (left as number) < (right as number) ? -1 : 1;
+}
+
+function equals(a: unknown, b: unknown) {
+  return compare(a, b) === 0;
+}
+
+/** The sets of fields that identify a row: the ID and each unique constraint. */
+function uniqueKeys(model: Prisma.DMMF.Model) {
+  const keys: string[][] = [];
+  if (model.primaryKey) {
+    keys.push(model.primaryKey.fields as string[]);
+  }
+  for (const field of model.fields) {
+    if (field.isId || field.isUnique) {
+      keys.push([field.name]);
+    }
+  }
+  keys.push(...(model.uniqueFields as string[][]));
+
+  return keys;
+}
+
+function matchesScalar(value: unknown, filter: unknown): boolean {
+  if (!isPlainObject(filter)) {
+    return equals(value, filter);
+  }
+
+  const insensitive = filter.mode === "insensitive";
+  const text = (input: unknown) =>
+    insensitive && typeof input === "string" ? input.toLowerCase() : input;
+
+  return Object.entries(filter).every(([operator, operand]) => {
+    switch (operator) {
+      case "equals":
+        return equals(text(value), text(operand));
+      case "not":
+        return isPlainObject(operand)
+          ? !matchesScalar(value, operand)
+          : !equals(value, operand);
+      case "in":
+        return (operand as unknown[]).some((item) => equals(value, item));
+      case "notIn":
+        return !(operand as unknown[]).some((item) => equals(value, item));
+      case "lt":
+        return value != null && compare(value, operand) < 0;
+      case "lte":
+        return value != null && compare(value, operand) <= 0;
+      case "gt":
+        return value != null && compare(value, operand) > 0;
+      case "gte":
+        return value != null && compare(value, operand) >= 0;
+      case "contains":
+        return String(text(value) ?? "").includes(String(text(operand)));
+      case "startsWith":
+        return String(text(value) ?? "").startsWith(String(text(operand)));
+      case "endsWith":
+        return String(text(value) ?? "").endsWith(String(text(operand)));
+      case "mode":
+        return true;
+      default:
+        throw new Error(`Unsupported filter ${operator}`);
+    }
+  });
+}
+
+function related(field: Field, row: Row): Row[] {
+  const target = getModel(field.type);
+  if (field.relationFromFields?.length) {
+    const from = field.relationFromFields;
+    const to = field.relationToFields ?? [];
+
+    return table(target.name).filter((candidate) =>
+      from.every((name, i) => equals(candidate[to[i]], row[name])),
+    );
+  }
+
+  // The other side of the relation holds the foreign key.
+  const back = target.fields.find(
+    (other) => other.relationName === field.relationName && other !== field,
+  );
+  if (!back?.relationFromFields) {
+    throw new Error(`Cannot follow ${field.name}`);
+  }
+  const from = back.relationFromFields;
+  const to = back.relationToFields ?? [];
+
+  return table(target.name).filter((candidate) =>
+    from.every((name, i) => equals(candidate[name], row[to[i]])),
+  );
+}
+
+function matches(modelName: string, row: Row, where: unknown): boolean {
+  if (!isPlainObject(where)) {
+    return true;
+  }
+  const model = getModel(modelName);
+
+  return Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) {
+      return true;
+    }
+    switch (key) {
+      case "AND":
+        return [filter].flat().every((part) => matches(modelName, row, part));
+      case "OR":
+        return (filter as unknown[]).some((part) =>
+          matches(modelName, row, part),
+        );
+      case "NOT":
+        return ![filter].flat().some((part) => matches(modelName, row, part));
+    }
+
+    const field = model.fields.find(({ name }) => name === key);
+    if (!field) {
+      // A compound unique key, such as `shop_month: { shop, month }`.
+      return matches(modelName, row, filter);
+    }
+    if (field.kind !== "object") {
+      return matchesScalar(row[key], filter);
+    }
+
+    const rows = related(field, row);
+    const target = field.type;
+    if (!isPlainObject(filter)) {
+      return filter === null ? rows.length === 0 : false;
+    }
+    if (field.isList) {
+      return Object.entries(filter).every(([operator, nested]) => {
+        switch (operator) {
+          case "some":
+            return rows.some((item) => matches(target, item, nested));
+          case "every":
+            return rows.every((item) => matches(target, item, nested));
+          case "none":
+            return !rows.some((item) => matches(target, item, nested));
+          default:
+            throw new Error(`Unsupported filter ${operator}`);
+        }
+      });
+    }
+    if ("is" in filter || "isNot" in filter) {
+      return "is" in filter
+        ? filter.is === null
+          ? rows.length === 0
+          : rows.some((item) => matches(target, item, filter.is))
+        : filter.isNot === null
+          ? rows.length > 0
+          : !rows.some((item) => matches(target, item, filter.isNot));
+    }
+
+    return rows.some((item) => matches(target, item, filter));
+  });
+}
+
+function sort(rows: Row[], orderBy: unknown) {
+  const orders = [orderBy ?? []].flat() as Args[];
+
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      for (const [key, direction] of Object.entries(order)) {
+        const result = compare(a[key], b[key]);
+        if (result) {
+          return direction === "desc" ? -result : result;
+        }
+      }
+    }
+
+    return 0;
+  });
+}
+
+function page(rows: Row[], args: Args) {
+  const skip = (args.skip as number | undefined) ?? 0;
+  const take = args.take as number | undefined;
+
+  return rows.slice(skip, take === undefined ? undefined : skip + take);
+}
+
+function shape(modelName: string, row: Row, args: Args): Row {
+  const model = getModel(modelName);
+  const select = args.select as Args | undefined;
+  const include = args.include as Args | undefined;
+  const result: Row = {};
+
+  for (const field of model.fields) {
+    const option = select ? select[field.name] : include?.[field.name];
+    if (field.kind !== "object") {
+      if (!select || option) {
+        result[field.name] = row[field.name];
+      }
+      continue;
+    }
+    if (!option) {
+      continue;
+    }
+
+    const nested = isPlainObject(option) ? option : {};
+    const rows = related(field, row);
+    if (field.isList) {
+      const filtered = rows.filter((item) =>
+        matches(field.type, item, nested.where),
+      );
+      result[field.name] = page(sort(filtered, nested.orderBy), nested).map(
+        (item) => shape(field.type, item, nested),
+      );
+    } else {
+      result[field.name] = rows[0] ? shape(field.type, rows[0], nested) : null;
+    }
+  }
+  if (select?._count) {
+    throw new Error("Unsupported select _count");
+  }
+
+  return result;
+}
+
+function findAll(modelName: string, args: Args = {}) {
+  const rows = table(modelName).filter((row) =>
+    matches(modelName, row, args.where),
+  );
+
+  return page(sort(rows, args.orderBy), args);
+}
+
+function applyData(modelName: string, row: Row, data: Args) {
+  const model = getModel(modelName);
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+    const field = model.fields.find(({ name }) => name === key);
+    if (!field) {
+      throw new Error(`Unknown field ${modelName}.${key}`);
+    }
+    if (field.kind === "object") {
+      throw new Error(`Nested writes are not supported (${modelName}.${key})`);
+    }
+    if (!isPlainObject(value) || field.type === "Json") {
+      row[key] = value;
+      continue;
+    }
+    const [[operator, operand]] = Object.entries(value);
+    const current = row[key] as number;
+    switch (operator) {
+      case "set":
+        row[key] = operand;
+        break;
+      case "increment":
+        row[key] = current + (operand as number);
+        break;
+      case "decrement":
+        row[key] = current - (operand as number);
+        break;
+      case "multiply":
+        row[key] = current * (operand as number);
+        break;
+      default:
+        throw new Error(`Unsupported update ${operator}`);
+    }
+  }
+  for (const field of model.fields) {
+    if (field.isUpdatedAt) {
+      row[field.name] = new Date();
+    }
+  }
+
+  return row;
+}
+
+function checkUnique(modelName: string, row: Row, except?: Row) {
+  const model = getModel(modelName);
+  for (const key of uniqueKeys(model)) {
+    if (key.some((name) => row[name] == null)) {
+      continue;
+    }
+    const duplicate = table(modelName).some(
+      (other) =>
+        other !== except && key.every((name) => equals(other[name], row[name])),
+    );
+    if (duplicate) {
+      throw knownError(
+        "P2002",
+        `Unique constraint failed on the fields: (${key.join(", ")})`,
+      );
+    }
+  }
+}
+
+function defaultValue(field: Field) {
+  const value = field.default;
+  if (isPlainObject(value)) {
+    switch (value.name) {
+      case "cuid":
+      case "uuid":
+        return `${field.name}-${nextId++}`;
+      case "now":
+        return new Date();
+      case "autoincrement":
+        return nextId++;
+      default:
+        throw new Error(`Unsupported default ${String(value.name)}`);
+    }
+  }
+
+  return value;
+}
+
+function insert(modelName: string, data: Args) {
+  const model = getModel(modelName);
+  const row: Row = {};
+  for (const field of model.fields) {
+    if (field.kind === "object") {
+      continue;
+    }
+    row[field.name] = field.hasDefaultValue
+      ? defaultValue(field)
+      : field.isList
+        ? []
+        : null;
+    if (field.isUpdatedAt) {
+      row[field.name] = new Date();
+    }
+  }
+  applyData(modelName, row, data);
+  for (const field of model.fields) {
+    if (
+      field.kind !== "object" &&
+      field.isRequired &&
+      row[field.name] == null
+    ) {
+      throw new Error(`${modelName}.${field.name} is required`);
+    }
+  }
+  checkUnique(modelName, row);
+  table(modelName).push(row);
+
+  return row;
+}
+
+function update(modelName: string, row: Row, data: Args) {
+  const next = applyData(modelName, { ...row }, data);
+  checkUnique(modelName, next, row);
+  Object.assign(row, next);
+
+  return row;
+}
+
+function remove(modelName: string, rows: Row[]) {
+  const model = getModel(modelName);
+  const doomed = new Set(rows);
+  tables.set(
+    modelName,
+    table(modelName).filter((row) => !doomed.has(row)),
+  );
+
+  // Follow the schema's onDelete rules to the rows that point at these.
+  for (const other of models.values()) {
+    for (const field of other.fields) {
+      if (field.type !== model.name || !field.relationFromFields?.length) {
+        continue;
+      }
+      const from = field.relationFromFields;
+      const to = field.relationToFields ?? [];
+      const dependants = table(other.name).filter((candidate) =>
+        rows.some((row) =>
+          from.every((name, i) => equals(candidate[name], row[to[i]])),
+        ),
+      );
+      if (field.relationOnDelete === "Cascade") {
+        remove(other.name, dependants);
+      } else if (field.relationOnDelete === "SetNull") {
+        for (const dependant of dependants) {
+          for (const name of from) {
+            dependant[name] = null;
+          }
+        }
+      }
+    }
+  }
+}
+
+function aggregate(rows: Row[], args: Args) {
+  const result: Args = {};
+  for (const [operation, fields] of Object.entries(args)) {
+    if (!operation.startsWith("_")) {
+      continue;
+    }
+    if (operation === "_count" && fields === true) {
+      result._count = rows.length;
+      continue;
+    }
+    const values: Args = {};
+    for (const name of Object.keys(fields as Args)) {
+      const column = rows.map((row) => row[name]).filter((v) => v != null);
+      switch (operation) {
+        case "_count":
+          values[name] = column.length;
+          break;
+        case "_sum":
+          values[name] = column.length
+            ? column.reduce((sum: number, v) => sum + (v as number), 0)
+            : null;
+          break;
+        case "_avg":
+          values[name] = column.length
+            ? column.reduce((sum: number, v) => sum + (v as number), 0) /
+              column.length
+            : null;
+          break;
+        case "_min":
+          values[name] =
+            sort(
+              column.map((v) => ({ v })),
+              { v: "asc" },
+            )[0]?.v ?? null;
+          break;
+        case "_max":
+          values[name] =
+            sort(
+              column.map((v) => ({ v })),
+              { v: "desc" },
+            )[0]?.v ?? null;
+          break;
+        default:
+          throw new Error(`Unsupported aggregate ${operation}`);
+      }
+    }
+    result[operation] = values;
+  }
+
+  return result;
+}
+
+function delegate(modelName: string) {
+  const findFirst = (args: Args = {}) => {
+    const [row] = findAll(modelName, { ...args, take: 1 });
+
+    return row ? shape(modelName, row, args) : null;
+  };
+  const findOrThrow = (args: Args) => {
+    const row = findFirst(args);
+    if (!row) {
+      throw knownError("P2025", `No ${modelName} found`);
+    }
+
+    return row;
+  };
+  const updateOne = (args: Args) => {
+    const [row] = findAll(modelName, { where: args.where, take: 1 });
+    if (!row) {
+      throw knownError("P2025", `No ${modelName} found to update`);
+    }
+
+    return shape(modelName, update(modelName, row, args.data as Args), args);
+  };
+
+  // Each method runs in one step and resolves on a later tick, like a query.
+  const methods = {
+    findMany: (args: Args = {}) =>
+      findAll(modelName, args).map((row) => shape(modelName, row, args)),
+    findFirst,
+    findUnique: findFirst,
+    findFirstOrThrow: findOrThrow,
+    findUniqueOrThrow: findOrThrow,
+    count: (args: Args = {}) => findAll(modelName, args).length,
+    aggregate: (args: Args = {}) => aggregate(findAll(modelName, args), args),
+    groupBy: (args: Args) => {
+      const by = [args.by].flat() as string[];
+      const groups = new Map<string, Row[]>();
+      for (const row of findAll(modelName, { where: args.where })) {
+        const key = JSON.stringify(by.map((name) => row[name]));
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+      }
+
+      return sort(
+        [...groups.values()].map((rows) => ({
+          ...Object.fromEntries(by.map((name) => [name, rows[0][name]])),
+          ...aggregate(rows, args),
+        })),
+        args.orderBy,
+      );
+    },
+    create: (args: Args) =>
+      shape(modelName, insert(modelName, args.data as Args), args),
+    createMany: (args: Args) => {
+      const data = [args.data].flat() as Args[];
+      for (const item of data) {
+        insert(modelName, item);
+      }
+
+      return { count: data.length };
+    },
+    update: updateOne,
+    updateMany: (args: Args = {}) => {
+      const rows = findAll(modelName, { where: args.where });
+      for (const row of rows) {
+        update(modelName, row, args.data as Args);
+      }
+
+      return { count: rows.length };
+    },
+    upsert: (args: Args) => {
+      const [row] = findAll(modelName, { where: args.where, take: 1 });
+
+      return shape(
+        modelName,
+        row
+          ? update(modelName, row, args.update as Args)
+          : insert(modelName, args.create as Args),
+        args,
+      );
+    },
+    delete: (args: Args) => {
+      const [row] = findAll(modelName, { where: args.where, take: 1 });
+      if (!row) {
+        throw knownError("P2025", `No ${modelName} found to delete`);
+      }
+      remove(modelName, [row]);
+
+      return shape(modelName, row, args);
+    },
+    deleteMany: (args: Args = {}) => {
+      const rows = findAll(modelName, { where: args.where });
+      remove(modelName, rows);
+
+      return { count: rows.length };
+    },
+  };
+
+  return Object.fromEntries(
+    Object.entries(methods).map(([name, method]) => [
+      name,
+      async (args?: Args) => {
+        await Promise.resolve();
+
+        return structuredClone(method(args as Args));
+      },
+    ]),
+  );
+}
+
+const client = new Proxy(
+  {
+    async $transaction(input: unknown) {
+      if (typeof input === "function") {
+        return input(client);
+      }
+      const results = [];
+      for (const query of input as Promise<unknown>[]) {
+        results.push(await query);
+      }
+
+      return results;
+    },
+  } as Args,
+  {
+    get(target, property) {
+      if (typeof property !== "string" || property in target) {
+        return target[property as string];
+      }
+      if (!models.has(modelName(property))) {
+        return undefined;
+      }
+      target[property] = delegate(modelName(property));
+
+      return target[property];
+    },
+  },
+);
+
+/** Adds rows as they are, filling in the schema's defaults. */
+export function seed(model: keyof PrismaClient, rows: Args[]) {
+  return rows.map((row) => insert(modelName(model as string), row));
+}
+
+/** The rows stored for a model, for assertions. */
+export function rowsOf(model: keyof PrismaClient) {
+  return structuredClone(table(modelName(model as string)));
+}
+
+/** Empties every table. Call it in `beforeEach`. */
+export function resetDb() {
+  tables.clear();
+}
+
+export default client as unknown as PrismaClient;
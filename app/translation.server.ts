@@ -0,0 +1,32 @@
+import { getLLMProvider } from "./llm/index.server";
+import { recordTokenUsage } from "./models/usage.server";
+
+/** English name of a locale's language, e.g. "de-DE" → "German". */
+export function getLanguageName(locale: string) {
+  const [language] = locale.split("-");
+
+  return (
+    new Intl.DisplayNames(["en"], { type: "language" }).of(language) ?? language
+  );
+}
+
+/**
+ * Translates review or reply text for the merchant. The result is only shown
+ * next to the original and never published. The model's tokens count towards
+ * the shop's monthly usage.
+ */
+export async function translateText(
+  shop: string,
+  text: string,
+  locale: string,
+) {
+  const language = getLanguageName(locale);
+  const { text: translation, usage } = await getLLMProvider().translate({
+    text,
+    language,
+    system: `Translate the user's text into ${language}. Keep names, product titles and formatting unchanged. Reply with the translation only.`,
+  });
+  await recordTokenUsage(shop, usage);
+
+  return translation;
+}
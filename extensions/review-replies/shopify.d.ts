@@ -0,0 +1,6 @@
+import "@shopify/ui-extensions";
+
+declare module "./src/BlockExtension.tsx" {
+  const shopify: import("@shopify/ui-extensions/admin.product-details.block.render").Api;
+  const globalThis: { shopify: typeof shopify };
+}
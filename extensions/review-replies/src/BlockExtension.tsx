@@ -0,0 +1,203 @@
+import "@shopify/ui-extensions/preact";
+import { render } from "preact";
+import { useCallback, useEffect, useState } from "preact/hooks";
+
+export default async () => {
+  render(<Extension />, document.body);
+};
+
+interface ReviewReply {
+  id: string;
+  rating: number;
+  reviewerName: string | null;
+  title: string | null;
+  body: string;
+  draft: { id: string; status: string; body: string } | null;
+}
+
+interface ProductReviews {
+  reviews: ReviewReply[];
+  requireApproval: boolean;
+  canApprove: boolean;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  pending_approval: "Pending approval",
+  approved: "Approved",
+  published: "Published",
+  rejected: "Rejected",
+};
+
+/** Requests to the app's own URL carry the session token automatically. */
+const API_URL = "/api/product-reviews";
+
+async function submit(data: Record<string, string>) {
+  const response = await fetch(API_URL, {
+    method: "POST",
+    body: new URLSearchParams(data),
+  });
+  const { error } = await response.json();
+
+  return (error as string | null) ?? null;
+}
+
+function Extension() {
+  const productId = shopify.data.selected[0]?.id;
+  const [data, setData] = useState<ProductReviews | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `${API_URL}?productId=${encodeURIComponent(productId)}`,
+      );
+      if (!response.ok) {
+        throw new Error(`${response.status}`);
+      }
+      setData(await response.json());
+    } catch {
+      setError("Reviews could not be loaded.");
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const count = data?.reviews.length ?? 0;
+
+  return (
+    <s-admin-block
+      heading="Review replies"
+      collapsedSummary={`${count} ${count === 1 ? "review" : "reviews"}`}
+    >
+      <s-stack direction="block" gap="base">
+        {error && <s-banner tone="critical">{error}</s-banner>}
+        {!data && !error && <s-spinner accessibilityLabel="Loading reviews" />}
+        {data && !count && (
+          <s-text color="subdued">
+            No reviews of this product are stored in the app yet.
+          </s-text>
+        )}
+        {data?.reviews.map((review) => (
+          <ReviewItem
+            key={review.id}
+            review={review}
+            requireApproval={data.requireApproval}
+            canApprove={data.canApprove}
+            onChange={load}
+          />
+        ))}
+      </s-stack>
+    </s-admin-block>
+  );
+}
+
+function ReviewItem({
+  review,
+  requireApproval,
+  canApprove,
+  onChange,
+}: {
+  review: ReviewReply;
+  requireApproval: boolean;
+  canApprove: boolean;
+  onChange: () => Promise<void>;
+}) {
+  const { draft } = review;
+  const [reply, setReply] = useState(draft?.body ?? "");
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReply(draft?.body ?? "");
+  }, [draft?.body]);
+
+  const run = async (intent: string, extra: Record<string, string> = {}) => {
+    setPending(intent);
+    setError(null);
+    try {
+      const failure = await submit({ intent, reviewId: review.id, ...extra });
+      if (failure) {
+        setError(failure);
+      } else {
+        await onChange();
+      }
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const editable =
+    !draft || draft.status === "draft" || draft.status === "pending_approval";
+
+  return (
+    <s-box padding="base" border="base" borderRadius="base">
+      <s-stack direction="block" gap="small">
+        <s-stack direction="inline" gap="small" alignItems="center">
+          <s-text type="strong">
+            {`${review.rating} out of 5 · ${review.reviewerName || "Anonymous"}`}
+          </s-text>
+          {draft && (
+            <s-badge>{STATUS_LABELS[draft.status] ?? draft.status}</s-badge>
+          )}
+        </s-stack>
+        {review.title && <s-text type="strong">{review.title}</s-text>}
+        <s-paragraph>{review.body}</s-paragraph>
+        {error && <s-banner tone="critical">{error}</s-banner>}
+        {draft && (
+          <s-text-area
+            label="Reply"
+            rows={4}
+            value={reply}
+            disabled={!editable}
+            onInput={(event) => setReply(event.currentTarget.value)}
+          />
+        )}
+        <s-stack direction="inline" gap="small">
+          {editable && (
+            <s-button
+              onClick={() => run("generate")}
+              loading={pending === "generate"}
+            >
+              {draft ? "Regenerate" : "Generate reply"}
+            </s-button>
+          )}
+          {draft && editable && (
+            <s-button
+              disabled={reply === draft.body || !reply.trim()}
+              onClick={() => run("save", { body: reply })}
+              loading={pending === "save"}
+            >
+              Save
+            </s-button>
+          )}
+          {draft?.status === "draft" && requireApproval && (
+            <s-button
+              variant="primary"
+              onClick={() => run("submit")}
+              loading={pending === "submit"}
+            >
+              Submit for approval
+            </s-button>
+          )}
+          {((draft?.status === "draft" && !requireApproval) ||
+            draft?.status === "pending_approval") && (
+            <s-button
+              variant="primary"
+              disabled={!canApprove}
+              onClick={() => run("approve")}
+              loading={pending === "approve"}
+            >
+              Approve
+            </s-button>
+          )}
+          <s-link href={`app:/app/reviews/${review.id}`}>Open in app</s-link>
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
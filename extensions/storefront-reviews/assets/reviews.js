@@ -0,0 +1,154 @@
+(function () {
+  function stars(rating) {
+    return "★★★★★".slice(0, rating) + "☆☆☆☆☆".slice(0, 5 - rating);
+  }
+
+  function element(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) {
+      node.className = className;
+    }
+    if (text) {
+      node.textContent = text;
+    }
+
+    return node;
+  }
+
+  function formatDate(value) {
+    return new Date(value).toLocaleDateString(
+      document.documentElement.lang || undefined,
+      {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      },
+    );
+  }
+
+  function renderReview(review, root) {
+    var item = element("li", "review-replies__review");
+    var rating = element("div", "review-replies__stars", stars(review.rating));
+    rating.setAttribute(
+      "aria-label",
+      review.rating + " " + root.dataset.starsLabel,
+    );
+    item.appendChild(rating);
+    if (review.title) {
+      item.appendChild(element("h3", "review-replies__title", review.title));
+    }
+    item.appendChild(element("p", "review-replies__body", review.body));
+    item.appendChild(
+      element(
+        "p",
+        "review-replies__meta",
+        review.reviewerName + " · " + formatDate(review.reviewedAt),
+      ),
+    );
+
+    if (review.reply) {
+      var reply = element("div", "review-replies__reply");
+      reply.appendChild(
+        element("p", "review-replies__reply-label", root.dataset.replyLabel),
+      );
+      reply.appendChild(element("p", "", review.reply.body));
+      item.appendChild(reply);
+    }
+
+    return item;
+  }
+
+  function renderFilter(select, data, rating, root) {
+    select.textContent = "";
+    var all = element("option", "", root.dataset.allLabel);
+    all.value = "";
+    select.appendChild(all);
+    [5, 4, 3, 2, 1].forEach(function (value) {
+      var option = element(
+        "option",
+        "",
+        value +
+          " " +
+          root.dataset.starsLabel +
+          " (" +
+          data.ratings[value] +
+          ")",
+      );
+      option.value = String(value);
+      option.selected = value === rating;
+      select.appendChild(option);
+    });
+  }
+
+  function init(root) {
+    var list = root.querySelector("[data-list]");
+    var select = root.querySelector("[data-rating-filter]");
+    var previous = root.querySelector("[data-previous]");
+    var next = root.querySelector("[data-next]");
+    var pageLabel = root.querySelector("[data-page]");
+    var pagination = previous.parentElement;
+    var state = { page: 1, rating: null };
+
+    function load() {
+      var params = new URLSearchParams({
+        product_id: root.dataset.productId,
+        page: String(state.page),
+        page_size: root.dataset.pageSize,
+      });
+      if (state.rating) {
+        params.set("rating", String(state.rating));
+      }
+
+      fetch(root.dataset.endpoint + "?" + params.toString(), {
+        headers: { Accept: "application/json" },
+      })
+        .then(function (response) {
+          if (!response.ok) {
+            throw new Error(String(response.status));
+          }
+
+          return response.json();
+        })
+        .then(function (data) {
+          list.textContent = "";
+          data.reviews.forEach(function (review) {
+            list.appendChild(renderReview(review, root));
+          });
+          if (!data.reviews.length) {
+            list.appendChild(
+              element("li", "review-replies__empty", root.dataset.emptyLabel),
+            );
+          }
+          renderFilter(select, data, state.rating, root);
+          pagination.hidden = data.pageCount < 2;
+          pageLabel.textContent = data.page + " / " + data.pageCount;
+          previous.disabled = data.page <= 1;
+          next.disabled = data.page >= data.pageCount;
+        })
+        .catch(function () {
+          list.textContent = "";
+          list.appendChild(
+            element("li", "review-replies__empty", root.dataset.errorLabel),
+          );
+        });
+    }
+
+    select.addEventListener("change", function () {
+      state.rating = Number(select.value) || null;
+      state.page = 1;
+      load();
+    });
+    previous.addEventListener("click", function () {
+      state.page -= 1;
+      load();
+    });
+    next.addEventListener("click", function () {
+      state.page += 1;
+      load();
+    });
+
+    load();
+  }
+
+  document.querySelectorAll("[data-review-replies]").forEach(init);
+})();
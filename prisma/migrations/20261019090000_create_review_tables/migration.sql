@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "externalId" TEXT,
+    "productId" TEXT,
+    "productTitle" TEXT,
+    "reviewerName" TEXT,
+    "reviewerEmail" TEXT,
+    "rating" INTEGER NOT NULL,
+    "title" TEXT,
+    "body" TEXT NOT NULL,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "ReplyDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ReplyDraft_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ReplyRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "draftId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "provider" TEXT,
+    "tone" TEXT,
+    "length" TEXT,
+    "language" TEXT,
+    "editedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReplyRevision_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ReplyDraft" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Review_shop_createdAt_idx" ON "Review"("shop", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_shop_source_externalId_key" ON "Review"("shop", "source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "ReplyDraft_shop_status_idx" ON "ReplyDraft"("shop", "status");
+
+-- CreateIndex
+CREATE INDEX "ReplyDraft_reviewId_idx" ON "ReplyDraft"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReplyRevision_draftId_createdAt_idx" ON "ReplyRevision"("draftId", "createdAt");
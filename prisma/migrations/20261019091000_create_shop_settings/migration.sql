@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "brandVoice" TEXT NOT NULL DEFAULT '',
+    "signOff" TEXT NOT NULL DEFAULT '',
+    "bannedPhrases" TEXT NOT NULL DEFAULT '',
+    "allowDiscounts" BOOLEAN NOT NULL DEFAULT false,
+    "allowRefunds" BOOLEAN NOT NULL DEFAULT false,
+    "maxLength" INTEGER NOT NULL DEFAULT 600,
+    "defaultLanguage" TEXT NOT NULL DEFAULT 'en',
+    "updatedAt" DATETIME NOT NULL
+);
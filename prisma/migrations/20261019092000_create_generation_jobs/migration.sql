@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "GenerationJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "tone" TEXT NOT NULL,
+    "length" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "total" INTEGER NOT NULL,
+    "completed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "GenerationJobItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "GenerationJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "GenerationJob" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "GenerationJobItem_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_shop_createdAt_idx" ON "GenerationJob"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_status_idx" ON "GenerationJob"("status");
+
+-- CreateIndex
+CREATE INDEX "GenerationJobItem_jobId_status_nextAttemptAt_idx" ON "GenerationJobItem"("jobId", "status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenerationJobItem_jobId_reviewId_key" ON "GenerationJobItem"("jobId", "reviewId");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "classifiedAt" DATETIME;
+ALTER TABLE "Review" ADD COLUMN "classifiedBy" TEXT;
+ALTER TABLE "Review" ADD COLUMN "flags" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "Review" ADD COLUMN "sentiment" TEXT;
+ALTER TABLE "Review" ADD COLUMN "topics" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "Review" ADD COLUMN "urgency" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Review_shop_urgency_idx" ON "Review"("shop", "urgency");
+
+-- CreateIndex
+CREATE INDEX "Review_classifiedAt_idx" ON "Review"("classifiedAt");
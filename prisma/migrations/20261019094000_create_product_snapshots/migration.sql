@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "ProductSnapshot" (
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "fetchedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("shop", "productId")
+);
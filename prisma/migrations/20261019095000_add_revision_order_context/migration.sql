@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ReplyRevision" ADD COLUMN "orderContext" TEXT;
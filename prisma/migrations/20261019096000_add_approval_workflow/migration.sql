@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "requireApproval" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ShopSettings" ADD COLUMN "approvers" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "ReplyComment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "draftId" TEXT NOT NULL,
+    "author" TEXT,
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReplyComment_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ReplyDraft" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ReplyAuditEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT,
+    "detail" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "ReplyComment_draftId_createdAt_idx" ON "ReplyComment"("draftId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyAuditEvent_shop_reviewId_createdAt_idx" ON "ReplyAuditEvent"("shop", "reviewId", "createdAt");
@@ -0,0 +1,119 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "language" TEXT;
+
+-- Backfill the language of reviews stored before the column existed, the way
+-- detectLanguage() in app/language-detection.server.ts does: the language
+-- with the most of its common function words wins, given at least two and no
+-- tie. Here each word counts once however often it appears.
+WITH "Words" AS (
+    SELECT "id", ' ' || replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(lower(coalesce("title", '') || ' ' || "body"), char(10), ' '), char(13), ' '), char(9), ' '), '.', ' '), ',', ' '), '!', ' '), '?', ' '), ';', ' '), ':', ' '), '(', ' '), ')', ' '), '"', ' '), '''', ' '), '-', ' '), '/', ' ') || ' ' AS "text"
+    FROM "Review"
+    WHERE "language" IS NULL
+),
+"Scores" AS (
+    SELECT "id", 'en' AS "language",
+        (instr("text", ' the ') > 0) +
+        (instr("text", ' and ') > 0) +
+        (instr("text", ' is ') > 0) +
+        (instr("text", ' it ') > 0) +
+        (instr("text", ' was ') > 0) +
+        (instr("text", ' to ') > 0) +
+        (instr("text", ' of ') > 0) +
+        (instr("text", ' this ') > 0) +
+        (instr("text", ' my ') > 0) +
+        (instr("text", ' very ') > 0) +
+        (instr("text", ' with ') > 0) +
+        (instr("text", ' but ') > 0) +
+        (instr("text", ' not ') > 0) +
+        (instr("text", ' for ') > 0) +
+        (instr("text", ' they ') > 0) AS "score"
+    FROM "Words"
+    UNION ALL
+    SELECT "id", 'de' AS "language",
+        (instr("text", ' der ') > 0) +
+        (instr("text", ' die ') > 0) +
+        (instr("text", ' das ') > 0) +
+        (instr("text", ' und ') > 0) +
+        (instr("text", ' ist ') > 0) +
+        (instr("text", ' nicht ') > 0) +
+        (instr("text", ' ich ') > 0) +
+        (instr("text", ' sehr ') > 0) +
+        (instr("text", ' mit ') > 0) +
+        (instr("text", ' war ') > 0) +
+        (instr("text", ' ein ') > 0) +
+        (instr("text", ' eine ') > 0) +
+        (instr("text", ' auch ') > 0) +
+        (instr("text", ' aber ') > 0) +
+        (instr("text", ' für ') > 0) AS "score"
+    FROM "Words"
+    UNION ALL
+    SELECT "id", 'fr' AS "language",
+        (instr("text", ' le ') > 0) +
+        (instr("text", ' la ') > 0) +
+        (instr("text", ' les ') > 0) +
+        (instr("text", ' et ') > 0) +
+        (instr("text", ' est ') > 0) +
+        (instr("text", ' pas ') > 0) +
+        (instr("text", ' je ') > 0) +
+        (instr("text", ' très ') > 0) +
+        (instr("text", ' une ') > 0) +
+        (instr("text", ' des ') > 0) +
+        (instr("text", ' mais ') > 0) +
+        (instr("text", ' pour ') > 0) +
+        (instr("text", ' avec ') > 0) +
+        (instr("text", ' du ') > 0) +
+        (instr("text", ' ce ') > 0) AS "score"
+    FROM "Words"
+    UNION ALL
+    SELECT "id", 'es' AS "language",
+        (instr("text", ' el ') > 0) +
+        (instr("text", ' la ') > 0) +
+        (instr("text", ' los ') > 0) +
+        (instr("text", ' las ') > 0) +
+        (instr("text", ' es ') > 0) +
+        (instr("text", ' muy ') > 0) +
+        (instr("text", ' pero ') > 0) +
+        (instr("text", ' que ') > 0) +
+        (instr("text", ' una ') > 0) +
+        (instr("text", ' por ') > 0) +
+        (instr("text", ' con ') > 0) +
+        (instr("text", ' para ') > 0) +
+        (instr("text", ' del ') > 0) +
+        (instr("text", ' lo ') > 0) +
+        (instr("text", ' está ') > 0) AS "score"
+    FROM "Words"
+    UNION ALL
+    SELECT "id", 'nl' AS "language",
+        (instr("text", ' de ') > 0) +
+        (instr("text", ' het ') > 0) +
+        (instr("text", ' een ') > 0) +
+        (instr("text", ' en ') > 0) +
+        (instr("text", ' is ') > 0) +
+        (instr("text", ' niet ') > 0) +
+        (instr("text", ' ik ') > 0) +
+        (instr("text", ' zeer ') > 0) +
+        (instr("text", ' heel ') > 0) +
+        (instr("text", ' met ') > 0) +
+        (instr("text", ' maar ') > 0) +
+        (instr("text", ' voor ') > 0) +
+        (instr("text", ' van ') > 0) +
+        (instr("text", ' dat ') > 0) +
+        (instr("text", ' erg ') > 0) AS "score"
+    FROM "Words"
+),
+"Ranked" AS (
+    SELECT "id", "language", "score",
+        row_number() OVER (PARTITION BY "id" ORDER BY "score" DESC) AS "rank",
+        lead("score") OVER (PARTITION BY "id" ORDER BY "score" DESC) AS "runnerUp"
+    FROM "Scores"
+)
+UPDATE "Review"
+SET "language" = (
+    SELECT "language" FROM "Ranked"
+    WHERE "Ranked"."id" = "Review"."id" AND "rank" = 1
+        AND "score" >= 2 AND "score" > "runnerUp"
+)
+WHERE "language" IS NULL;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "matchReviewLanguage" BOOLEAN NOT NULL DEFAULT true;
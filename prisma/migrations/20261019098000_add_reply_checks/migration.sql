@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ReplyDraft" ADD COLUMN "overriddenChecks" TEXT;
+ALTER TABLE "ReplyDraft" ADD COLUMN "overrideReason" TEXT;
+ALTER TABLE "ReplyDraft" ADD COLUMN "overriddenBy" TEXT;
+ALTER TABLE "ReplyDraft" ADD COLUMN "overriddenAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "competitors" TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "PublishingConnection" (
+    "shop" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "apiKey" TEXT NOT NULL,
+    "apiSecret" TEXT NOT NULL DEFAULT '',
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("shop", "platform")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyPublication" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "remoteId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ReplyPublication_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ReplyDraft" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ReplyPublication_status_nextAttemptAt_idx" ON "ReplyPublication"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyPublication_draftId_createdAt_idx" ON "ReplyPublication"("draftId", "createdAt");
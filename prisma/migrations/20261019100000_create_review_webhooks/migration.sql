@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "autoPublishFiveStar" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "GenerationJob" ADD COLUMN "autoPublish" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ReviewWebhookSecret" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "secret" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "ReviewWebhookDelivery" (
+    "shop" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "receivedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("shop", "deliveryId")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewWebhookDelivery_receivedAt_idx" ON "ReviewWebhookDelivery"("receivedAt");
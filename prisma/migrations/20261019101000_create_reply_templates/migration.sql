@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "ReplyTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mode" TEXT NOT NULL DEFAULT 'seed',
+    "minRating" INTEGER NOT NULL DEFAULT 1,
+    "maxRating" INTEGER NOT NULL DEFAULT 5,
+    "topic" TEXT,
+    "productTag" TEXT,
+    "language" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "ReplyTemplateVariant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "templateId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReplyTemplateVariant_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ReplyTemplate" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ReplyDraft" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "body" TEXT NOT NULL,
+    "overriddenChecks" TEXT,
+    "overrideReason" TEXT,
+    "overriddenBy" TEXT,
+    "overriddenAt" DATETIME,
+    "templateVariantId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ReplyDraft_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ReplyDraft_templateVariantId_fkey" FOREIGN KEY ("templateVariantId") REFERENCES "ReplyTemplateVariant" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ReplyDraft" ("body", "createdAt", "id", "overriddenAt", "overriddenBy", "overriddenChecks", "overrideReason", "reviewId", "shop", "status", "updatedAt") SELECT "body", "createdAt", "id", "overriddenAt", "overriddenBy", "overriddenChecks", "overrideReason", "reviewId", "shop", "status", "updatedAt" FROM "ReplyDraft";
+DROP TABLE "ReplyDraft";
+ALTER TABLE "new_ReplyDraft" RENAME TO "ReplyDraft";
+CREATE INDEX "ReplyDraft_shop_status_idx" ON "ReplyDraft"("shop", "status");
+CREATE INDEX "ReplyDraft_reviewId_idx" ON "ReplyDraft"("reviewId");
+CREATE INDEX "ReplyDraft_templateVariantId_idx" ON "ReplyDraft"("templateVariantId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ReplyTemplate_shop_idx" ON "ReplyTemplate"("shop");
+
+-- CreateIndex
+CREATE INDEX "ReplyTemplateVariant_templateId_idx" ON "ReplyTemplateVariant"("templateId");
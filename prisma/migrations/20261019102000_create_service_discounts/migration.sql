@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "serviceDiscounts" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ShopSettings" ADD COLUMN "serviceDiscountAmount" INTEGER NOT NULL DEFAULT 10;
+ALTER TABLE "ShopSettings" ADD COLUMN "serviceDiscountMonthlyBudget" INTEGER NOT NULL DEFAULT 100;
+
+-- CreateTable
+CREATE TABLE "ServiceDiscount" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currencyCode" TEXT NOT NULL,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "redeemedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "ServiceDiscount_shop_createdAt_idx" ON "ServiceDiscount"("shop", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceDiscount_shop_reviewId_key" ON "ServiceDiscount"("shop", "reviewId");
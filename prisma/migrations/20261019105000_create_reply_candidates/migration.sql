@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "ReplyRevision" ADD COLUMN "instruction" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReplyCandidate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "style" TEXT NOT NULL,
+    "tone" TEXT NOT NULL,
+    "length" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "instruction" TEXT,
+    "body" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "orderContext" TEXT,
+    "chosenAt" DATETIME,
+    "chosenBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReplyCandidate_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ReplyCandidate_shop_reviewId_createdAt_idx" ON "ReplyCandidate"("shop", "reviewId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyCandidate_shop_createdAt_idx" ON "ReplyCandidate"("shop", "createdAt");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ReplyExample" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "reviewId" TEXT,
+    "rating" INTEGER,
+    "reviewTitle" TEXT,
+    "reviewBody" TEXT NOT NULL,
+    "replyBody" TEXT NOT NULL,
+    "terms" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ReplyExample_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ReplyExample_shop_createdAt_idx" ON "ReplyExample"("shop", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReplyExample_shop_key_key" ON "ReplyExample"("shop", "key");
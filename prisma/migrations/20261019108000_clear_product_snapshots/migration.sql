@@ -0,0 +1,3 @@
+-- Cached product details are refetched on the next reply. Clearing them
+-- drops snapshots cached before product tags were fetched.
+DELETE FROM "ProductSnapshot";
@@ -0,0 +1,22 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ServiceDiscount" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "currencyCode" TEXT NOT NULL,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "redeemedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_ServiceDiscount" ("amount", "code", "createdAt", "currencyCode", "discountId", "id", "redeemedAt", "reviewId", "shop", "usageCount") SELECT "amount", "code", "createdAt", "currencyCode", "discountId", "id", "redeemedAt", "reviewId", "shop", "usageCount" FROM "ServiceDiscount";
+DROP TABLE "ServiceDiscount";
+ALTER TABLE "new_ServiceDiscount" RENAME TO "ServiceDiscount";
+CREATE INDEX "ServiceDiscount_shop_createdAt_idx" ON "ServiceDiscount"("shop", "createdAt");
+CREATE UNIQUE INDEX "ServiceDiscount_shop_reviewId_key" ON "ServiceDiscount"("shop", "reviewId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
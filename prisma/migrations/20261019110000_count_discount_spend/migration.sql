@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "ShopUsage" ADD COLUMN "discountSpend" INTEGER NOT NULL DEFAULT 0;
+
+-- Count the codes already reserved against the month they were reserved in.
+-- Prisma stores dates as milliseconds; rows written by SQL hold text.
+INSERT INTO "ShopUsage" ("shop", "month", "discountSpend", "updatedAt")
+SELECT
+    "shop",
+    CASE
+        WHEN typeof("createdAt") = 'integer'
+        THEN strftime('%Y-%m', "createdAt" / 1000, 'unixepoch')
+        ELSE strftime('%Y-%m', "createdAt")
+    END AS "month",
+    SUM("amount"),
+    CAST(strftime('%s', 'now') AS INTEGER) * 1000
+FROM "ServiceDiscount"
+GROUP BY 1, 2
+ON CONFLICT ("shop", "month") DO UPDATE SET "discountSpend" = excluded."discountSpend";
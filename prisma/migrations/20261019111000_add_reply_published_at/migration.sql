@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "ReplyDraft" ADD COLUMN "publishedAt" DATETIME;
+
+-- Published replies went live at their first "published" audit event, or
+-- when they last changed if the log has none.
+UPDATE "ReplyDraft"
+SET "publishedAt" = COALESCE(
+    (
+        SELECT MIN("createdAt") FROM "ReplyAuditEvent"
+        WHERE "ReplyAuditEvent"."draftId" = "ReplyDraft"."id"
+        AND "ReplyAuditEvent"."action" = 'published'
+    ),
+    "updatedAt"
+)
+WHERE "status" = 'published';
@@ -0,0 +1,398 @@
+-- CreateTable
+CREATE TABLE `Session` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `state` VARCHAR(191) NOT NULL,
+    `isOnline` BOOLEAN NOT NULL DEFAULT false,
+    `scope` TEXT NULL,
+    `expires` DATETIME(3) NULL,
+    `accessToken` VARCHAR(191) NOT NULL,
+    `userId` BIGINT NULL,
+    `firstName` VARCHAR(191) NULL,
+    `lastName` VARCHAR(191) NULL,
+    `email` VARCHAR(191) NULL,
+    `accountOwner` BOOLEAN NOT NULL DEFAULT false,
+    `locale` VARCHAR(191) NULL,
+    `collaborator` BOOLEAN NULL DEFAULT false,
+    `emailVerified` BOOLEAN NULL DEFAULT false,
+    `refreshToken` VARCHAR(191) NULL,
+    `refreshTokenExpires` DATETIME(3) NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `Review` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `source` VARCHAR(191) NOT NULL DEFAULT 'manual',
+    `externalId` VARCHAR(191) NULL,
+    `productId` VARCHAR(191) NULL,
+    `productTitle` TEXT NULL,
+    `reviewerName` VARCHAR(191) NULL,
+    `reviewerEmail` VARCHAR(191) NULL,
+    `rating` INTEGER NOT NULL,
+    `title` TEXT NULL,
+    `body` TEXT NOT NULL,
+    `language` VARCHAR(191) NULL,
+    `reviewedAt` DATETIME(3) NULL,
+    `sentiment` VARCHAR(191) NULL,
+    `topics` VARCHAR(1000) NOT NULL DEFAULT '',
+    `urgency` INTEGER NULL,
+    `flags` VARCHAR(1000) NOT NULL DEFAULT '',
+    `classifiedBy` VARCHAR(191) NULL,
+    `classifiedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `Review_shop_createdAt_idx`(`shop`, `createdAt`),
+    INDEX `Review_shop_urgency_idx`(`shop`, `urgency`),
+    INDEX `Review_classifiedAt_idx`(`classifiedAt`),
+    UNIQUE INDEX `Review_shop_source_externalId_key`(`shop`, `source`, `externalId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyDraft` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `reviewId` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'draft',
+    `body` TEXT NOT NULL,
+    `overriddenChecks` TEXT NULL,
+    `overrideReason` TEXT NULL,
+    `overriddenBy` VARCHAR(191) NULL,
+    `overriddenAt` DATETIME(3) NULL,
+    `templateVariantId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ReplyDraft_shop_status_idx`(`shop`, `status`),
+    INDEX `ReplyDraft_reviewId_idx`(`reviewId`),
+    INDEX `ReplyDraft_templateVariantId_idx`(`templateVariantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyRevision` (
+    `id` VARCHAR(191) NOT NULL,
+    `draftId` VARCHAR(191) NOT NULL,
+    `kind` VARCHAR(191) NOT NULL,
+    `body` TEXT NOT NULL,
+    `provider` VARCHAR(191) NULL,
+    `tone` VARCHAR(191) NULL,
+    `length` VARCHAR(191) NULL,
+    `language` VARCHAR(191) NULL,
+    `editedBy` VARCHAR(191) NULL,
+    `orderContext` TEXT NULL,
+    `instruction` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ReplyRevision_draftId_createdAt_idx`(`draftId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyCandidate` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `reviewId` VARCHAR(191) NOT NULL,
+    `batchId` VARCHAR(191) NOT NULL,
+    `style` VARCHAR(191) NOT NULL,
+    `tone` VARCHAR(191) NOT NULL,
+    `length` VARCHAR(191) NOT NULL,
+    `language` VARCHAR(191) NOT NULL,
+    `instruction` TEXT NULL,
+    `body` TEXT NOT NULL,
+    `provider` VARCHAR(191) NOT NULL,
+    `orderContext` TEXT NULL,
+    `chosenAt` DATETIME(3) NULL,
+    `chosenBy` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ReplyCandidate_shop_reviewId_createdAt_idx`(`shop`, `reviewId`, `createdAt`),
+    INDEX `ReplyCandidate_shop_createdAt_idx`(`shop`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyExample` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `key` VARCHAR(191) NOT NULL,
+    `reviewId` VARCHAR(191) NULL,
+    `rating` INTEGER NULL,
+    `reviewTitle` TEXT NULL,
+    `reviewBody` TEXT NOT NULL,
+    `replyBody` TEXT NOT NULL,
+    `terms` TEXT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ReplyExample_shop_createdAt_idx`(`shop`, `createdAt`),
+    UNIQUE INDEX `ReplyExample_shop_key_key`(`shop`, `key`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ShopSettings` (
+    `shop` VARCHAR(191) NOT NULL,
+    `brandVoice` VARCHAR(2000) NOT NULL DEFAULT '',
+    `signOff` VARCHAR(500) NOT NULL DEFAULT '',
+    `bannedPhrases` VARCHAR(2000) NOT NULL DEFAULT '',
+    `allowDiscounts` BOOLEAN NOT NULL DEFAULT false,
+    `allowRefunds` BOOLEAN NOT NULL DEFAULT false,
+    `maxLength` INTEGER NOT NULL DEFAULT 600,
+    `defaultLanguage` VARCHAR(191) NOT NULL DEFAULT 'en',
+    `matchReviewLanguage` BOOLEAN NOT NULL DEFAULT true,
+    `competitors` VARCHAR(2000) NOT NULL DEFAULT '',
+    `requireApproval` BOOLEAN NOT NULL DEFAULT false,
+    `approvers` VARCHAR(2000) NOT NULL DEFAULT '',
+    `autoPublishFiveStar` BOOLEAN NOT NULL DEFAULT false,
+    `serviceDiscounts` BOOLEAN NOT NULL DEFAULT false,
+    `serviceDiscountAmount` INTEGER NOT NULL DEFAULT 10,
+    `serviceDiscountMonthlyBudget` INTEGER NOT NULL DEFAULT 100,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`shop`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `GenerationJob` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'running',
+    `tone` VARCHAR(191) NOT NULL,
+    `length` VARCHAR(191) NOT NULL,
+    `language` VARCHAR(191) NOT NULL,
+    `total` INTEGER NOT NULL,
+    `completed` INTEGER NOT NULL DEFAULT 0,
+    `failed` INTEGER NOT NULL DEFAULT 0,
+    `createdBy` VARCHAR(191) NULL,
+    `autoPublish` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `GenerationJob_shop_createdAt_idx`(`shop`, `createdAt`),
+    INDEX `GenerationJob_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `GenerationJobItem` (
+    `id` VARCHAR(191) NOT NULL,
+    `jobId` VARCHAR(191) NOT NULL,
+    `reviewId` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'pending',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `error` TEXT NULL,
+    `nextAttemptAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `GenerationJobItem_jobId_status_nextAttemptAt_idx`(`jobId`, `status`, `nextAttemptAt`),
+    UNIQUE INDEX `GenerationJobItem_jobId_reviewId_key`(`jobId`, `reviewId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ProductSnapshot` (
+    `shop` VARCHAR(191) NOT NULL,
+    `productId` VARCHAR(191) NOT NULL,
+    `data` MEDIUMTEXT NOT NULL,
+    `fetchedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`shop`, `productId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyComment` (
+    `id` VARCHAR(191) NOT NULL,
+    `draftId` VARCHAR(191) NOT NULL,
+    `author` VARCHAR(191) NULL,
+    `body` TEXT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ReplyComment_draftId_createdAt_idx`(`draftId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyAuditEvent` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `reviewId` VARCHAR(191) NOT NULL,
+    `draftId` VARCHAR(191) NOT NULL,
+    `action` VARCHAR(191) NOT NULL,
+    `actor` VARCHAR(191) NULL,
+    `detail` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ReplyAuditEvent_shop_reviewId_createdAt_idx`(`shop`, `reviewId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PublishingConnection` (
+    `shop` VARCHAR(191) NOT NULL,
+    `platform` VARCHAR(191) NOT NULL,
+    `apiKey` TEXT NOT NULL,
+    `apiSecret` VARCHAR(1000) NOT NULL DEFAULT '',
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`shop`, `platform`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyPublication` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `draftId` VARCHAR(191) NOT NULL,
+    `platform` VARCHAR(191) NOT NULL,
+    `body` TEXT NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'pending',
+    `remoteId` VARCHAR(191) NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `error` TEXT NULL,
+    `nextAttemptAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `publishedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ReplyPublication_status_nextAttemptAt_idx`(`status`, `nextAttemptAt`),
+    INDEX `ReplyPublication_draftId_createdAt_idx`(`draftId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReviewWebhookSecret` (
+    `shop` VARCHAR(191) NOT NULL,
+    `secret` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`shop`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReviewWebhookDelivery` (
+    `shop` VARCHAR(191) NOT NULL,
+    `deliveryId` VARCHAR(191) NOT NULL,
+    `receivedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ReviewWebhookDelivery_receivedAt_idx`(`receivedAt`),
+    PRIMARY KEY (`shop`, `deliveryId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyTemplate` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `mode` VARCHAR(191) NOT NULL DEFAULT 'seed',
+    `minRating` INTEGER NOT NULL DEFAULT 1,
+    `maxRating` INTEGER NOT NULL DEFAULT 5,
+    `topic` VARCHAR(191) NULL,
+    `productTag` VARCHAR(191) NULL,
+    `language` VARCHAR(191) NULL,
+    `active` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ReplyTemplate_shop_idx`(`shop`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReplyTemplateVariant` (
+    `id` VARCHAR(191) NOT NULL,
+    `templateId` VARCHAR(191) NOT NULL,
+    `label` VARCHAR(191) NOT NULL,
+    `body` TEXT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ReplyTemplateVariant_templateId_idx`(`templateId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ServiceDiscount` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `reviewId` VARCHAR(191) NOT NULL,
+    `code` VARCHAR(191) NOT NULL,
+    `discountId` VARCHAR(191) NOT NULL,
+    `amount` INTEGER NOT NULL,
+    `currencyCode` VARCHAR(191) NOT NULL,
+    `usageCount` INTEGER NOT NULL DEFAULT 0,
+    `redeemedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ServiceDiscount_shop_createdAt_idx`(`shop`, `createdAt`),
+    UNIQUE INDEX `ServiceDiscount_shop_reviewId_key`(`shop`, `reviewId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ShopPlan` (
+    `shop` VARCHAR(191) NOT NULL,
+    `plan` VARCHAR(191) NOT NULL DEFAULT 'Free',
+    `subscriptionId` VARCHAR(191) NULL,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`shop`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ShopUsage` (
+    `shop` VARCHAR(191) NOT NULL,
+    `month` VARCHAR(191) NOT NULL,
+    `generations` INTEGER NOT NULL DEFAULT 0,
+    `inputTokens` INTEGER NOT NULL DEFAULT 0,
+    `outputTokens` INTEGER NOT NULL DEFAULT 0,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`shop`, `month`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ComplianceRequest` (
+    `id` VARCHAR(191) NOT NULL,
+    `shop` VARCHAR(191) NOT NULL,
+    `topic` VARCHAR(191) NOT NULL,
+    `customerId` VARCHAR(191) NULL,
+    `reviews` INTEGER NOT NULL DEFAULT 0,
+    `export` LONGTEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ComplianceRequest_shop_createdAt_idx`(`shop`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ReplyDraft` ADD CONSTRAINT `ReplyDraft_reviewId_fkey` FOREIGN KEY (`reviewId`) REFERENCES `Review`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplyDraft` ADD CONSTRAINT `ReplyDraft_templateVariantId_fkey` FOREIGN KEY (`templateVariantId`) REFERENCES `ReplyTemplateVariant`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplyRevision` ADD CONSTRAINT `ReplyRevision_draftId_fkey` FOREIGN KEY (`draftId`) REFERENCES `ReplyDraft`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplyCandidate` ADD CONSTRAINT `ReplyCandidate_reviewId_fkey` FOREIGN KEY (`reviewId`) REFERENCES `Review`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplyExample` ADD CONSTRAINT `ReplyExample_reviewId_fkey` FOREIGN KEY (`reviewId`) REFERENCES `Review`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GenerationJobItem` ADD CONSTRAINT `GenerationJobItem_jobId_fkey` FOREIGN KEY (`jobId`) REFERENCES `GenerationJob`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GenerationJobItem` ADD CONSTRAINT `GenerationJobItem_reviewId_fkey` FOREIGN KEY (`reviewId`) REFERENCES `Review`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplyComment` ADD CONSTRAINT `ReplyComment_draftId_fkey` FOREIGN KEY (`draftId`) REFERENCES `ReplyDraft`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplyPublication` ADD CONSTRAINT `ReplyPublication_draftId_fkey` FOREIGN KEY (`draftId`) REFERENCES `ReplyDraft`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReplyTemplateVariant` ADD CONSTRAINT `ReplyTemplateVariant_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `ReplyTemplate`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `ServiceDiscount` MODIFY `discountId` VARCHAR(191) NULL;
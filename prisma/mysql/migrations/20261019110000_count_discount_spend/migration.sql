@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `ShopUsage` ADD COLUMN `discountSpend` INTEGER NOT NULL DEFAULT 0;
+
+-- Count the codes already reserved against the month they were reserved in.
+INSERT INTO `ShopUsage` (`shop`, `month`, `discountSpend`, `updatedAt`)
+SELECT `shop`, DATE_FORMAT(`createdAt`, '%Y-%m'), SUM(`amount`), CURRENT_TIMESTAMP(3)
+FROM `ServiceDiscount`
+GROUP BY 1, 2
+ON DUPLICATE KEY UPDATE `discountSpend` = VALUES(`discountSpend`);
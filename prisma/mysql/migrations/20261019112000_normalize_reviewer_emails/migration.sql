@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE `ReplyExample` ADD COLUMN `reviewerEmailNormalized` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `Review` ADD COLUMN `reviewerEmailNormalized` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `ReplyExample_shop_reviewerEmailNormalized_idx` ON `ReplyExample`(`shop`, `reviewerEmailNormalized`);
+
+-- CreateIndex
+CREATE INDEX `Review_shop_reviewerEmailNormalized_idx` ON `Review`(`shop`, `reviewerEmailNormalized`);
+
+-- Emails stored before this migration. Examples imported without their
+-- review have no email to copy.
+UPDATE `Review`
+SET `reviewerEmailNormalized` = NULLIF(LOWER(TRIM(`reviewerEmail`)), '')
+WHERE `reviewerEmail` IS NOT NULL;
@@ -0,0 +1,450 @@
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "isOnline" BOOLEAN NOT NULL DEFAULT false,
+    "scope" TEXT,
+    "expires" TIMESTAMP(3),
+    "accessToken" TEXT NOT NULL,
+    "userId" BIGINT,
+    "firstName" TEXT,
+    "lastName" TEXT,
+    "email" TEXT,
+    "accountOwner" BOOLEAN NOT NULL DEFAULT false,
+    "locale" TEXT,
+    "collaborator" BOOLEAN DEFAULT false,
+    "emailVerified" BOOLEAN DEFAULT false,
+    "refreshToken" TEXT,
+    "refreshTokenExpires" TIMESTAMP(3),
+
+    CONSTRAINT "Session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "externalId" TEXT,
+    "productId" TEXT,
+    "productTitle" TEXT,
+    "reviewerName" TEXT,
+    "reviewerEmail" TEXT,
+    "rating" INTEGER NOT NULL,
+    "title" TEXT,
+    "body" TEXT NOT NULL,
+    "language" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "sentiment" TEXT,
+    "topics" TEXT NOT NULL DEFAULT '',
+    "urgency" INTEGER,
+    "flags" TEXT NOT NULL DEFAULT '',
+    "classifiedBy" TEXT,
+    "classifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyDraft" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "body" TEXT NOT NULL,
+    "overriddenChecks" TEXT,
+    "overrideReason" TEXT,
+    "overriddenBy" TEXT,
+    "overriddenAt" TIMESTAMP(3),
+    "templateVariantId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReplyDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyRevision" (
+    "id" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "provider" TEXT,
+    "tone" TEXT,
+    "length" TEXT,
+    "language" TEXT,
+    "editedBy" TEXT,
+    "orderContext" TEXT,
+    "instruction" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReplyRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyCandidate" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "style" TEXT NOT NULL,
+    "tone" TEXT NOT NULL,
+    "length" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "instruction" TEXT,
+    "body" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "orderContext" TEXT,
+    "chosenAt" TIMESTAMP(3),
+    "chosenBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReplyCandidate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyExample" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "reviewId" TEXT,
+    "rating" INTEGER,
+    "reviewTitle" TEXT,
+    "reviewBody" TEXT NOT NULL,
+    "replyBody" TEXT NOT NULL,
+    "terms" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReplyExample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "shop" TEXT NOT NULL,
+    "brandVoice" TEXT NOT NULL DEFAULT '',
+    "signOff" TEXT NOT NULL DEFAULT '',
+    "bannedPhrases" TEXT NOT NULL DEFAULT '',
+    "allowDiscounts" BOOLEAN NOT NULL DEFAULT false,
+    "allowRefunds" BOOLEAN NOT NULL DEFAULT false,
+    "maxLength" INTEGER NOT NULL DEFAULT 600,
+    "defaultLanguage" TEXT NOT NULL DEFAULT 'en',
+    "matchReviewLanguage" BOOLEAN NOT NULL DEFAULT true,
+    "competitors" TEXT NOT NULL DEFAULT '',
+    "requireApproval" BOOLEAN NOT NULL DEFAULT false,
+    "approvers" TEXT NOT NULL DEFAULT '',
+    "autoPublishFiveStar" BOOLEAN NOT NULL DEFAULT false,
+    "serviceDiscounts" BOOLEAN NOT NULL DEFAULT false,
+    "serviceDiscountAmount" INTEGER NOT NULL DEFAULT 10,
+    "serviceDiscountMonthlyBudget" INTEGER NOT NULL DEFAULT 100,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopSettings_pkey" PRIMARY KEY ("shop")
+);
+
+-- CreateTable
+CREATE TABLE "GenerationJob" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "tone" TEXT NOT NULL,
+    "length" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "total" INTEGER NOT NULL,
+    "completed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" TEXT,
+    "autoPublish" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenerationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GenerationJobItem" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenerationJobItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductSnapshot" (
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductSnapshot_pkey" PRIMARY KEY ("shop", "productId")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyComment" (
+    "id" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "author" TEXT,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReplyComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyAuditEvent" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT,
+    "detail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReplyAuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PublishingConnection" (
+    "shop" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "apiKey" TEXT NOT NULL,
+    "apiSecret" TEXT NOT NULL DEFAULT '',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PublishingConnection_pkey" PRIMARY KEY ("shop", "platform")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyPublication" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "remoteId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReplyPublication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewWebhookSecret" (
+    "shop" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewWebhookSecret_pkey" PRIMARY KEY ("shop")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewWebhookDelivery" (
+    "shop" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewWebhookDelivery_pkey" PRIMARY KEY ("shop", "deliveryId")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyTemplate" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mode" TEXT NOT NULL DEFAULT 'seed',
+    "minRating" INTEGER NOT NULL DEFAULT 1,
+    "maxRating" INTEGER NOT NULL DEFAULT 5,
+    "topic" TEXT,
+    "productTag" TEXT,
+    "language" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReplyTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReplyTemplateVariant" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReplyTemplateVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ServiceDiscount" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currencyCode" TEXT NOT NULL,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "redeemedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ServiceDiscount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShopPlan" (
+    "shop" TEXT NOT NULL,
+    "plan" TEXT NOT NULL DEFAULT 'Free',
+    "subscriptionId" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopPlan_pkey" PRIMARY KEY ("shop")
+);
+
+-- CreateTable
+CREATE TABLE "ShopUsage" (
+    "shop" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "generations" INTEGER NOT NULL DEFAULT 0,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopUsage_pkey" PRIMARY KEY ("shop", "month")
+);
+
+-- CreateTable
+CREATE TABLE "ComplianceRequest" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "customerId" TEXT,
+    "reviews" INTEGER NOT NULL DEFAULT 0,
+    "export" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ComplianceRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Review_shop_createdAt_idx" ON "Review"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Review_shop_urgency_idx" ON "Review"("shop", "urgency");
+
+-- CreateIndex
+CREATE INDEX "Review_classifiedAt_idx" ON "Review"("classifiedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_shop_source_externalId_key" ON "Review"("shop", "source", "externalId");
+
+-- CreateIndex
+CREATE INDEX "ReplyDraft_shop_status_idx" ON "ReplyDraft"("shop", "status");
+
+-- CreateIndex
+CREATE INDEX "ReplyDraft_reviewId_idx" ON "ReplyDraft"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReplyDraft_templateVariantId_idx" ON "ReplyDraft"("templateVariantId");
+
+-- CreateIndex
+CREATE INDEX "ReplyRevision_draftId_createdAt_idx" ON "ReplyRevision"("draftId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyCandidate_shop_reviewId_createdAt_idx" ON "ReplyCandidate"("shop", "reviewId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyCandidate_shop_createdAt_idx" ON "ReplyCandidate"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyExample_shop_createdAt_idx" ON "ReplyExample"("shop", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReplyExample_shop_key_key" ON "ReplyExample"("shop", "key");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_shop_createdAt_idx" ON "GenerationJob"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_status_idx" ON "GenerationJob"("status");
+
+-- CreateIndex
+CREATE INDEX "GenerationJobItem_jobId_status_nextAttemptAt_idx" ON "GenerationJobItem"("jobId", "status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenerationJobItem_jobId_reviewId_key" ON "GenerationJobItem"("jobId", "reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReplyComment_draftId_createdAt_idx" ON "ReplyComment"("draftId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyAuditEvent_shop_reviewId_createdAt_idx" ON "ReplyAuditEvent"("shop", "reviewId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyPublication_status_nextAttemptAt_idx" ON "ReplyPublication"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyPublication_draftId_createdAt_idx" ON "ReplyPublication"("draftId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReviewWebhookDelivery_receivedAt_idx" ON "ReviewWebhookDelivery"("receivedAt");
+
+-- CreateIndex
+CREATE INDEX "ReplyTemplate_shop_idx" ON "ReplyTemplate"("shop");
+
+-- CreateIndex
+CREATE INDEX "ReplyTemplateVariant_templateId_idx" ON "ReplyTemplateVariant"("templateId");
+
+-- CreateIndex
+CREATE INDEX "ServiceDiscount_shop_createdAt_idx" ON "ServiceDiscount"("shop", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceDiscount_shop_reviewId_key" ON "ServiceDiscount"("shop", "reviewId");
+
+-- CreateIndex
+CREATE INDEX "ComplianceRequest_shop_createdAt_idx" ON "ComplianceRequest"("shop", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReplyDraft" ADD CONSTRAINT "ReplyDraft_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyDraft" ADD CONSTRAINT "ReplyDraft_templateVariantId_fkey" FOREIGN KEY ("templateVariantId") REFERENCES "ReplyTemplateVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyRevision" ADD CONSTRAINT "ReplyRevision_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ReplyDraft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyCandidate" ADD CONSTRAINT "ReplyCandidate_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyExample" ADD CONSTRAINT "ReplyExample_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GenerationJobItem" ADD CONSTRAINT "GenerationJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "GenerationJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GenerationJobItem" ADD CONSTRAINT "GenerationJobItem_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyComment" ADD CONSTRAINT "ReplyComment_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ReplyDraft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyPublication" ADD CONSTRAINT "ReplyPublication_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "ReplyDraft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReplyTemplateVariant" ADD CONSTRAINT "ReplyTemplateVariant_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ReplyTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
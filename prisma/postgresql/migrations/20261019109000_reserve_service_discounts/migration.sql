@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ServiceDiscount" ALTER COLUMN "discountId" DROP NOT NULL;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ShopUsage" ADD COLUMN "discountSpend" INTEGER NOT NULL DEFAULT 0;
+
+-- Count the codes already reserved against the month they were reserved in.
+INSERT INTO "ShopUsage" ("shop", "month", "discountSpend", "updatedAt")
+SELECT "shop", to_char("createdAt", 'YYYY-MM'), SUM("amount"), CURRENT_TIMESTAMP
+FROM "ServiceDiscount"
+GROUP BY 1, 2
+ON CONFLICT ("shop", "month") DO UPDATE SET "discountSpend" = EXCLUDED."discountSpend";
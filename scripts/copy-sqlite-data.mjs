@@ -0,0 +1,121 @@
+/* eslint-env node */
+/**
+ * Copies sessions and app data out of the SQLite file into the Postgres or
+ * MySQL database DATABASE_URL points at. Run it once when moving off SQLite,
+ * after `npm run setup` has created the tables and before the app is started:
+ *
+ *   node scripts/copy-sqlite-data.mjs [path to SQLite file]
+ *
+ * The file defaults to prisma/dev.sqlite and must be migrated to the latest
+ * schema. Rows already in the target are skipped, so a copy that stopped
+ * halfway can be run again.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { join, resolve } from "node:path";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { loadDatabaseUrl, providerFor, runPrisma } from "./prisma.mjs";
+
+const BATCH_SIZE = 500;
+const CLIENT_DIR = "node_modules/.cache/sqlite-copy";
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+/**
+ * The app's client is generated for the target database, so a second client
+ * is generated from the SQLite schema, pointed at the file being copied.
+ */
+function createSourceClient(file) {
+  const schema = readFileSync("prisma/schema.prisma", "utf8")
+    .replace(
+      /generator client \{[^}]*\}/,
+      'generator client {\n  provider = "prisma-client-js"\n  output   = "client"\n}',
+    )
+    .replace(/url\s*=\s*env\("DATABASE_URL"\)/, `url = "file:${file}"`);
+  mkdirSync(CLIENT_DIR, { recursive: true });
+  writeFileSync(join(CLIENT_DIR, "schema.prisma"), schema);
+  if (runPrisma(["generate", "--schema", join(CLIENT_DIR, "schema.prisma")])) {
+    fail("Could not generate a client for the SQLite file");
+  }
+
+  const require = createRequire(import.meta.url);
+  const { PrismaClient: SourceClient } = require(resolve(CLIENT_DIR, "client"));
+
+  return new SourceClient();
+}
+
+/** Orders models so rows are copied after the rows they reference. */
+function copyOrder(models) {
+  const ordered = [];
+  const visit = (model) => {
+    if (ordered.includes(model)) {
+      return;
+    }
+    model.fields
+      .filter((field) => field.relationFromFields?.length)
+      .forEach((field) =>
+        visit(models.find((candidate) => candidate.name === field.type)),
+      );
+    ordered.push(model);
+  };
+  models.forEach(visit);
+
+  return ordered;
+}
+
+function primaryKey(model) {
+  return (
+    model.primaryKey?.fields ??
+    model.fields.filter((field) => field.isId).map((field) => field.name)
+  );
+}
+
+async function copyModel(source, target, model) {
+  const delegate = model.name[0].toLowerCase() + model.name.slice(1);
+  const orderBy = primaryKey(model).map((field) => ({ [field]: "asc" }));
+  let read = 0;
+  let copied = 0;
+
+  for (;;) {
+    const rows = await source[delegate].findMany({
+      orderBy,
+      skip: read,
+      take: BATCH_SIZE,
+    });
+    if (!rows.length) {
+      break;
+    }
+    const { count } = await target[delegate].createMany({
+      data: rows,
+      skipDuplicates: true,
+    });
+    read += rows.length;
+    copied += count;
+  }
+
+  console.log(`${model.name}: ${copied} of ${read} rows copied`);
+}
+
+const url = loadDatabaseUrl();
+if (providerFor(url) === "sqlite") {
+  fail("Set DATABASE_URL to the Postgres or MySQL database to copy into");
+}
+
+const file = resolve(process.argv[2] ?? "prisma/dev.sqlite");
+if (!existsSync(file)) {
+  fail(`${file} does not exist`);
+}
+
+const source = createSourceClient(file);
+const target = new PrismaClient();
+try {
+  for (const model of copyOrder(Prisma.dmmf.datamodel.models)) {
+    await copyModel(source, target, model);
+  }
+} finally {
+  await source.$disconnect();
+  await target.$disconnect();
+}
@@ -0,0 +1,39 @@
+/* eslint-env node */
+/**
+ * A stand-in for the Judge.me and Yotpo APIs, for trying out publishing
+ * locally. Every POST is logged and answered with a new reply ID.
+ *
+ *   node scripts/mock-review-platform.mjs [port] [failure rate]
+ *
+ * Point the app at it with JUDGEME_API_URL=http://localhost:4010 and
+ * YOTPO_API_URL=http://localhost:4010. A failure rate such as 0.3 answers
+ * that share of requests with a 503 so retries can be watched.
+ */
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2]) || 4010;
+const failureRate = Number(process.argv[3]) || 0;
+let nextId = 1;
+
+createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => (body += chunk));
+  request.on("end", () => {
+    console.log(`${request.method} ${request.url}`, body);
+    response.setHeader("Content-Type", "application/json");
+
+    if (request.method !== "POST") {
+      response.statusCode = 405;
+      response.end(JSON.stringify({ error: "Method not allowed" }));
+    } else if (Math.random() < failureRate) {
+      response.statusCode = 503;
+      response.end(JSON.stringify({ error: "Temporarily unavailable" }));
+    } else if (request.url === "/oauth/token") {
+      response.end(JSON.stringify({ access_token: "mock-token" }));
+    } else {
+      response.end(JSON.stringify({ id: `mock-${nextId++}` }));
+    }
+  });
+}).listen(port, () => {
+  console.log(`Mock review platform listening on http://localhost:${port}`);
+});
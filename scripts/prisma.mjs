@@ -0,0 +1,80 @@
+/* eslint-env node */
+/**
+ * Runs the Prisma CLI against the schema for the database DATABASE_URL points
+ * at, so the same commands work on SQLite, Postgres and MySQL:
+ *
+ *   node scripts/prisma.mjs migrate deploy
+ *
+ * DATABASE_URL is read from the environment or .env and defaults to the
+ * SQLite file prisma/dev.sqlite.
+ */
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { pathToFileURL } from "node:url";
+
+export const DEFAULT_DATABASE_URL = "file:dev.sqlite";
+
+const SCHEMAS = {
+  sqlite: "prisma/schema.prisma",
+  postgresql: "prisma/postgresql/schema.prisma",
+  mysql: "prisma/mysql/schema.prisma",
+};
+
+/** Loads .env and fills in the default database, like the app does. */
+export function loadDatabaseUrl() {
+  if (existsSync(".env")) {
+    process.loadEnvFile(".env");
+  }
+  process.env.DATABASE_URL ||= DEFAULT_DATABASE_URL;
+
+  return process.env.DATABASE_URL;
+}
+
+export function providerFor(url) {
+  if (/^postgres(ql)?:\/\//.test(url)) {
+    return "postgresql";
+  }
+  if (url.startsWith("mysql://")) {
+    return "mysql";
+  }
+  if (url.startsWith("file:")) {
+    return "sqlite";
+  }
+
+  throw new Error(
+    "DATABASE_URL must start with file:, postgresql:// or mysql://",
+  );
+}
+
+export function schemaFor(url) {
+  return SCHEMAS[providerFor(url)];
+}
+
+/** Runs a Prisma CLI command and returns its exit code. */
+export function runPrisma(args) {
+  const require = createRequire(import.meta.url);
+  const cli = join(dirname(require.resolve("prisma/package.json")), "build");
+  const { status } = spawnSync(
+    process.execPath,
+    [join(cli, "index.js"), ...args],
+    { stdio: "inherit" },
+  );
+
+  return status ?? 1;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  if (!args.some((arg) => arg.startsWith("--schema"))) {
+    try {
+      args.push("--schema", schemaFor(loadDatabaseUrl()));
+    } catch (error) {
+      console.error(error.message);
+      process.exit(1);
+    }
+  }
+
+  process.exit(runPrisma(args));
+}